@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth/session';
+
+/**
+ * POST /api/auth/logout
+ * End the current wallet session
+ */
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { issueNonce } from '@/lib/auth/siwe';
+
+/**
+ * GET /api/auth/nonce
+ * Issue a single-use nonce for a Sign-In-With-Ethereum message
+ */
+export async function GET() {
+  try {
+    const nonce = await issueNonce();
+
+    return NextResponse.json(
+      { nonce },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error issuing nonce:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
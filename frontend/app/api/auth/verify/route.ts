@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySignIn } from '@/lib/auth/siwe';
+import { createSessionToken, setSessionCookie } from '@/lib/auth/session';
+import { AUTH } from '@/lib/contracts/config';
+
+/**
+ * POST /api/auth/verify
+ * Verify a signed SIWE message and start a wallet session
+ *
+ * Body:
+ * - message: string (EIP-4361 message containing a nonce from /api/auth/nonce)
+ * - signature: string
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.message !== 'string' || typeof body.signature !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing message or signature' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]+$/.test(body.signature)) {
+      return NextResponse.json(
+        { error: 'Invalid signature format' },
+        { status: 400 }
+      );
+    }
+
+    // The message must be bound to our own domain; the Host header is client-controlled
+    if (!AUTH.APP_DOMAIN) {
+      console.error('APP_DOMAIN is not configured');
+      return NextResponse.json(
+        { error: 'Sign-in is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { address, error } = await verifySignIn(body.message, body.signature, AUTH.APP_DOMAIN);
+
+    if (!address) {
+      return NextResponse.json(
+        { error: error || 'Sign-in failed' },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = createSessionToken(address);
+
+    const response = NextResponse.json({
+      success: true,
+      address: address.toLowerCase(),
+      expiresAt: expiresAt.toISOString(),
+    });
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+  } catch (error) {
+    console.error('Error in auth verify:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
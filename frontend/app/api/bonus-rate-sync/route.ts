@@ -0,0 +1,14 @@
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { runBonusRateSyncJob } from '@/lib/pricing/job';
+
+// Serverless invocations get cut off; the job stops sending updates before this
+export const maxDuration = 300;
+
+/**
+ * GET /api/bonus-rate-sync
+ * Quote every duration and update on-chain bonus rates that drifted (admin cron job endpoint)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts)
+ */
+export const GET = jobRoute(() => runBonusRateSyncJob(), 'bonus rate sync');
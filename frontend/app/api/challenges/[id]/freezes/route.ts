@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type Hash } from 'viem';
+import { STREAK_FREEZES } from '@/lib/contracts/config';
+import { getFreezeBalance, recordFreezePurchase } from '@/lib/verification/streakFreezes';
+
+/**
+ * GET /api/challenges/[id]/freezes
+ * Get a challenge's streak freeze balance and the price of buying one
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const challengeId = parseInt(params.id);
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid challenge ID' },
+        { status: 400 }
+      );
+    }
+
+    const balance = await getFreezeBalance(challengeId);
+
+    return NextResponse.json({
+      challengeId,
+      ...balance,
+      priceWei: STREAK_FREEZES.PRICE_WEI.toString(),
+      canPurchase: balance.earned + balance.purchased < balance.max,
+    });
+  } catch (error) {
+    console.error('Error in freezes GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/challenges/[id]/freezes
+ * Record a freeze bought by paying the vault (BetItVault.addRevenue) from the challenger's wallet
+ *
+ * Body:
+ * - txHash: string (payment transaction hash)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const challengeId = parseInt(params.id);
+    const { txHash } = await request.json();
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid challenge ID' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof txHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordFreezePurchase(challengeId, txHash as Hash);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Purchase failed' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      freezes: result.balance,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error in freezes POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
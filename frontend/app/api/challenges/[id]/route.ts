@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase/client';
+import { getChallengeOutcomes } from '@/lib/challenges/outcomes';
+
+/**
+ * GET /api/challenges/[id]
+ * Get a challenge with its challenger's profile and its outcome (payout or lost stake)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const challengeId = parseInt(params.id);
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid challenge ID' },
+        { status: 400 }
+      );
+    }
+
+    const { data: challenge, error } = await supabase
+      .from('challenges')
+      .select(`
+        *,
+        users:user_address (
+          username,
+          avatar_url,
+          farcaster_username
+        )
+      `)
+      .eq('challenge_id', challengeId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching challenge:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch challenge' },
+        { status: 500 }
+      );
+    }
+
+    if (!challenge) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    const outcomes = await getChallengeOutcomes([challenge]);
+
+    return NextResponse.json({
+      challenge: {
+        ...challenge,
+        outcome: outcomes.get(challengeId),
+      },
+    });
+  } catch (error) {
+    console.error('Error in challenge GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase/client';
+import { createPublicClient, http, parseEventLogs, type Hash } from 'viem';
+import { CONTRACTS, MEGAETH_CHAIN } from '@/lib/contracts/config';
+import { BetItChallengesABI } from '@/lib/contracts/abis';
+import { DEFAULT_ACTIVITY_RULES, parseActivityRules } from '@/lib/verification/activityRules';
+import { getChallengeOutcomes } from '@/lib/challenges/outcomes';
+import { requireSession } from '@/lib/auth/session';
+
+// Create viem client
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
 
 /**
  * GET /api/challenges
- * Get list of challenges with optional filters
+ * Get list of challenges with optional filters, each with its outcome (payout or lost stake)
  *
  * Query params:
  * - status: 'active' | 'completed' | 'failed' | 'forfeited'
@@ -61,8 +73,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Payout or lost stake of settled challenges
+    const outcomes = await getChallengeOutcomes(data || []);
+
     return NextResponse.json({
-      challenges: data || [],
+      challenges: (data || []).map(challenge => ({
+        ...challenge,
+        outcome: outcomes.get(challenge.challenge_id),
+      })),
       pagination: {
         total: count || 0,
         limit,
@@ -82,6 +100,10 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/challenges
  * Create a new challenge (records on-chain event to database)
+ * The body is checked against the ChallengeCreated event in the transaction receipt.
+ * Custom activity rules require a session as the challenger. If the indexer already
+ * recorded the challenge, they are set on that row instead, once: 409 when the row
+ * already has custom rules or any day has been verified
  *
  * Body:
  * - challengeId: number (on-chain ID)
@@ -90,6 +112,9 @@ export async function GET(request: NextRequest) {
  * - duration: number (days)
  * - bonusRate: number (basis points)
  * - txHash: string
+ * - activityRules?: object (min_tx_count, min_spent_wei, required_categories,
+ *   min_distinct_contracts; defaults to one qualifying tx per day, anything else
+ *   requires a session as the challenger)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -101,6 +126,7 @@ export async function POST(request: NextRequest) {
       duration,
       bonusRate,
       txHash,
+      activityRules,
     } = body;
 
     // Validation
@@ -125,37 +151,138 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Calculate dates
-    const startDate = new Date();
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + parseInt(duration));
+    if ([challengeId, stakeAmount, duration, bonusRate].some(value => !/^\d+$/.test(String(value)))) {
+      return NextResponse.json(
+        { error: 'challengeId, stakeAmount, duration and bonusRate must be integers' },
+        { status: 400 }
+      );
+    }
+
+    const { rules, error: rulesError } = parseActivityRules(activityRules);
+    if (rulesError) {
+      return NextResponse.json(
+        { error: rulesError },
+        { status: 400 }
+      );
+    }
+
+    // Load the creation transaction and its ChallengeCreated event
+    let receipt;
+    try {
+      receipt = await publicClient.getTransactionReceipt({ hash: txHash as Hash });
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Transaction not found or not yet mined' },
+        { status: 400 }
+      );
+    }
+
+    if (receipt.status !== 'success') {
+      return NextResponse.json(
+        { error: 'Transaction reverted' },
+        { status: 400 }
+      );
+    }
+
+    const [created] = parseEventLogs({
+      abi: BetItChallengesABI,
+      eventName: 'ChallengeCreated',
+      logs: receipt.logs.filter(log => log.address.toLowerCase() === CONTRACTS.CHALLENGES.toLowerCase()),
+    });
+
+    if (!created) {
+      return NextResponse.json(
+        { error: 'Transaction did not create a challenge' },
+        { status: 400 }
+      );
+    }
+
+    const mismatches = [
+      created.args.challengeId !== BigInt(challengeId) && 'challengeId',
+      created.args.user.toLowerCase() !== userAddress.toLowerCase() && 'userAddress',
+      created.args.stake !== BigInt(stakeAmount) && 'stakeAmount',
+      created.args.duration !== BigInt(duration) && 'duration',
+      created.args.bonusRate !== BigInt(bonusRate) && 'bonusRate',
+    ].filter(Boolean);
+
+    if (mismatches.length > 0) {
+      return NextResponse.json(
+        { error: `Does not match on-chain challenge: ${mismatches.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Everything checked above is public on-chain: only the challenger may attach custom rules
+    const customRules = JSON.stringify(rules) !== JSON.stringify(DEFAULT_ACTIVITY_RULES);
+    if (customRules) {
+      const unauthorized = requireSession(request, created.args.user);
+      if (unauthorized) return unauthorized;
+    }
+
+    // Calculate dates from the block the challenge was created in
+    const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+    const startDate = new Date(Number(block.timestamp) * 1000);
+    const endDate = new Date(startDate.getTime() + Number(created.args.duration) * 24 * 60 * 60 * 1000);
 
     // Insert challenge
-    const { data, error } = await supabase
+    let { data, error } = await supabase
       .from('challenges')
       .insert({
-        challenge_id: parseInt(challengeId),
-        user_address: userAddress.toLowerCase(),
-        stake_amount: stakeAmount,
-        duration: parseInt(duration),
-        bonus_rate: parseInt(bonusRate),
+        challenge_id: Number(created.args.challengeId),
+        user_address: created.args.user.toLowerCase(),
+        stake_amount: created.args.stake.toString(),
+        duration: Number(created.args.duration),
+        bonus_rate: Number(created.args.bonusRate),
         start_date: startDate.toISOString(),
         end_date: endDate.toISOString(),
         status: 'active',
         tx_hash: txHash,
+        activity_rules: rules,
       })
       .select()
       .single();
 
-    if (error) {
-      // Check for duplicate challenge_id
-      if (error.code === '23505') {
+    // The indexer usually records the challenge first, with default rules. The
+    // challenger's rules still apply as long as no day has been checked against
+    // the defaults yet, and rules that were already set are never replaced
+    if (error?.code === '23505') {
+      const { count } = await supabase
+        .from('daily_activity')
+        .select('id', { count: 'exact', head: true })
+        .eq('challenge_id', Number(created.args.challengeId));
+
+      if (count) {
         return NextResponse.json(
           { error: 'Challenge already exists' },
           { status: 409 }
         );
       }
 
+      ({ data, error } = customRules
+        ? await supabase
+            .from('challenges')
+            .update({ activity_rules: rules })
+            .eq('challenge_id', Number(created.args.challengeId))
+            .eq('tx_hash', txHash)
+            .eq('activity_rules', JSON.stringify(DEFAULT_ACTIVITY_RULES))
+            .select()
+            .maybeSingle()
+        : await supabase
+            .from('challenges')
+            .select()
+            .eq('challenge_id', Number(created.args.challengeId))
+            .eq('tx_hash', txHash)
+            .maybeSingle());
+
+      if (!error && !data) {
+        return NextResponse.json(
+          { error: 'Challenge already has activity rules' },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (error) {
       console.error('Error creating challenge:', error);
       return NextResponse.json(
         { error: error.message || 'Failed to create challenge' },
@@ -164,15 +291,22 @@ export async function POST(request: NextRequest) {
     }
 
     // Log transaction
-    await supabase.from('transactions_log').insert({
+    await supabase.from('transactions_log').upsert({
       tx_hash: txHash,
+      log_index: created.logIndex,
+      block_number: Number(receipt.blockNumber),
+      block_hash: receipt.blockHash,
       timestamp: startDate.toISOString(),
-      from_address: userAddress.toLowerCase(),
-      to_address: process.env.NEXT_PUBLIC_CHALLENGES_ADDRESS?.toLowerCase() || '',
+      from_address: created.args.user.toLowerCase(),
+      to_address: CONTRACTS.CHALLENGES.toLowerCase(),
       type: 'challenge_created',
-      challenge_id: parseInt(challengeId),
-      amount: stakeAmount,
-    });
+      challenge_id: Number(created.args.challengeId),
+      amount: created.args.stake.toString(),
+      metadata: {
+        duration: Number(created.args.duration),
+        bonus_rate: Number(created.args.bonusRate),
+      },
+    }, { onConflict: 'tx_hash,log_index' });
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FRAME_MESSAGES, type FrameMessageKind } from '@/lib/farcaster/streakFrame';
+import { renderMessageCard } from '@/lib/og/renderCard';
+import { cardImageResponse } from '@/lib/og/response';
+
+/**
+ * GET /api/frame/image/[kind]
+ * Get a streak frame's message image (1200x630 PNG)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { kind: string } }
+) {
+  try {
+    if (!Object.prototype.hasOwnProperty.call(FRAME_MESSAGES, params.kind)) {
+      return NextResponse.json(
+        { error: `kind must be one of: ${Object.keys(FRAME_MESSAGES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const message = FRAME_MESSAGES[params.kind as FrameMessageKind];
+
+    return await cardImageResponse(request, `frame:${params.kind}`, () => renderMessageCard(message));
+  } catch (error) {
+    console.error('Error in frame image GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { frameHtml, type Frame } from '@/lib/farcaster/frame';
+import { FrameMessageError, verifyFrameMessage, type FrameAction } from '@/lib/farcaster/frameMessage';
+import { frameActionFromUrl, streakFrame, welcomeFrame } from '@/lib/farcaster/streakFrame';
+import { AUTH } from '@/lib/contracts/config';
+
+function frameResponse(frame: Frame) {
+  return new NextResponse(frameHtml(frame), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+/**
+ * GET /api/frame
+ * Get the streak frame (HTML with fc:frame meta tags) to embed in a cast
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return frameResponse(welcomeFrame(request.nextUrl.origin));
+  } catch (error) {
+    console.error('Error in frame GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/frame
+ * Handle a frame button press and respond with the next frame
+ *
+ * The action ('status' | 'verify') is read from the URL signed into the message,
+ * not from this request's query string, and that URL must point at our domain.
+ *
+ * Body (frame signature packet):
+ * - trustedData.messageBytes: string (hex-encoded signed FrameAction message)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!AUTH.APP_DOMAIN) {
+      console.error('APP_DOMAIN is not configured');
+      return NextResponse.json(
+        { error: 'Frames are not configured' },
+        { status: 500 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const messageBytes = body?.trustedData?.messageBytes;
+
+    if (typeof messageBytes !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: trustedData.messageBytes' },
+        { status: 400 }
+      );
+    }
+
+    // untrustedData is ignored; everything used comes from the signed message
+    let message: FrameAction;
+    try {
+      message = await verifyFrameMessage(messageBytes);
+    } catch (error) {
+      if (error instanceof FrameMessageError) {
+        return NextResponse.json(
+          { error: `Invalid frame message: ${error.message}` },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const action = frameActionFromUrl(message.url, AUTH.APP_DOMAIN);
+    if (!action) {
+      return NextResponse.json(
+        { error: 'Invalid frame message: signed for another frame' },
+        { status: 400 }
+      );
+    }
+
+    const frame = await streakFrame(request.nextUrl.origin, message.fid, action);
+
+    return frameResponse(frame);
+  } catch (error) {
+    console.error('Error in frame POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { runH2HJob } from '@/lib/h2h/job';
+
+// Serverless invocations get cut off; the job stops checking matches before this
+export const maxDuration = 300;
+
+/**
+ * GET /api/h2h-settlement
+ * Check active head-to-head matches and settle decided ones on-chain (cron job endpoint)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts)
+ */
+export const GET = jobRoute(() => runH2HJob(), 'head-to-head run');
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type Hash } from 'viem';
+import { recordAccept } from '@/lib/h2h/matches';
+
+/**
+ * POST /api/h2h/[id]/accept
+ * Start a head-to-head match after the opponent's acceptH2H transaction is mined
+ *
+ * Body:
+ * - txHash: string (acceptH2H transaction hash)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const matchId = parseInt(params.id);
+    const { txHash } = await request.json();
+
+    if (!Number.isInteger(matchId) || matchId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid match ID' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof txHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordAccept(matchId, txHash as Hash);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Accept failed' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      match: result.match,
+    });
+  } catch (error) {
+    console.error('Error in h2h accept POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
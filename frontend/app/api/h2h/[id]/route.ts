@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase/client';
+import { getMatch } from '@/lib/h2h/matches';
+import { getChallengeDays } from '@/lib/verification/days';
+
+/**
+ * GET /api/h2h/[id]
+ * Get a head-to-head match with both participants' day-by-day progress
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const matchId = parseInt(params.id);
+
+    if (!Number.isInteger(matchId) || matchId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid match ID' },
+        { status: 400 }
+      );
+    }
+
+    const match = await getMatch(matchId);
+
+    if (!match) {
+      return NextResponse.json(
+        { error: 'Match not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: activity } = await supabase
+      .from('h2h_daily_activity')
+      .select('user_address, date, verified, tx_count')
+      .eq('match_id', matchId);
+
+    const days = match.start_date
+      ? getChallengeDays(new Date(match.start_date), match.duration, match.timezone)
+      : [];
+
+    const progress = (address: string) => {
+      const rows = new Map(
+        (activity || [])
+          .filter(row => row.user_address === address)
+          .map(row => [row.date as string, row])
+      );
+
+      return {
+        address,
+        daysVerified: [...rows.values()].filter(row => row.verified).length,
+        days: days.map(date => ({
+          date,
+          verified: rows.get(date)?.verified ?? null,
+          txCount: rows.get(date)?.tx_count ?? 0,
+        })),
+      };
+    };
+
+    return NextResponse.json({
+      match,
+      challenger: progress(match.challenger_address),
+      opponent: progress(match.opponent_address),
+    });
+  } catch (error) {
+    console.error('Error in h2h match GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
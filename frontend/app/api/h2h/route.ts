@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Hash } from 'viem';
+import { getMatchesForUser, recordInvite } from '@/lib/h2h/matches';
+
+/**
+ * GET /api/h2h
+ * Get a wallet's head-to-head matches (as challenger or opponent)
+ *
+ * Query params:
+ * - user: address (required)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const user = searchParams.get('user');
+
+    if (!user || !isAddress(user)) {
+      return NextResponse.json(
+        { error: 'Invalid user address' },
+        { status: 400 }
+      );
+    }
+
+    const matches = await getMatchesForUser(user);
+
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error('Error in h2h GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/h2h
+ * Record a head-to-head invite after the challenger's createH2H transaction is mined
+ *
+ * Body:
+ * - txHash: string (createH2H transaction hash)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { txHash } = await request.json();
+
+    if (typeof txHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordInvite(txHash as Hash);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to record invite' },
+        { status: result.error === 'Invite already recorded' ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      match: result.match,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error in h2h POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
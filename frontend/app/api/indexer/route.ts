@@ -0,0 +1,20 @@
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { syncChainEvents } from '@/lib/indexer/chainIndexer';
+
+// Serverless invocations get cut off; the sync stops starting batches before this
+export const maxDuration = 300;
+
+/**
+ * GET /api/indexer
+ * Sync contract events into the database (cron job endpoint)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts)
+ *
+ * Query params:
+ * - batches: number (max block batches this run, default 20, capped at INDEXER_MAX_BATCHES)
+ */
+export const GET = jobRoute(
+  request => syncChainEvents(parseInt(request.nextUrl.searchParams.get('batches') || '') || 20),
+  'indexer sync'
+);
@@ -0,0 +1,14 @@
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { runLeaderboardRefreshJob } from '@/lib/leaderboard/job';
+
+// Serverless invocations get cut off; a refresh should finish well before this
+export const maxDuration = 300;
+
+/**
+ * GET /api/leaderboard-refresh
+ * Rebuild the leaderboard materialized view (admin cron job endpoint)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts)
+ */
+export const GET = jobRoute(() => runLeaderboardRefreshJob(), 'leaderboard refresh');
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CACHE, LEADERBOARD } from '@/lib/contracts/config';
+import {
+  getLeaderboard,
+  LEADERBOARD_BOARDS,
+  LEADERBOARD_PERIODS,
+  type LeaderboardBoard,
+  type LeaderboardPage,
+  type LeaderboardPeriod,
+} from '@/lib/leaderboard/leaderboard';
+import { createSwrCache } from '@/lib/caching/swrCache';
+
+// One entry per board / period / page
+const leaderboardCache = createSwrCache<LeaderboardPage>({
+  ttlMs: CACHE.STATS_TTL_SECONDS * 1000,
+  staleMs: CACHE.STATS_STALE_SECONDS * 1000,
+});
+
+/**
+ * GET /api/leaderboard
+ * Get a ranked page of challengers
+ *
+ * Query params:
+ * - board: 'streak' | 'completed' | 'profit' | 'success_rate' (default 'streak')
+ * - period: 'week' | 'month' | 'all' (default 'all')
+ * - limit: number (default 25, max 100)
+ * - offset: number (default 0)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const board = searchParams.get('board') || 'streak';
+    const period = searchParams.get('period') || 'all';
+    const limit = parseInt(searchParams.get('limit') || '25');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (!LEADERBOARD_BOARDS.includes(board as LeaderboardBoard)) {
+      return NextResponse.json(
+        { error: `board must be one of: ${LEADERBOARD_BOARDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+      return NextResponse.json(
+        { error: `period must be one of: ${LEADERBOARD_PERIODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > LEADERBOARD.MAX_PAGE_SIZE || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: `limit must be 1-${LEADERBOARD.MAX_PAGE_SIZE} and offset a non-negative integer` },
+        { status: 400 }
+      );
+    }
+
+    const page = await leaderboardCache.get(
+      `${board}:${period}:${limit}:${offset}`,
+      () => getLeaderboard({
+        board: board as LeaderboardBoard,
+        period: period as LeaderboardPeriod,
+        limit,
+        offset,
+      })
+    );
+
+    return NextResponse.json({
+      ...page,
+      pagination: {
+        total: page.total,
+        limit,
+        offset,
+        hasMore: page.total > offset + limit,
+      },
+    }, {
+      headers: {
+        'Cache-Control': `public, s-maxage=${CACHE.STATS_TTL_SECONDS}, stale-while-revalidate=${CACHE.STATS_STALE_SECONDS}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in leaderboard GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
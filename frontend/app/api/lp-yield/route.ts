@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Address } from 'viem';
+import { CACHE } from '@/lib/contracts/config';
+import { getLpPnl, getVaultYield, type VaultYield } from '@/lib/lp/yield';
+import { createSwrCache } from '@/lib/caching/swrCache';
+
+// Same for every caller; the LP's own PnL is read fresh
+const yieldCache = createSwrCache<VaultYield>({
+  ttlMs: CACHE.STATS_TTL_SECONDS * 1000,
+  staleMs: CACHE.STATS_STALE_SECONDS * 1000,
+});
+
+/**
+ * GET /api/lp-yield
+ * Get realized vault APY, share price history and optionally an LP's PnL
+ *
+ * Query params:
+ * - address: LP wallet (optional, adds `position` with deposited / withdrawn / PnL)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (address && !isAddress(address)) {
+      return NextResponse.json(
+        { error: 'Invalid address' },
+        { status: 400 }
+      );
+    }
+
+    const [vaultYield, position] = await Promise.all([
+      yieldCache.get('vault', () => getVaultYield()),
+      address ? getLpPnl(address as Address) : Promise.resolve(null),
+    ]);
+
+    return NextResponse.json({
+      ...vaultYield,
+      position,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in lp-yield GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChallengeCardData } from '@/lib/og/cardData';
+import { renderChallengeCard } from '@/lib/og/renderCard';
+import { cardImageResponse } from '@/lib/og/response';
+
+/**
+ * GET /api/og/challenge/[id]
+ * Get a challenge's share card (1200x630 PNG) with streak progress, stake and bonus
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const challengeId = parseInt(params.id);
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid challenge ID' },
+        { status: 400 }
+      );
+    }
+
+    const card = await getChallengeCardData(challengeId);
+
+    if (!card) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    return await cardImageResponse(request, `challenge:${card.stateKey}`, () => renderChallengeCard(card));
+  } catch (error) {
+    console.error('Error in og challenge GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
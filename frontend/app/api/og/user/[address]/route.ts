@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserCardData } from '@/lib/og/cardData';
+import { renderUserCard } from '@/lib/og/renderCard';
+import { cardImageResponse } from '@/lib/og/response';
+
+/**
+ * GET /api/og/user/[address]
+ * Get a user's profile share card (1200x630 PNG) with their current streak and record
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  try {
+    const address = params.address.toLowerCase();
+
+    // Validate address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid Ethereum address' },
+        { status: 400 }
+      );
+    }
+
+    const card = await getUserCardData(address);
+
+    return await cardImageResponse(request, `user:${card.stateKey}`, () => renderUserCard(card));
+  } catch (error) {
+    console.error('Error in og user GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
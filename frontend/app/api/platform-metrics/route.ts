@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { runMetricsJob } from '@/lib/metrics/job';
+import { isDayKey } from '@/lib/verification/days';
+
+// Serverless invocations get cut off; the job stops writing snapshots before this
+export const maxDuration = 300;
+
+const runMetrics = jobRoute(
+  request => runMetricsJob({ from: request.nextUrl.searchParams.get('from') ?? undefined }),
+  'metrics run'
+);
+
+/**
+ * GET /api/platform-metrics
+ * Write daily platform_metrics snapshots for closed days (cron job endpoint)
+ *
+ * Query params:
+ * - from: YYYY-MM-DD (optional, rebuild snapshots from this day)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts)
+ */
+export async function GET(request: NextRequest) {
+  const from = request.nextUrl.searchParams.get('from');
+
+  if (from !== null && !isDayKey(from)) {
+    return NextResponse.json(
+      { error: 'from must be a YYYY-MM-DD date' },
+      { status: 400 }
+    );
+  }
+
+  return runMetrics(request);
+}
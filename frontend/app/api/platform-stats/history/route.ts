@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase/client';
+import { METRIC_COLUMNS, type MetricColumn } from '@/lib/metrics/platformMetrics';
+import { addDays, getDayKey, isDayKey } from '@/lib/verification/days';
+
+const MAX_DAYS = 366;
+
+/**
+ * GET /api/platform-stats/history
+ * Get daily platform_metrics snapshots for charts
+ *
+ * Query params:
+ * - from: YYYY-MM-DD (default 30 days before `to`)
+ * - to: YYYY-MM-DD (default yesterday, the latest closed day)
+ * - metric: platform_metrics column (optional, returns every column when omitted)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const to = searchParams.get('to') || addDays(getDayKey(new Date()), -1);
+    const from = searchParams.get('from') || addDays(to, -30);
+    const metric = searchParams.get('metric');
+
+    if (!isDayKey(from) || !isDayKey(to)) {
+      return NextResponse.json(
+        { error: 'from and to must be YYYY-MM-DD dates' },
+        { status: 400 }
+      );
+    }
+
+    if (from > to || addDays(from, MAX_DAYS) <= to) {
+      return NextResponse.json(
+        { error: `from must be on or before to, at most ${MAX_DAYS} days apart` },
+        { status: 400 }
+      );
+    }
+
+    if (metric && !METRIC_COLUMNS.includes(metric as MetricColumn)) {
+      return NextResponse.json(
+        { error: `metric must be one of: ${METRIC_COLUMNS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('platform_metrics')
+      .select(metric ? `date, ${metric}` : ['date', ...METRIC_COLUMNS].join(', '))
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching platform metrics:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch platform metrics' },
+        { status: 500 }
+      );
+    }
+
+    const rows = (data || []) as unknown as Array<Record<string, string | number>>;
+
+    return NextResponse.json({
+      from,
+      to,
+      metric: metric || null,
+      // Wei amounts are strings, counts are numbers
+      series: metric
+        ? rows.map(row => ({ date: row.date, value: row[metric] }))
+        : rows,
+    });
+  } catch (error) {
+    console.error('Error in platform-stats history GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
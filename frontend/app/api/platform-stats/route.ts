@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase/client';
 import { createPublicClient, http, formatEther } from 'viem';
-import { CONTRACTS, MEGAETH_CHAIN } from '@/lib/contracts/config';
+import { CACHE, CONTRACTS, MEGAETH_CHAIN, RISK } from '@/lib/contracts/config';
 import { BetItVaultABI } from '@/lib/contracts/abis';
+import { getVaultLiability, type VaultLiability } from '@/lib/risk/liability';
+import { getVaultYield, type VaultYield } from '@/lib/lp/yield';
+import { createSwrCache } from '@/lib/caching/swrCache';
 
 // Create viem client
 const publicClient = createPublicClient({
@@ -10,9 +13,184 @@ const publicClient = createPublicClient({
   transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
 });
 
+const PERIODS = ['day', 'week', 'month', 'all'] as const;
+
+type Period = typeof PERIODS[number];
+
+// Rows returned by the platform_challenge_stats and platform_lp_stats RPCs (wei sums as TEXT)
+interface ChallengeStatsRow {
+  total: number;
+  active: number;
+  completed: number;
+  failed: number;
+  forfeited: number;
+  total_stakes: string;
+  average_stake: string;
+  success_rate: string | number;
+}
+
+interface LpStatsRow {
+  lp_count: number;
+  total_deposited: string;
+  total_withdrawn: string;
+}
+
+type PlatformStats = Awaited<ReturnType<typeof loadPlatformStats>>;
+
+// One entry per period
+const statsCache = createSwrCache<PlatformStats>({
+  ttlMs: CACHE.STATS_TTL_SECONDS * 1000,
+  staleMs: CACHE.STATS_STALE_SECONDS * 1000,
+});
+
+/**
+ * Compute platform statistics for a period
+ * @param period Challenge stats window
+ */
+async function loadPlatformStats(period: Period) {
+  // Calculate date range based on period
+  let dateFilter: Date | null = null;
+  if (period !== 'all') {
+    dateFilter = new Date();
+    switch (period) {
+      case 'day':
+        dateFilter.setDate(dateFilter.getDate() - 1);
+        break;
+      case 'week':
+        dateFilter.setDate(dateFilter.getDate() - 7);
+        break;
+      case 'month':
+        dateFilter.setMonth(dateFilter.getMonth() - 1);
+        break;
+    }
+  }
+
+  // Get vault stats from contract. Failures throw rather than report zeros,
+  // which the cache would otherwise keep serving
+  const [totalAssets, totalShares] = await Promise.all([
+    publicClient.readContract({
+      address: CONTRACTS.VAULT,
+      abi: BetItVaultABI,
+      functionName: 'totalAssets',
+    }),
+    publicClient.readContract({
+      address: CONTRACTS.VAULT,
+      abi: BetItVaultABI,
+      functionName: 'totalShares',
+    }),
+  ]);
+
+  const vaultTotalAssets = totalAssets.toString();
+  const vaultTotalShares = totalShares.toString();
+
+  // Worst-case payouts on active challenges against vault assets
+  let vaultLiability: VaultLiability | null = null;
+  try {
+    vaultLiability = await getVaultLiability();
+  } catch (error) {
+    console.error('Error calculating vault liability:', error);
+  }
+
+  // Aggregated in Postgres, so totals are exact however many rows there are
+  const [challengeResult, lpResult, { count: uniqueUsers, error: usersError }] = await Promise.all([
+    supabase.rpc('platform_challenge_stats', { since: dateFilter?.toISOString() ?? null }),
+    supabase.rpc('platform_lp_stats'),
+    supabase.from('users').select('*', { count: 'exact', head: true }),
+  ]);
+
+  if (challengeResult.error) {
+    throw new Error(`Failed to fetch challenge stats: ${challengeResult.error.message}`);
+  }
+
+  if (lpResult.error) {
+    throw new Error(`Failed to fetch LP stats: ${lpResult.error.message}`);
+  }
+
+  if (usersError) {
+    throw new Error(`Failed to count users: ${usersError.message}`);
+  }
+
+  const challengeRow = (challengeResult.data as ChallengeStatsRow[] | null)?.[0];
+  const lpRow = (lpResult.data as LpStatsRow[] | null)?.[0];
+
+  const challengeStats = {
+    total: Number(challengeRow?.total ?? 0),
+    active: Number(challengeRow?.active ?? 0),
+    completed: Number(challengeRow?.completed ?? 0),
+    failed: Number(challengeRow?.failed ?? 0),
+    forfeited: Number(challengeRow?.forfeited ?? 0),
+  };
+
+  const totalStakes = BigInt(challengeRow?.total_stakes ?? 0);
+  const averageStake = BigInt(challengeRow?.average_stake ?? 0);
+  const successRate = Number(challengeRow?.success_rate ?? 0);
+
+  const lpStats = {
+    count: Number(lpRow?.lp_count ?? 0),
+    totalDeposited: BigInt(lpRow?.total_deposited ?? 0).toString(),
+    totalWithdrawn: BigInt(lpRow?.total_withdrawn ?? 0).toString(),
+  };
+
+  // Realized weekly LP yield: the change in vault share price over the last 7 days
+  let vaultYield: VaultYield | null = null;
+  try {
+    vaultYield = await getVaultYield();
+  } catch (error) {
+    console.error('Error calculating vault yield:', error);
+  }
+
+  // Get recent activity (last 10 challenges)
+  const { data: recentActivity } = await supabase
+    .from('challenges')
+    .select(`
+      challenge_id,
+      user_address,
+      stake_amount,
+      duration,
+      status,
+      created_at,
+      users:user_address (
+        username,
+        avatar_url
+      )
+    `)
+    .order('created_at', { ascending: false })
+    .limit(10);
+
+  return {
+    vault: {
+      totalAssets: vaultTotalAssets,
+      totalAssetsETH: formatEther(BigInt(vaultTotalAssets)),
+      totalShares: vaultTotalShares,
+      weeklyYield: (vaultYield?.return7d ?? 0).toFixed(2),
+      apy7d: vaultYield?.apy7d ?? null,
+      apy30d: vaultYield?.apy30d ?? null,
+      liability: vaultLiability?.liability.toString() ?? null,
+      liabilityETH: vaultLiability ? formatEther(vaultLiability.liability) : null,
+      utilization: vaultLiability?.utilization ?? null,
+      maxUtilization: RISK.MAX_UTILIZATION,
+    },
+    challenges: challengeStats,
+    lp: lpStats,
+    users: {
+      total: uniqueUsers || 0,
+    },
+    metrics: {
+      totalStakes: totalStakes.toString(),
+      totalStakesETH: formatEther(totalStakes),
+      successRate,
+      averageStake: formatEther(averageStake),
+    },
+    recentActivity: recentActivity || [],
+    period,
+    timestamp: new Date().toISOString(),
+  };
+}
+
 /**
  * GET /api/platform-stats
  * Get current platform statistics
+ * Cached for STATS_CACHE_TTL_SECONDS, then served stale while it refreshes
  *
  * Query params:
  * - period: 'day' | 'week' | 'month' | 'all' (default 'all')
@@ -22,177 +200,19 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const period = searchParams.get('period') || 'all';
 
-    // Calculate date range based on period
-    let dateFilter: Date | null = null;
-    if (period !== 'all') {
-      dateFilter = new Date();
-      switch (period) {
-        case 'day':
-          dateFilter.setDate(dateFilter.getDate() - 1);
-          break;
-        case 'week':
-          dateFilter.setDate(dateFilter.getDate() - 7);
-          break;
-        case 'month':
-          dateFilter.setMonth(dateFilter.getMonth() - 1);
-          break;
-      }
+    if (!PERIODS.includes(period as Period)) {
+      return NextResponse.json(
+        { error: `period must be one of: ${PERIODS.join(', ')}` },
+        { status: 400 }
+      );
     }
 
-    // Get vault stats from contract
-    let vaultTotalAssets = '0';
-    let vaultTotalShares = '0';
-    try {
-      const [totalAssets, totalShares] = await Promise.all([
-        publicClient.readContract({
-          address: CONTRACTS.VAULT,
-          abi: BetItVaultABI,
-          functionName: 'totalAssets',
-        }),
-        publicClient.readContract({
-          address: CONTRACTS.VAULT,
-          abi: BetItVaultABI,
-          functionName: 'totalShares',
-        }),
-      ]);
-
-      vaultTotalAssets = totalAssets.toString();
-      vaultTotalShares = totalShares.toString();
-    } catch (error) {
-      console.error('Error fetching vault stats from contract:', error);
-      // Continue with database stats
-    }
+    const stats = await statsCache.get(period, () => loadPlatformStats(period as Period));
 
-    // Get challenge statistics
-    let challengeQuery = supabase
-      .from('challenges')
-      .select('status, stake_amount, duration', { count: 'exact' });
-
-    if (dateFilter) {
-      challengeQuery = challengeQuery.gte('created_at', dateFilter.toISOString());
-    }
-
-    const { data: challenges, count: totalChallenges, error: challengeError } = await challengeQuery;
-
-    if (challengeError) {
-      console.error('Error fetching challenges:', challengeError);
-    }
-
-    const challengeStats = {
-      total: totalChallenges || 0,
-      active: challenges?.filter(c => c.status === 'active').length || 0,
-      completed: challenges?.filter(c => c.status === 'completed').length || 0,
-      failed: challenges?.filter(c => c.status === 'failed').length || 0,
-      forfeited: challenges?.filter(c => c.status === 'forfeited').length || 0,
-    };
-
-    // Calculate total stakes
-    const totalStakes = challenges?.reduce((sum, c) => {
-      return sum + BigInt(c.stake_amount);
-    }, BigInt(0)) || BigInt(0);
-
-    // Calculate success rate
-    const completedChallenges = challengeStats.completed;
-    const failedChallenges = challengeStats.failed + challengeStats.forfeited;
-    const successRate = (completedChallenges + failedChallenges) > 0
-      ? Math.round((completedChallenges / (completedChallenges + failedChallenges)) * 100)
-      : 0;
-
-    // Get LP statistics
-    const { data: lpPositions, count: lpCount } = await supabase
-      .from('lp_positions')
-      .select('shares, deposited_amount, withdrawn_amount', { count: 'exact' })
-      .gt('shares', '0');
-
-    const lpStats = {
-      count: lpCount || 0,
-      totalDeposited: lpPositions?.reduce((sum, lp) =>
-        sum + BigInt(lp.deposited_amount), BigInt(0)
-      )?.toString() || '0',
-      totalWithdrawn: lpPositions?.reduce((sum, lp) =>
-        sum + BigInt(lp.withdrawn_amount), BigInt(0)
-      )?.toString() || '0',
-    };
-
-    // Get unique users count
-    const { count: uniqueUsers } = await supabase
-      .from('users')
-      .select('*', { count: 'exact', head: true });
-
-    // Calculate weekly LP yield (if vault has assets)
-    let weeklyLPYield = 0;
-    if (BigInt(vaultTotalAssets) > 0) {
-      // Get revenue from last 7 days
-      const lastWeek = new Date();
-      lastWeek.setDate(lastWeek.getDate() - 7);
-
-      const { data: recentChallenges } = await supabase
-        .from('challenges')
-        .select('stake_amount, status, bonus_rate')
-        .gte('created_at', lastWeek.toISOString())
-        .in('status', ['failed', 'forfeited', 'completed']);
-
-      let weeklyRevenue = BigInt(0);
-
-      recentChallenges?.forEach(c => {
-        if (c.status === 'failed' || c.status === 'forfeited') {
-          // Full stake goes to vault
-          weeklyRevenue += BigInt(c.stake_amount);
-        } else if (c.status === 'completed') {
-          // 10% platform fee goes to vault
-          const bonus = (BigInt(c.stake_amount) * BigInt(c.bonus_rate)) / BigInt(10000);
-          const fee = (bonus * BigInt(1000)) / BigInt(10000);
-          weeklyRevenue += fee;
-        }
-      });
-
-      // Calculate yield percentage
-      if (BigInt(vaultTotalAssets) > 0) {
-        weeklyLPYield = Number((weeklyRevenue * BigInt(10000)) / BigInt(vaultTotalAssets)) / 100;
-      }
-    }
-
-    // Get recent activity (last 10 challenges)
-    const { data: recentActivity } = await supabase
-      .from('challenges')
-      .select(`
-        challenge_id,
-        user_address,
-        stake_amount,
-        duration,
-        status,
-        created_at,
-        users:user_address (
-          username,
-          avatar_url
-        )
-      `)
-      .order('created_at', { ascending: false })
-      .limit(10);
-
-    return NextResponse.json({
-      vault: {
-        totalAssets: vaultTotalAssets,
-        totalAssetsETH: formatEther(BigInt(vaultTotalAssets)),
-        totalShares: vaultTotalShares,
-        weeklyYield: weeklyLPYield.toFixed(2),
-      },
-      challenges: challengeStats,
-      lp: lpStats,
-      users: {
-        total: uniqueUsers || 0,
-      },
-      metrics: {
-        totalStakes: totalStakes.toString(),
-        totalStakesETH: formatEther(totalStakes),
-        successRate,
-        averageStake: totalChallenges && totalChallenges > 0
-          ? formatEther(totalStakes / BigInt(totalChallenges))
-          : '0',
+    return NextResponse.json(stats, {
+      headers: {
+        'Cache-Control': `public, s-maxage=${CACHE.STATS_TTL_SECONDS}, stale-while-revalidate=${CACHE.STATS_STALE_SECONDS}`,
       },
-      recentActivity: recentActivity || [],
-      period,
-      timestamp: new Date().toISOString(),
     });
   } catch (error) {
     console.error('Error in platform-stats GET:', error);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatEther } from 'viem';
+import { PRICING } from '@/lib/contracts/config';
+import { getOnChainBonusRate, isValidDuration, quoteBonusRates } from '@/lib/pricing/bonusCurve';
+import { getVaultLiability, maxStakeFor } from '@/lib/risk/liability';
+
+/**
+ * GET /api/quote
+ * Quote the bonus rate for a challenge duration
+ *
+ * Query params:
+ * - duration: number (days, 7-90; omit to quote every duration)
+ *
+ * `onChainBonusRate` is the rate createChallenge applies right now; the quote
+ * reaches it once the bonus-rate sync job has run (null if it can't be read).
+ * `maxStake` is the largest stake the vault can cover at that rate without
+ * passing its utilization cap (null, like `utilization`, if the vault can't be read).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const durationParam = searchParams.get('duration');
+
+    if (durationParam === null) {
+      const quotes = await quoteBonusRates();
+      return NextResponse.json({ quotes, timestamp: new Date().toISOString() });
+    }
+
+    const duration = Number(durationParam);
+    if (!isValidDuration(duration)) {
+      return NextResponse.json(
+        { error: `duration must be a whole number of days from ${PRICING.MIN_DURATION} to ${PRICING.MAX_DURATION}` },
+        { status: 400 }
+      );
+    }
+
+    const vault = await getVaultLiability().catch(error => {
+      console.error('Error reading vault liability:', error);
+      return null;
+    });
+
+    const [quotes, onChainBonusRate] = await Promise.all([
+      // Without the vault the quote is the history-only rate, not discounted for utilization
+      quoteBonusRates({ utilization: vault?.utilization ?? 0 }),
+      getOnChainBonusRate(duration).catch(error => {
+        console.error('Error reading on-chain bonus rate:', error);
+        return null;
+      }),
+    ]);
+
+    const quote = quotes.find(q => q.duration === duration)!;
+    const maxStake = vault ? maxStakeFor(vault.headroom, onChainBonusRate || quote.bonusRate) : null;
+
+    return NextResponse.json({
+      quote,
+      onChainBonusRate,
+      maxStake: maxStake?.toString() ?? null,
+      maxStakeETH: maxStake !== null ? formatEther(maxStake) : null,
+      utilization: vault?.utilization ?? null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in quote GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { runSquadJob } from '@/lib/squads/job';
+
+// Serverless invocations get cut off; the job stops checking squads before this
+export const maxDuration = 300;
+
+/**
+ * GET /api/squad-settlement
+ * Check active squads and settle decided ones on-chain (cron job endpoint)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts)
+ */
+export const GET = jobRoute(() => runSquadJob(), 'squad run');
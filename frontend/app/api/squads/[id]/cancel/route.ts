@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type Hash } from 'viem';
+import { recordSquadTransaction } from '@/lib/squads/squads';
+
+/**
+ * POST /api/squads/[id]/cancel
+ * Cancel an open squad after its cancelSquad transaction is mined
+ * (by the creator, or by anyone once the join window has passed)
+ *
+ * Body:
+ * - txHash: string (cancelSquad transaction hash)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const squadId = parseInt(params.id);
+    const { txHash } = await request.json();
+
+    if (!Number.isInteger(squadId) || squadId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid squad ID' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof txHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordSquadTransaction(squadId, txHash as Hash);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to record transaction' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      squad: result.squad,
+    });
+  } catch (error) {
+    console.error('Error in squad cancel POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
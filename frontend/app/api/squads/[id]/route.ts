@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSquadStandings } from '@/lib/squads/standings';
+
+/**
+ * GET /api/squads/[id]
+ * Get a squad with live member standings and the current payout split
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const squadId = parseInt(params.id);
+
+    if (!Number.isInteger(squadId) || squadId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid squad ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getSquadStandings(squadId);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Squad not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      squad: result.squad,
+      standings: result.standings,
+      payout: {
+        payoutPerSurvivor: result.payout.payoutPerSurvivor.toString(),
+        vaultAmount: result.payout.vaultAmount.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error in squad GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Hash } from 'viem';
+import { listSquads, recordSquadCreated, type Squad } from '@/lib/squads/squads';
+
+const SQUAD_STATUSES: Squad['status'][] = ['open', 'active', 'settled', 'cancelled'];
+
+/**
+ * GET /api/squads
+ * Get list of squads with optional filters
+ *
+ * Query params:
+ * - status: 'open' | 'active' | 'settled' | 'cancelled'
+ * - user: address (only squads this wallet is a member of)
+ * - limit: number (default 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const status = searchParams.get('status');
+    const user = searchParams.get('user');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+
+    if (status && !SQUAD_STATUSES.includes(status as Squad['status'])) {
+      return NextResponse.json(
+        { error: 'Invalid status' },
+        { status: 400 }
+      );
+    }
+
+    if (user !== null && !isAddress(user)) {
+      return NextResponse.json(
+        { error: 'Invalid user address' },
+        { status: 400 }
+      );
+    }
+
+    const squads = await listSquads({
+      status: (status as Squad['status']) || undefined,
+      member: user ?? undefined,
+      limit,
+    });
+
+    return NextResponse.json({ squads });
+  } catch (error) {
+    console.error('Error in squads GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/squads
+ * Record a squad after the creator's createSquad transaction is mined
+ *
+ * Body:
+ * - txHash: string (createSquad transaction hash)
+ * - name: string (optional, up to 40 characters)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { txHash, name } = await request.json();
+
+    if (typeof txHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length > 40)) {
+      return NextResponse.json(
+        { error: 'Name must be at most 40 characters' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordSquadCreated(txHash as Hash, name?.trim() || undefined);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to record squad' },
+        { status: result.error === 'Squad already recorded' ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      squad: result.squad,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error in squads POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { runFailurePipeline } from '@/lib/verification/failurePipeline';
+
+// Serverless invocations get cut off; the pipeline stops checking challenges before this
+export const maxDuration = 300;
+
+/**
+ * GET /api/streak-failures
+ * Fail active challenges that missed a day and settle them on-chain (cron job endpoint)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts)
+ */
+export const GET = jobRoute(() => runFailurePipeline(), 'streak failure run');
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChallengeCalendar } from '@/lib/verification/challengeCalendar';
+
+/**
+ * GET /api/user/[address]/challenges/[id]/days
+ * Get every day of a user's challenge with its status (verified, missed, pending,
+ * frozen, or void after an early end) and the activity recorded for it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string; id: string } }
+) {
+  try {
+    const address = params.address.toLowerCase();
+    const challengeId = parseInt(params.id);
+
+    // Validate address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: 'Invalid Ethereum address' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+      return NextResponse.json(
+        { error: 'Invalid challenge ID' },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await getChallengeCalendar(challengeId);
+
+    if (!calendar || calendar.userAddress !== address) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(calendar);
+  } catch (error) {
+    console.error('Error in challenge days GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
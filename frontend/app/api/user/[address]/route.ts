@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase/client';
 import { getUserVerificationStatus } from '@/lib/verification/streakVerifier';
+import { requireSession } from '@/lib/auth/session';
+import { isValidTimeZone } from '@/lib/verification/days';
 import { type Address } from 'viem';
 
 /**
@@ -79,12 +81,14 @@ export async function GET(
 /**
  * POST /api/user/[address]
  * Create or update user profile
+ * Requires a wallet session for `address` (see /api/auth/verify)
  *
  * Body:
  * - username: string (required for new users)
  * - avatar_url?: string
  * - farcaster_fid?: number
  * - farcaster_username?: string
+ * - timezone?: string (IANA name, e.g. "Europe/Berlin"; applies to challenges created afterwards)
  */
 export async function POST(
   request: NextRequest,
@@ -92,7 +96,6 @@ export async function POST(
 ) {
   try {
     const address = params.address.toLowerCase();
-    const body = await request.json();
 
     // Validate address
     if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
@@ -102,6 +105,11 @@ export async function POST(
       );
     }
 
+    const unauthorized = requireSession(request, address);
+    if (unauthorized) return unauthorized;
+
+    const body = await request.json();
+
     // Validate username
     if (body.username) {
       const username = body.username.trim();
@@ -121,6 +129,14 @@ export async function POST(
       }
     }
 
+    // Validate timezone
+    if (body.timezone !== undefined && !isValidTimeZone(body.timezone)) {
+      return NextResponse.json(
+        { error: 'Invalid timezone. Use an IANA name like "Europe/Berlin"' },
+        { status: 400 }
+      );
+    }
+
     // Check if user exists
     const { data: existingUser } = await supabase
       .from('users')
@@ -137,6 +153,7 @@ export async function POST(
           avatar_url: body.avatar_url,
           farcaster_fid: body.farcaster_fid,
           farcaster_username: body.farcaster_username,
+          timezone: body.timezone,
           updated_at: new Date().toISOString(),
         })
         .eq('address', address)
@@ -173,6 +190,7 @@ export async function POST(
           avatar_url: body.avatar_url,
           farcaster_fid: body.farcaster_fid,
           farcaster_username: body.farcaster_username,
+          timezone: body.timezone,
         })
         .select()
         .single();
@@ -211,6 +229,7 @@ export async function POST(
 /**
  * DELETE /api/user/[address]
  * Delete user profile (soft delete - keep address but clear data)
+ * Requires a wallet session for `address`
  */
 export async function DELETE(
   request: NextRequest,
@@ -219,6 +238,9 @@ export async function DELETE(
   try {
     const address = params.address.toLowerCase();
 
+    const unauthorized = requireSession(request, address);
+    if (unauthorized) return unauthorized;
+
     const { error } = await supabase
       .from('users')
       .delete()
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase/client';
+
+/**
+ * GET /api/user/by-username/[username]
+ * Get a public profile by username (case-insensitive)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { username: string } }
+) {
+  try {
+    const username = params.username;
+
+    if (!/^[a-zA-Z0-9_]{3,20}$/.test(username)) {
+      return NextResponse.json(
+        { error: 'Invalid username' },
+        { status: 400 }
+      );
+    }
+
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('address, username, avatar_url, farcaster_username, created_at')
+      // `_` is a LIKE wildcard; idx_users_username_lower keeps this to one row
+      .ilike('username', username.replace(/_/g, '\\_'))
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user by username:', error);
+      return NextResponse.json(
+        { error: 'Database error' },
+        { status: 500 }
+      );
+    }
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('Error in user by-username GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyDailyActivity, batchVerifyActiveChallenges } from '@/lib/verification/streakVerifier';
+import { verifyDailyActivity } from '@/lib/verification/streakVerifier';
+import { isDayKey } from '@/lib/verification/days';
+import { jobRoute } from '@/lib/jobs/jobRoute';
+import { runVerificationJob } from '@/lib/jobs/verificationJob';
 import { type Address } from 'viem';
 
+// Serverless invocations get cut off; the job stops picking up work before this
+export const maxDuration = 300;
+
 /**
  * POST /api/verify-streak
  * Verify a user's daily activity for their active challenge
@@ -9,7 +15,7 @@ import { type Address } from 'viem';
  * Body:
  * - userAddress: string (wallet address)
  * - challengeId: number
- * - date?: string (ISO date, optional, defaults to today)
+ * - date?: string (YYYY-MM-DD streak day in the challenge's timezone, or an ISO timestamp; defaults to today)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -32,8 +38,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Parse date if provided
-    const verificationDate = date ? new Date(date) : new Date();
+    // A bare YYYY-MM-DD names a streak day; anything else is an instant within the day
+    const verificationDate: Date | string = isDayKey(date) ? date : date ? new Date(date) : new Date();
+
+    if (verificationDate instanceof Date && isNaN(verificationDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid date' },
+        { status: 400 }
+      );
+    }
 
     // Verify the activity
     const result = await verifyDailyActivity(
@@ -54,7 +67,9 @@ export async function POST(request: NextRequest) {
       verified: result.verified,
       txCount: result.txCount,
       contractsUsed: result.contractsUsed,
-      date: verificationDate.toISOString(),
+      truncated: result.truncated ?? false,
+      failedRule: result.failedRule ?? null,
+      date: result.day,
     });
   } catch (error) {
     console.error('Error in verify-streak API:', error);
@@ -65,53 +80,28 @@ export async function POST(request: NextRequest) {
   }
 }
 
+const runBatch = jobRoute(() => runVerificationJob(), 'verification run');
+
 /**
  * GET /api/verify-streak?batch=true
- * Batch verify all active challenges (cron job endpoint)
+ * Batch verify all due active challenges (cron job endpoint)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or an HMAC-signed request
+ * (see lib/jobs/auth.ts). Only one run is active at a time; a run that hits its
+ * time budget returns status "running" and the next call resumes it.
  *
  * Query params:
  * - batch: boolean (must be true)
- * - key: string (optional secret key for security)
  */
 export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const batch = searchParams.get('batch');
-    const key = searchParams.get('key');
+  const { searchParams } = new URL(request.url);
 
-    // Only allow batch verification with correct key
-    if (batch !== 'true') {
-      return NextResponse.json(
-        { error: 'Invalid request. Use batch=true for batch verification' },
-        { status: 400 }
-      );
-    }
-
-    // Optional: Check secret key for security
-    // Uncomment if you want to protect this endpoint
-    // const CRON_SECRET = process.env.CRON_SECRET;
-    // if (CRON_SECRET && key !== CRON_SECRET) {
-    //   return NextResponse.json(
-    //     { error: 'Unauthorized' },
-    //     { status: 401 }
-    //   );
-    // }
-
-    console.log('Starting batch verification...');
-    const results = await batchVerifyActiveChallenges();
-
-    return NextResponse.json({
-      success: true,
-      verified: results.verified,
-      failed: results.failed,
-      errors: results.errors,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    console.error('Error in batch verification:', error);
+  if (searchParams.get('batch') !== 'true') {
     return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+      { error: 'Invalid request. Use batch=true for batch verification' },
+      { status: 400 }
     );
   }
+
+  return runBatch(request);
 }
@@ -0,0 +1,178 @@
+'use client';
+
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { formatEther } from 'viem';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { StreakCalendar } from '@/components/StreakCalendar';
+import {
+  STATUS_BADGES,
+  explorerTxUrl,
+  outcomeText,
+  type ChallengeSummary,
+} from '@/components/ChallengeHistory';
+
+interface ChallengeDetail extends ChallengeSummary {
+  current_streak: number;
+  users: {
+    username: string | null;
+    avatar_url: string | null;
+    farcaster_username: string | null;
+  } | null;
+}
+
+async function fetchChallenge(id: number) {
+  const res = await fetch(`/api/challenges/${id}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error('Failed to fetch challenge');
+  return res.json();
+}
+
+export default function ChallengePage({ params }: { params: { id: string } }) {
+  const challengeId = parseInt(params.id);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['challenge', challengeId],
+    queryFn: () => fetchChallenge(challengeId),
+    enabled: Number.isInteger(challengeId) && challengeId > 0,
+  });
+
+  const challenge: ChallengeDetail | undefined = data?.challenge;
+  const challenger = challenge?.users?.username
+    ? `@${challenge.users.username}`
+    : challenge ? `${challenge.user_address.slice(0, 6)}...${challenge.user_address.slice(-4)}` : '';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-primary-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Navigation */}
+      <nav className="container mx-auto px-4 py-6 flex justify-between items-center">
+        <Link href="/bet-it" className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          Bet It
+        </Link>
+        <ConnectButton />
+      </nav>
+
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-4xl mx-auto">
+          {isLoading ? (
+            <div className="card p-12 text-center text-gray-500">Loading challenge...</div>
+          ) : !challenge ? (
+            <div className="card p-12 text-center">
+              <div className="text-6xl mb-4">🔍</div>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">Challenge not found</p>
+              <Link href="/bet-it/history" className="btn btn-primary">
+                Challenge History
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Header */}
+              <div className="card p-8">
+                <div className="flex justify-between items-start mb-6">
+                  <div>
+                    <h1 className="text-3xl font-bold mb-2">
+                      {challenge.duration}-day challenge #{challenge.challenge_id}
+                    </h1>
+                    <div className="text-gray-600 dark:text-gray-400">
+                      by{' '}
+                      {challenge.users?.username ? (
+                        <Link href={`/u/${challenge.users.username}`} className="text-primary-600 hover:underline">
+                          {challenger}
+                        </Link>
+                      ) : (
+                        <span className="font-mono">{challenger}</span>
+                      )}
+                    </div>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-sm ${STATUS_BADGES[challenge.status].className}`}>
+                    {STATUS_BADGES[challenge.status].label}
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Stake</div>
+                    <div className="text-xl font-bold">{formatEther(BigInt(challenge.stake_amount))} ETH</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Bonus Rate</div>
+                    <div className="text-xl font-bold">{challenge.bonus_rate / 100}%</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Started</div>
+                    <div className="text-xl font-bold">{new Date(challenge.start_date).toLocaleDateString()}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Ends</div>
+                    <div className="text-xl font-bold">{new Date(challenge.end_date).toLocaleDateString()}</div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Outcome */}
+              <div className="card p-8">
+                <h2 className="text-xl font-bold mb-4">Outcome</h2>
+                <div className={`text-2xl font-bold mb-4 ${
+                  challenge.status === 'completed' ? 'text-success-600' :
+                  challenge.status === 'active' ? '' : 'text-danger-600'
+                }`}>
+                  {outcomeText(challenge)}
+                </div>
+                {challenge.status === 'active' && (
+                  <div className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    Current streak: {challenge.current_streak} / {challenge.duration} days
+                  </div>
+                )}
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Created</span>
+                    <a
+                      href={explorerTxUrl(challenge.tx_hash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-primary-600 hover:underline"
+                    >
+                      {challenge.tx_hash.slice(0, 10)}... ↗
+                    </a>
+                  </div>
+                  {challenge.outcome?.settleTxHash && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">
+                        {challenge.status === 'completed' ? 'Claimed' : 'Settled'}
+                        {challenge.outcome.settledAt && ` ${new Date(challenge.outcome.settledAt).toLocaleDateString()}`}
+                      </span>
+                      <a
+                        href={explorerTxUrl(challenge.outcome.settleTxHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-primary-600 hover:underline"
+                      >
+                        {challenge.outcome.settleTxHash.slice(0, 10)}... ↗
+                      </a>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Daily activity */}
+              <div className="card p-8">
+                <StreakCalendar address={challenge.user_address} challengeId={challenge.challenge_id} />
+              </div>
+
+              <div className="text-center">
+                <a
+                  href={`/api/og/challenge/${challenge.challenge_id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn btn-outline"
+                >
+                  Share Card
+                </a>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,24 +5,44 @@ import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagm
 import { parseEther, formatEther } from 'viem';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import Link from 'next/link';
-import { CONTRACTS, BONUS_RATES, MIN_STAKE, MAX_STAKE, type Duration } from '@/lib/contracts/config';
+import { useQuery } from '@tanstack/react-query';
+import { CONTRACTS, BONUS_RATES, MIN_STAKE, MAX_STAKE, PRICING } from '@/lib/contracts/config';
 import { BetItChallengesABI } from '@/lib/contracts/abis';
 
+async function fetchQuote(duration: number) {
+  const res = await fetch(`/api/quote?duration=${duration}`);
+  if (!res.ok) throw new Error('Failed to fetch quote');
+  return res.json();
+}
+
 export default function CreateChallengePage() {
   const { address, isConnected } = useAccount();
-  const [duration, setDuration] = useState<Duration>(30);
+  const [duration, setDuration] = useState(30);
   const [stakeAmount, setStakeAmount] = useState('0.1');
   const [error, setError] = useState('');
 
   const { writeContract, data: hash, isPending: isWriting } = useWriteContract();
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
 
-  const bonusRate = BONUS_RATES[duration];
-  const bonusMultiplier = bonusRate / 100;
+  const { data: quoteData, isLoading: isQuoting } = useQuery({
+    queryKey: ['quote', duration],
+    queryFn: () => fetchQuote(duration),
+    staleTime: 60000,
+  });
+
+  // createChallenge applies the on-chain rate; the quote is where it is heading
+  const quotedRate: number | undefined = quoteData?.quote?.bonusRate;
+  const onChainRate: number | null | undefined = quoteData?.onChainBonusRate;
+  const bonusRate = (onChainRate ?? quotedRate ?? 0) / 100;
+  const isDurationEnabled = onChainRate !== 0;
+
+  // Largest stake the vault can cover at this rate without passing its utilization cap
+  const vaultMaxStake: number | null = quoteData?.maxStakeETH ? parseFloat(quoteData.maxStakeETH) : null;
+  const maxStake = vaultMaxStake !== null ? Math.min(vaultMaxStake, MAX_STAKE) : MAX_STAKE;
 
   // Calculate payout
   const stake = parseFloat(stakeAmount) || 0;
-  const bonus = stake * (bonusMultiplier / 100);
+  const bonus = stake * (bonusRate / 100);
   const platformFee = bonus * 0.1; // 10% of bonus
   const payout = stake + bonus - platformFee;
   const profit = payout - stake;
@@ -41,11 +61,23 @@ export default function CreateChallengePage() {
       return;
     }
 
+    if (stake > maxStake) {
+      setError(maxStake < MIN_STAKE
+        ? 'The vault is at capacity right now. Try again later or pick a shorter duration.'
+        : `The vault can cover stakes up to ${maxStake.toFixed(4)} ETH for this duration right now`);
+      return;
+    }
+
     if (!address) {
       setError('Please connect your wallet');
       return;
     }
 
+    if (!isDurationEnabled) {
+      setError(`${duration}-day challenges are not available yet`);
+      return;
+    }
+
     try {
       writeContract({
         address: CONTRACTS.CHALLENGES,
@@ -111,22 +143,47 @@ export default function CreateChallengePage() {
             {/* Duration Selector */}
             <div className="mb-8">
               <label className="block text-sm font-semibold mb-3">Challenge Duration</label>
-              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
-                {([7, 14, 30, 60, 90] as Duration[]).map((d) => (
+              <div className="flex items-center gap-4 mb-4">
+                <input
+                  type="range"
+                  min={PRICING.MIN_DURATION}
+                  max={PRICING.MAX_DURATION}
+                  value={duration}
+                  onChange={(e) => setDuration(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <div className="text-right min-w-[7rem]">
+                  <div className="font-bold text-lg">{duration} Days</div>
+                  <div className="text-sm text-success-600 font-semibold">
+                    {isQuoting ? '...' : `+${bonusRate}%`}
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-5 gap-3">
+                {Object.keys(BONUS_RATES).map(Number).map((d) => (
                   <button
                     key={d}
                     onClick={() => setDuration(d)}
-                    className={`p-4 rounded-lg border-2 transition-all ${
+                    className={`p-2 rounded-lg border-2 transition-all ${
                       duration === d
                         ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20'
                         : 'border-gray-200 dark:border-gray-700 hover:border-primary-300'
                     }`}
                   >
-                    <div className="font-bold text-lg">{d} Days</div>
-                    <div className="text-sm text-success-600 font-semibold">+{BONUS_RATES[d]}%</div>
+                    <div className="font-semibold">{d} Days</div>
                   </button>
                 ))}
               </div>
+              {!isDurationEnabled && (
+                <p className="mt-3 text-sm text-danger-600">
+                  {duration}-day challenges are not available yet. Quoted at +{(quotedRate ?? 0) / 100}%.
+                </p>
+              )}
+              {isDurationEnabled && onChainRate && quotedRate && onChainRate !== quotedRate && (
+                <p className="mt-3 text-sm text-gray-500">
+                  The rate for this duration is being updated to +{quotedRate / 100}%.
+                </p>
+              )}
             </div>
 
             {/* Stake Amount Input */}
@@ -149,8 +206,24 @@ export default function CreateChallengePage() {
               </div>
               <div className="flex justify-between mt-2 text-sm text-gray-500">
                 <span>Min: {MIN_STAKE} ETH</span>
-                <span>Max: {MAX_STAKE} ETH</span>
+                <span>Max: {maxStake < MAX_STAKE ? maxStake.toFixed(4) : MAX_STAKE} ETH</span>
               </div>
+              {stake > maxStake && maxStake >= MIN_STAKE && (
+                <div className="flex justify-between items-center mt-3 text-sm text-danger-600">
+                  <span>The vault can only cover up to {maxStake.toFixed(4)} ETH for this duration right now.</span>
+                  <button
+                    onClick={() => setStakeAmount((Math.floor(maxStake * 10000) / 10000).toString())}
+                    className="btn btn-outline text-sm"
+                  >
+                    Use Max
+                  </button>
+                </div>
+              )}
+              {maxStake < MIN_STAKE && (
+                <p className="mt-3 text-sm text-danger-600">
+                  The vault is at capacity right now. Try again later or pick a shorter duration.
+                </p>
+              )}
             </div>
 
             {/* Bonus Calculator */}
@@ -227,7 +300,7 @@ export default function CreateChallengePage() {
             ) : (
               <button
                 onClick={handleCreateChallenge}
-                disabled={isWriting || isConfirming || stake < MIN_STAKE || stake > MAX_STAKE}
+                disabled={isWriting || isConfirming || isQuoting || !isDurationEnabled || stake < MIN_STAKE || stake > maxStake}
                 className="w-full btn btn-primary text-xl py-4 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isWriting && 'Preparing Transaction...'}
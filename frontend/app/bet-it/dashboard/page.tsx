@@ -3,11 +3,26 @@
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useQuery } from '@tanstack/react-query';
-import { formatEther } from 'viem';
+import { formatEther, isAddress, parseEther, type Address, type Hash } from 'viem';
 import Link from 'next/link';
-import { useState } from 'react';
-import { CONTRACTS, BONUS_RATES } from '@/lib/contracts/config';
-import { BetItChallengesABI } from '@/lib/contracts/abis';
+import { useCallback, useEffect, useState } from 'react';
+import { CONTRACTS, BONUS_RATES, H2H, MIN_STAKE, type Duration } from '@/lib/contracts/config';
+import { BetItChallengesABI, BetItHeadToHeadABI, BetItVaultABI } from '@/lib/contracts/abis';
+import { StreakCalendar } from '@/components/StreakCalendar';
+import type { H2HMatch } from '@/lib/h2h/matches';
+
+// One participant's side of GET /api/h2h/[id]
+interface MatchParticipant {
+  address: string;
+  daysVerified: number;
+  days: Array<{ date: string; verified: boolean | null; txCount: number }>;
+}
+
+interface MatchDetail {
+  match: H2HMatch;
+  challenger: MatchParticipant;
+  opponent: MatchParticipant;
+}
 
 async function fetchUserData(address: string) {
   const res = await fetch(`/api/user/${address}`);
@@ -15,6 +30,24 @@ async function fetchUserData(address: string) {
   return res.json();
 }
 
+async function fetchFreezes(challengeId: string) {
+  const res = await fetch(`/api/challenges/${challengeId}/freezes`);
+  if (!res.ok) throw new Error('Failed to fetch freezes');
+  return res.json();
+}
+
+async function fetchMatches(address: string): Promise<{ matches: H2HMatch[] }> {
+  const res = await fetch(`/api/h2h?user=${address}`);
+  if (!res.ok) throw new Error('Failed to fetch matches');
+  return res.json();
+}
+
+async function fetchMatch(matchId: number): Promise<MatchDetail> {
+  const res = await fetch(`/api/h2h/${matchId}`);
+  if (!res.ok) throw new Error('Failed to fetch match');
+  return res.json();
+}
+
 export default function DashboardPage() {
   const { address, isConnected } = useAccount();
   const [showForfeitConfirm, setShowForfeitConfirm] = useState(false);
@@ -36,12 +69,19 @@ export default function DashboardPage() {
   });
 
   // Get user stats from API
-  const { data: userData, isLoading: isLoadingUser } = useQuery({
+  const { data: userData, isLoading: isLoadingUser, refetch: refetchUserData } = useQuery({
     queryKey: ['userData', address],
     queryFn: () => fetchUserData(address!),
     enabled: !!address,
   });
 
+  // Get streak freeze balance and price
+  const { data: freezeData, refetch: refetchFreezes } = useQuery({
+    queryKey: ['freezes', activeChallengeId?.toString()],
+    queryFn: () => fetchFreezes(activeChallengeId!.toString()),
+    enabled: !!activeChallengeId && activeChallengeId > BigInt(0),
+  });
+
   // Claim reward mutation
   const { writeContract: claimReward, data: claimHash, isPending: isClaiming } = useWriteContract();
   const { isLoading: isConfirmingClaim, isSuccess: isClaimSuccess } = useWaitForTransactionReceipt({
@@ -52,6 +92,27 @@ export default function DashboardPage() {
   const { writeContract: forfeitChallenge, data: forfeitHash, isPending: isForfeitingTx } = useWriteContract();
   const { isLoading: isConfirmingForfeit } = useWaitForTransactionReceipt({ hash: forfeitHash });
 
+  // Buy freeze mutation (pays the vault, then the API records the payment)
+  const { writeContract: buyFreeze, data: freezeHash, isPending: isBuyingFreeze } = useWriteContract();
+  const { isLoading: isConfirmingFreeze, isSuccess: isFreezePaid } = useWaitForTransactionReceipt({ hash: freezeHash });
+  const [freezeError, setFreezeError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isFreezePaid || !freezeHash || !activeChallengeId) return;
+
+    fetch(`/api/challenges/${activeChallengeId}/freezes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHash: freezeHash }),
+    })
+      .then(async res => {
+        if (!res.ok) setFreezeError((await res.json()).error || 'Failed to record freeze');
+        refetchFreezes();
+        refetchUserData();
+      })
+      .catch(() => setFreezeError('Failed to record freeze'));
+  }, [isFreezePaid, freezeHash, activeChallengeId, refetchFreezes, refetchUserData]);
+
   const hasActiveChallenge = activeChallengeId && activeChallengeId > 0n;
   const verificationStatus = userData?.verificationStatus;
 
@@ -65,6 +126,17 @@ export default function DashboardPage() {
     });
   };
 
+  const handleBuyFreeze = () => {
+    if (!freezeData?.priceWei) return;
+    setFreezeError(null);
+    buyFreeze({
+      address: CONTRACTS.VAULT,
+      abi: BetItVaultABI,
+      functionName: 'addRevenue',
+      value: BigInt(freezeData.priceWei),
+    });
+  };
+
   const handleForfeit = () => {
     if (!activeChallengeId) return;
     forfeitChallenge({
@@ -172,6 +244,13 @@ export default function DashboardPage() {
                     </div>
                   </div>
 
+                  {/* Day-by-day Calendar */}
+                  {address && (
+                    <div className="mb-6">
+                      <StreakCalendar address={address} challengeId={Number(activeChallengeId)} />
+                    </div>
+                  )}
+
                   {/* Stats Grid */}
                   <div className="grid grid-cols-2 gap-4 mb-6">
                     <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
@@ -186,6 +265,46 @@ export default function DashboardPage() {
                     </div>
                   </div>
 
+                  {/* Freeze Alert */}
+                  {verificationStatus?.freezeAlert && (
+                    <div className="bg-primary-50 dark:bg-primary-900/20 border border-primary-200 p-4 rounded-lg mb-6">
+                      <div className="text-sm font-semibold mb-1">❄️ A streak freeze is about to be used</div>
+                      <div className="text-sm text-gray-700 dark:text-gray-300">
+                        No activity verified for {verificationStatus.freezeAlert.date}. Unless activity is verified,
+                        a freeze will cover it at {new Date(verificationStatus.freezeAlert.usesAt).toLocaleString()}.
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Streak Freezes */}
+                  {freezeData && (
+                    <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg mb-6 flex justify-between items-center">
+                      <div>
+                        <div className="text-sm text-gray-600 dark:text-gray-400 mb-1">Streak Freezes</div>
+                        <div className="text-2xl font-bold">
+                          {freezeData.remaining} <span className="text-base font-normal text-gray-600">left</span>
+                        </div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">
+                          {freezeData.used} used • {freezeData.earned} earned • {freezeData.purchased} bought
+                        </div>
+                        {freezeError && (
+                          <div className="text-xs text-danger-600 mt-1">{freezeError}</div>
+                        )}
+                      </div>
+                      {freezeData.canPurchase && (
+                        <button
+                          onClick={handleBuyFreeze}
+                          disabled={isBuyingFreeze || isConfirmingFreeze}
+                          className="btn btn-outline disabled:opacity-50"
+                        >
+                          {isBuyingFreeze || isConfirmingFreeze
+                            ? 'Buying...'
+                            : `Buy for ${formatEther(BigInt(freezeData.priceWei))} ETH`}
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   {/* Last Activity */}
                   {verificationStatus?.lastVerified && (
                     <div className="bg-primary-50 dark:bg-primary-900/20 p-4 rounded-lg mb-6">
@@ -254,6 +373,9 @@ export default function DashboardPage() {
                   </div>
                 </div>
               )}
+
+              {/* Head-to-Head */}
+              {address && <HeadToHeadCard address={address} />}
             </div>
 
             {/* Sidebar */}
@@ -284,6 +406,15 @@ export default function DashboardPage() {
                   <Link href="/bet-it/create" className="btn btn-primary w-full">
                     New Challenge
                   </Link>
+                  <Link href="/bet-it/squads" className="btn btn-outline w-full">
+                    Squads
+                  </Link>
+                  <Link href="/bet-it/history" className="btn btn-outline w-full">
+                    History
+                  </Link>
+                  <Link href="/bet-it/leaderboard" className="btn btn-outline w-full">
+                    Leaderboard
+                  </Link>
                   <Link href="/bet-it/lp-vault" className="btn btn-outline w-full">
                     LP Vault
                   </Link>
@@ -325,3 +456,292 @@ export default function DashboardPage() {
     </div>
   );
 }
+
+/**
+ * Head-to-head matches: invite form, pending invites and live matches
+ */
+function HeadToHeadCard({ address }: { address: string }) {
+  const [opponent, setOpponent] = useState('');
+  const [stakeAmount, setStakeAmount] = useState('0.1');
+  const [duration, setDuration] = useState<Duration>(7);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, refetch } = useQuery({
+    queryKey: ['h2h', address],
+    queryFn: () => fetchMatches(address),
+  });
+
+  // Winnings and refunds from settled matches, pulled with withdraw()
+  const { data: pendingWithdrawal, refetch: refetchWithdrawal } = useReadContract({
+    address: CONTRACTS.H2H,
+    abi: BetItHeadToHeadABI,
+    functionName: 'pendingWithdrawals',
+    args: [address as Address],
+  });
+
+  const { writeContract: withdraw, data: withdrawHash, isPending: isWithdrawing } = useWriteContract();
+  const { isLoading: isConfirmingWithdraw, isSuccess: isWithdrawMined } = useWaitForTransactionReceipt({ hash: withdrawHash });
+
+  useEffect(() => {
+    if (isWithdrawMined) refetchWithdrawal();
+  }, [isWithdrawMined, refetchWithdrawal]);
+
+  // Invite mutation (creates the match on-chain, then the API records it)
+  const { writeContract: createMatch, data: inviteHash, isPending: isInviting } = useWriteContract();
+  const { isLoading: isConfirmingInvite, isSuccess: isInviteMined } = useWaitForTransactionReceipt({ hash: inviteHash });
+
+  // Accept / cancel / refund mutation, recorded the same way
+  const [pendingAction, setPendingAction] = useState<{ matchId: number; action: 'accept' | 'cancel' | 'refund' } | null>(null);
+  const { writeContract: respond, data: respondHash, isPending: isResponding } = useWriteContract();
+  const { isLoading: isConfirmingResponse, isSuccess: isResponseMined } = useWaitForTransactionReceipt({ hash: respondHash });
+
+  const record = useCallback((path: string, txHash: Hash) => {
+    fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHash }),
+    })
+      .then(async res => {
+        if (!res.ok) setError((await res.json()).error || 'Failed to record transaction');
+        refetch();
+      })
+      .catch(() => setError('Failed to record transaction'));
+  }, [refetch]);
+
+  useEffect(() => {
+    if (!isInviteMined || !inviteHash) return;
+    record('/api/h2h', inviteHash);
+    setOpponent('');
+  }, [isInviteMined, inviteHash, record]);
+
+  useEffect(() => {
+    if (!isResponseMined || !respondHash || !pendingAction) return;
+    record(`/api/h2h/${pendingAction.matchId}/${pendingAction.action}`, respondHash);
+    setPendingAction(null);
+  }, [isResponseMined, respondHash, pendingAction, record]);
+
+  const handleInvite = () => {
+    setError(null);
+    if (!isAddress(opponent) || opponent.toLowerCase() === address.toLowerCase()) {
+      setError('Enter the wallet address of your opponent');
+      return;
+    }
+    if (!(parseFloat(stakeAmount) >= MIN_STAKE)) {
+      setError(`Minimum stake is ${MIN_STAKE} ETH`);
+      return;
+    }
+    createMatch({
+      address: CONTRACTS.H2H,
+      abi: BetItHeadToHeadABI,
+      functionName: 'createH2H',
+      args: [opponent, BigInt(duration)],
+      value: parseEther(stakeAmount),
+    });
+  };
+
+  const handleAccept = (matchId: number, stake: string) => {
+    setError(null);
+    setPendingAction({ matchId, action: 'accept' });
+    respond({
+      address: CONTRACTS.H2H,
+      abi: BetItHeadToHeadABI,
+      functionName: 'acceptH2H',
+      args: [BigInt(matchId)],
+      value: BigInt(stake),
+    });
+  };
+
+  const handleCancel = (matchId: number) => {
+    setError(null);
+    setPendingAction({ matchId, action: 'cancel' });
+    respond({
+      address: CONTRACTS.H2H,
+      abi: BetItHeadToHeadABI,
+      functionName: 'cancelH2H',
+      args: [BigInt(matchId)],
+    });
+  };
+
+  const handleRefund = (matchId: number) => {
+    setError(null);
+    setPendingAction({ matchId, action: 'refund' });
+    respond({
+      address: CONTRACTS.H2H,
+      abi: BetItHeadToHeadABI,
+      functionName: 'refundH2H',
+      args: [BigInt(matchId)],
+    });
+  };
+
+  const matches = data?.matches || [];
+  const isBusy = isResponding || isConfirmingResponse;
+  const me = address.toLowerCase();
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-xl font-bold mb-1">Head-to-Head</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Match stakes with a friend. Whoever keeps their streak takes the pot ({H2H.PLATFORM_FEE}% fee).
+        If you both make it, you both get your stake back.
+      </p>
+
+      {/* Invite Form */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <input
+          value={opponent}
+          onChange={(e) => setOpponent(e.target.value)}
+          placeholder="Opponent address (0x...)"
+          className="md:col-span-2 p-3 border-2 border-gray-200 dark:border-gray-700 rounded-lg focus:border-primary-600 focus:outline-none bg-white dark:bg-gray-800"
+        />
+        <input
+          type="number"
+          value={stakeAmount}
+          onChange={(e) => setStakeAmount(e.target.value)}
+          min={MIN_STAKE}
+          step="0.01"
+          className="p-3 border-2 border-gray-200 dark:border-gray-700 rounded-lg focus:border-primary-600 focus:outline-none bg-white dark:bg-gray-800"
+          placeholder="Stake (ETH)"
+        />
+        <select
+          value={duration}
+          onChange={(e) => setDuration(Number(e.target.value) as Duration)}
+          className="p-3 border-2 border-gray-200 dark:border-gray-700 rounded-lg focus:border-primary-600 focus:outline-none bg-white dark:bg-gray-800"
+        >
+          {(Object.keys(BONUS_RATES).map(Number) as Duration[]).map((d) => (
+            <option key={d} value={d}>{d} days</option>
+          ))}
+        </select>
+      </div>
+      <button
+        onClick={handleInvite}
+        disabled={isInviting || isConfirmingInvite}
+        className="btn btn-primary w-full mb-2 disabled:opacity-50"
+      >
+        {isInviting || isConfirmingInvite ? 'Sending Invite...' : 'Send Invite'}
+      </button>
+      {error && <div className="text-sm text-danger-600 mb-2">{error}</div>}
+
+      {/* Withdraw */}
+      {!!pendingWithdrawal && pendingWithdrawal > BigInt(0) && (
+        <div className="flex justify-between items-center bg-success-50 dark:bg-success-900/20 p-4 rounded-lg mt-4">
+          <div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">Ready to withdraw</div>
+            <div className="font-bold text-success-600">{formatEther(pendingWithdrawal)} ETH</div>
+          </div>
+          <button
+            onClick={() => withdraw({ address: CONTRACTS.H2H, abi: BetItHeadToHeadABI, functionName: 'withdraw' })}
+            disabled={isWithdrawing || isConfirmingWithdraw}
+            className="btn btn-success disabled:opacity-50"
+          >
+            {isWithdrawing || isConfirmingWithdraw ? 'Withdrawing...' : 'Withdraw'}
+          </button>
+        </div>
+      )}
+
+      {/* Matches */}
+      {matches.length > 0 && (
+        <div className="space-y-3 mt-6">
+          {matches.map((match) => {
+            const isChallenger = match.challenger_address === me;
+            const rival = isChallenger ? match.opponent_address : match.challenger_address;
+            // The owner never settled it, so either participant can take both stakes back
+            const isRefundable = match.status === 'active' && !!match.end_date &&
+              new Date(match.end_date).getTime() + H2H.SETTLEMENT_TIMEOUT_SECONDS * 1000 < Date.now();
+
+            return (
+              <div key={match.match_id} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <div className="font-semibold">
+                      vs {rival.slice(0, 6)}...{rival.slice(-4)}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {match.duration} days • {formatEther(BigInt(match.stake_amount))} ETH each
+                    </div>
+                  </div>
+                  <span className="px-3 py-1 rounded-full text-xs font-semibold bg-primary-100 text-primary-700">
+                    {match.status === 'settled'
+                      ? match.winner_address === me ? 'Won' : match.winner_address ? 'Lost' : 'Draw'
+                      : match.status}
+                  </span>
+                </div>
+
+                {match.status === 'active' && <H2HProgress matchId={match.match_id} me={me} />}
+
+                <div className="flex gap-3 mt-3">
+                  {match.status === 'pending' && !isChallenger && (
+                    <button
+                      onClick={() => handleAccept(match.match_id, match.stake_amount)}
+                      disabled={isBusy}
+                      className="btn btn-success flex-1 disabled:opacity-50"
+                    >
+                      Accept ({formatEther(BigInt(match.stake_amount))} ETH)
+                    </button>
+                  )}
+                  {(match.status === 'pending' || match.status === 'expired') && isChallenger && (
+                    <button
+                      onClick={() => handleCancel(match.match_id)}
+                      disabled={isBusy}
+                      className="btn btn-outline flex-1 disabled:opacity-50"
+                    >
+                      {match.status === 'expired' ? 'Reclaim Stake' : 'Cancel Invite'}
+                    </button>
+                  )}
+                  {isRefundable && (
+                    <button
+                      onClick={() => handleRefund(match.match_id)}
+                      disabled={isBusy}
+                      className="btn btn-outline flex-1 disabled:opacity-50"
+                    >
+                      Refund Stakes
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Both participants' progress in an active match
+ */
+function H2HProgress({ matchId, me }: { matchId: number; me: string }) {
+  const { data } = useQuery({
+    queryKey: ['h2hMatch', matchId],
+    queryFn: () => fetchMatch(matchId),
+  });
+
+  if (!data) return null;
+
+  const missedDate = (participant: MatchParticipant) =>
+    participant.address === data.match.challenger_address
+      ? data.match.challenger_missed_date
+      : data.match.opponent_missed_date;
+
+  return (
+    <div className="space-y-2">
+      {[data.challenger, data.opponent].map(participant => (
+        <div key={participant.address}>
+          <div className="flex justify-between text-xs mb-1">
+            <span>{participant.address === me ? 'You' : 'Opponent'}</span>
+            <span className={missedDate(participant) ? 'text-danger-600' : 'text-gray-600'}>
+              {missedDate(participant)
+                ? `Missed ${missedDate(participant)}`
+                : `${participant.daysVerified} / ${data.match.duration} days`}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${missedDate(participant) ? 'bg-danger-600' : 'bg-gradient-success'}`}
+              style={{ width: `${Math.round((participant.daysVerified / data.match.duration) * 100)}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
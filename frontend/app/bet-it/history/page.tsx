@@ -0,0 +1,52 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import Link from 'next/link';
+import { ChallengeHistory } from '@/components/ChallengeHistory';
+
+export default function HistoryPage() {
+  const { address, isConnected } = useAccount();
+
+  if (!isConnected || !address) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-primary-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-4">
+        <div className="card p-12 text-center max-w-md">
+          <h1 className="text-3xl font-bold mb-4">Connect Your Wallet</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8">
+            Connect your wallet to see your challenge history
+          </p>
+          <ConnectButton />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-primary-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Navigation */}
+      <nav className="container mx-auto px-4 py-6 flex justify-between items-center">
+        <Link href="/bet-it" className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          Bet It
+        </Link>
+        <ConnectButton />
+      </nav>
+
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-12">
+            <h1 className="text-5xl font-bold mb-4">
+              <span className="bg-gradient-primary bg-clip-text text-transparent">Challenge History</span>
+            </h1>
+            <p className="text-xl text-gray-600 dark:text-gray-400">
+              Every challenge you&apos;ve taken on and how it ended
+            </p>
+          </div>
+
+          <ChallengeHistory address={address} />
+        </div>
+      </div>
+    </div>
+  );
+}
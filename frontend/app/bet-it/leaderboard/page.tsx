@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { formatEther } from 'viem';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+
+const PAGE_SIZE = 25;
+
+type Board = 'streak' | 'completed' | 'profit' | 'success_rate';
+type Period = 'week' | 'month' | 'all';
+
+interface LeaderboardEntry {
+  rank: number;
+  address: string;
+  username: string | null;
+  avatarUrl: string | null;
+  currentStreak: number;
+  completed: number;
+  settled: number;
+  profit: string;
+  successRate: number | null;
+}
+
+const BOARDS: Array<{ id: Board; label: string; icon: string }> = [
+  { id: 'streak', label: 'Current Streak', icon: '🔥' },
+  { id: 'completed', label: 'Completed', icon: '🏆' },
+  { id: 'profit', label: 'Total Profit', icon: '💰' },
+  { id: 'success_rate', label: 'Success Rate', icon: '🎯' },
+];
+
+const PERIODS: Array<{ id: Period; label: string }> = [
+  { id: 'week', label: 'This Week' },
+  { id: 'month', label: 'This Month' },
+  { id: 'all', label: 'All Time' },
+];
+
+async function fetchLeaderboard(board: Board, period: Period, offset: number) {
+  const res = await fetch(`/api/leaderboard?board=${board}&period=${period}&limit=${PAGE_SIZE}&offset=${offset}`);
+  if (!res.ok) throw new Error('Failed to fetch leaderboard');
+  return res.json();
+}
+
+function boardValue(board: Board, entry: LeaderboardEntry): string {
+  switch (board) {
+    case 'streak':
+      return `${entry.currentStreak} ${entry.currentStreak === 1 ? 'day' : 'days'}`;
+    case 'completed':
+      return `${entry.completed}`;
+    case 'profit':
+      return `${Number(formatEther(BigInt(entry.profit))).toFixed(4)} ETH`;
+    case 'success_rate':
+      return `${entry.successRate ?? 0}%`;
+  }
+}
+
+function Avatar({ entry }: { entry: LeaderboardEntry }) {
+  if (entry.avatarUrl) {
+    return <img src={entry.avatarUrl} alt="" className="w-10 h-10 rounded-full object-cover" />;
+  }
+
+  return (
+    <div className="w-10 h-10 rounded-full bg-primary-100 dark:bg-primary-900/40 text-primary-700 flex items-center justify-center font-bold">
+      {(entry.username || entry.address.slice(2)).charAt(0).toUpperCase()}
+    </div>
+  );
+}
+
+export default function LeaderboardPage() {
+  const { address } = useAccount();
+  const [board, setBoard] = useState<Board>('streak');
+  const [period, setPeriod] = useState<Period>('all');
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['leaderboard', board, period, offset],
+    queryFn: () => fetchLeaderboard(board, period, offset),
+    refetchInterval: 60000,
+  });
+
+  const entries: LeaderboardEntry[] = data?.entries || [];
+
+  const selectBoard = (next: Board) => {
+    setBoard(next);
+    setOffset(0);
+  };
+
+  const selectPeriod = (next: Period) => {
+    setPeriod(next);
+    setOffset(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-primary-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Navigation */}
+      <nav className="container mx-auto px-4 py-6 flex justify-between items-center">
+        <Link href="/bet-it" className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          Bet It
+        </Link>
+        <ConnectButton />
+      </nav>
+
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-12">
+            <h1 className="text-5xl font-bold mb-4">
+              <span className="bg-gradient-primary bg-clip-text text-transparent">Leaderboard</span>
+            </h1>
+            <p className="text-xl text-gray-600 dark:text-gray-400">
+              The most consistent challengers on MegaETH
+            </p>
+          </div>
+
+          {/* Boards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            {BOARDS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectBoard(option.id)}
+                className={`card p-4 text-center font-semibold transition-all ${
+                  board === option.id
+                    ? 'border-2 border-primary-600 text-primary-600'
+                    : 'text-gray-600 dark:text-gray-400'
+                }`}
+              >
+                <div className="text-2xl mb-1">{option.icon}</div>
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Periods */}
+          <div className="flex gap-2 mb-6 border-b border-gray-200 dark:border-gray-700">
+            {PERIODS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectPeriod(option.id)}
+                className={`px-6 py-3 font-semibold transition-all ${
+                  period === option.id
+                    ? 'border-b-2 border-primary-600 text-primary-600'
+                    : 'text-gray-600 dark:text-gray-400'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Rankings */}
+          <div className="card p-6">
+            {isLoading ? (
+              <div className="text-center py-12 text-gray-500">Loading rankings...</div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-6xl mb-4">🏁</div>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Nobody has made this board yet. Be the first.
+                </p>
+                <Link href="/bet-it/create" className="btn btn-primary">
+                  Create Challenge
+                </Link>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {entries.map(entry => {
+                  const isYou = address?.toLowerCase() === entry.address;
+
+                  return (
+                    <div
+                      key={entry.address}
+                      className={`flex items-center gap-4 p-3 rounded-lg ${
+                        isYou ? 'bg-primary-50 dark:bg-primary-900/20 border-2 border-primary-200' : ''
+                      }`}
+                    >
+                      <div className="w-10 text-center text-lg font-bold text-gray-500">
+                        {entry.rank <= 3 ? ['🥇', '🥈', '🥉'][entry.rank - 1] : `#${entry.rank}`}
+                      </div>
+                      <Avatar entry={entry} />
+                      <div className="flex-1 min-w-0">
+                        <div className="font-semibold truncate">
+                          {entry.username || `${entry.address.slice(0, 6)}...${entry.address.slice(-4)}`}
+                          {isYou && <span className="ml-2 text-xs text-primary-600">(you)</span>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {entry.completed} completed · {entry.settled} settled
+                        </div>
+                      </div>
+                      <div className="text-lg font-bold text-primary-600">
+                        {boardValue(board, entry)}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {data?.pagination && data.pagination.total > PAGE_SIZE && (
+              <div className="flex justify-between items-center mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+                <button
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  disabled={offset === 0}
+                  className="btn btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-500">
+                  {offset + 1}-{offset + entries.length} of {data.pagination.total}
+                </span>
+                <button
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={!data.pagination.hasMore}
+                  className="btn btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+
+          {data?.refreshedAt && (
+            <p className="text-center text-xs text-gray-500 mt-4">
+              Updated {new Date(data.refreshedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
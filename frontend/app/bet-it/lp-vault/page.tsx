@@ -15,6 +15,17 @@ async function fetchPlatformStats() {
   return res.json();
 }
 
+async function fetchVaultYield(address?: string) {
+  const res = await fetch(`/api/lp-yield${address ? `?address=${address}` : ''}`);
+  if (!res.ok) throw new Error('Failed to fetch yield');
+  return res.json();
+}
+
+function formatApy(apy: number | null | undefined) {
+  if (apy === null || apy === undefined) return '—';
+  return `${apy >= 0 ? '+' : ''}${apy.toFixed(2)}%`;
+}
+
 export default function LPVaultPage() {
   const { address, isConnected } = useAccount();
   const [depositAmount, setDepositAmount] = useState('');
@@ -31,6 +42,13 @@ export default function LPVaultPage() {
     refetchInterval: 30000,
   });
 
+  // Realized APY, share price history and this LP's PnL
+  const { data: vaultYield } = useQuery({
+    queryKey: ['vaultYield', address],
+    queryFn: () => fetchVaultYield(address),
+    refetchInterval: 30000,
+  });
+
   // Get user's LP shares
   const { data: userShares } = useReadContract({
     address: CONTRACTS.VAULT,
@@ -90,9 +108,19 @@ export default function LPVaultPage() {
     ? (Number(userShares) / Number(totalShares)) * 100
     : 0;
 
-  const userProfit = userSharesValue && userShares
-    ? Number(formatEther(userSharesValue)) - Number(formatEther(userShares))
+  // Current value plus withdrawals, minus deposits
+  const userProfit = vaultYield?.position
+    ? Number(formatEther(BigInt(vaultYield.position.pnl)))
     : 0;
+  const userProfitPercent: number | null = vaultYield?.position?.pnlPercent ?? null;
+
+  const sharePriceHistory: Array<{ date: string; sharePrice: string }> = vaultYield?.history || [];
+  const historyPrices = sharePriceHistory.map(point => Number(formatEther(BigInt(point.sharePrice))));
+  const minPrice = Math.min(...historyPrices);
+  const priceRange = Math.max(...historyPrices) - minPrice || 1;
+  const sparkline = historyPrices
+    .map((price, i) => `${(i / Math.max(historyPrices.length - 1, 1)) * 100},${40 - ((price - minPrice) / priceRange) * 40}`)
+    .join(' ');
 
   if (!isConnected) {
     return (
@@ -139,9 +167,12 @@ export default function LPVaultPage() {
               </div>
             </div>
             <div className="card p-6 text-center">
-              <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">Weekly Yield</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">APY (7d)</div>
               <div className="text-3xl font-bold text-success-600">
-                {stats?.vault?.weeklyYield || '0'}%
+                {formatApy(vaultYield?.apy7d)}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                30d: {formatApy(vaultYield?.apy30d)} · All-time: {formatApy(vaultYield?.apyAllTime)}
               </div>
             </div>
             <div className="card p-6 text-center">
@@ -178,13 +209,26 @@ export default function LPVaultPage() {
                         {userSharesValue ? Number(formatEther(userSharesValue)).toFixed(4) : '0'} ETH
                       </div>
                       <div className="text-xs text-gray-500 mt-1">
-                        {userProfit >= 0 ? '+' : ''}{userProfit.toFixed(4)} ETH profit
+                        {userProfit >= 0 ? '+' : ''}{userProfit.toFixed(4)} ETH PnL
                       </div>
                     </div>
                   </div>
 
+                  {vaultYield?.position && (
+                    <div className="grid grid-cols-2 gap-4 mb-6 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">Deposited</span>
+                        <span className="font-semibold">{Number(formatEther(BigInt(vaultYield.position.deposited))).toFixed(4)} ETH</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">Withdrawn</span>
+                        <span className="font-semibold">{Number(formatEther(BigInt(vaultYield.position.withdrawn))).toFixed(4)} ETH</span>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Performance */}
-                  {userProfit !== 0 && (
+                  {userProfit !== 0 && userProfitPercent !== null && (
                     <div className={`p-4 rounded-lg ${
                       userProfit > 0
                         ? 'bg-success-50 dark:bg-success-900/20 border-2 border-success-200'
@@ -196,7 +240,7 @@ export default function LPVaultPage() {
                       <div className={`text-2xl font-bold ${
                         userProfit > 0 ? 'text-success-600' : 'text-danger-600'
                       }`}>
-                        {userProfit >= 0 ? '+' : ''}{((userProfit / Number(formatEther(userShares))) * 100).toFixed(2)}% ROI
+                        {userProfitPercent >= 0 ? '+' : ''}{userProfitPercent.toFixed(2)}% ROI
                       </div>
                     </div>
                   )}
@@ -336,6 +380,36 @@ export default function LPVaultPage() {
                 </div>
               </div>
 
+              {/* Share Price */}
+              <div className="card p-6">
+                <h3 className="font-bold mb-1">Share Price</h3>
+                <div className="text-2xl font-bold text-primary-600 mb-4">
+                  {vaultYield?.sharePrice ? Number(formatEther(BigInt(vaultYield.sharePrice))).toFixed(6) : '—'} ETH
+                </div>
+                {historyPrices.length > 1 ? (
+                  <>
+                    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16">
+                      <polyline
+                        points={sparkline}
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="1.5"
+                        vectorEffect="non-scaling-stroke"
+                        className="text-success-500"
+                      />
+                    </svg>
+                    <div className="flex justify-between text-xs text-gray-500 mt-2">
+                      <span>{sharePriceHistory[0].date}</span>
+                      <span>{sharePriceHistory[sharePriceHistory.length - 1].date}</span>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm text-gray-500">
+                    History builds up as daily snapshots are taken
+                  </div>
+                )}
+              </div>
+
               {/* Revenue Breakdown */}
               <div className="card p-6">
                 <h3 className="font-bold mb-4">Revenue Sources</h3>
@@ -0,0 +1,399 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { formatEther, parseEther, type Hash } from 'viem';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { CONTRACTS, BONUS_RATES, MIN_STAKE, SQUADS, type Duration } from '@/lib/contracts/config';
+import { BetItSquadsABI } from '@/lib/contracts/abis';
+import type { Squad } from '@/lib/squads/squads';
+import type { SquadStanding } from '@/lib/squads/standings';
+
+// GET /api/squads
+type SquadSummary = Squad & { member_count: number };
+
+// GET /api/squads/[id]
+interface SquadDetail {
+  squad: Squad;
+  standings: SquadStanding[];
+  payout: { payoutPerSurvivor: string; vaultAmount: string };
+}
+
+async function fetchSquads(params: string): Promise<{ squads: SquadSummary[] }> {
+  const res = await fetch(`/api/squads?${params}`);
+  if (!res.ok) throw new Error('Failed to fetch squads');
+  return res.json();
+}
+
+async function fetchSquad(squadId: number): Promise<SquadDetail> {
+  const res = await fetch(`/api/squads/${squadId}`);
+  if (!res.ok) throw new Error('Failed to fetch squad');
+  return res.json();
+}
+
+type SquadAction = 'join' | 'start' | 'cancel';
+
+export default function SquadsPage() {
+  const { address, isConnected } = useAccount();
+  const [name, setName] = useState('');
+  const [stakeAmount, setStakeAmount] = useState('0.1');
+  const [duration, setDuration] = useState<Duration>(7);
+  const [maxMembers, setMaxMembers] = useState(5);
+  const [error, setError] = useState<string | null>(null);
+
+  // Open squads anyone can join, and the connected wallet's squads
+  const { data: openData, refetch: refetchOpen } = useQuery({
+    queryKey: ['squads', 'open'],
+    queryFn: () => fetchSquads('status=open'),
+    refetchInterval: 30000,
+  });
+
+  const { data: myData, refetch: refetchMine } = useQuery({
+    queryKey: ['squads', address],
+    queryFn: () => fetchSquads(`user=${address}`),
+    enabled: !!address,
+  });
+
+  // Refunds and payouts credited to this wallet, pulled with withdraw()
+  const { data: pendingWithdrawal, refetch: refetchWithdrawal } = useReadContract({
+    address: CONTRACTS.SQUADS,
+    abi: BetItSquadsABI,
+    functionName: 'pendingWithdrawals',
+    args: address ? [address] : undefined,
+  });
+
+  const { writeContract: withdraw, data: withdrawHash, isPending: isWithdrawing } = useWriteContract();
+  const { isLoading: isConfirmingWithdraw, isSuccess: isWithdrawMined } = useWaitForTransactionReceipt({ hash: withdrawHash });
+
+  useEffect(() => {
+    if (isWithdrawMined) refetchWithdrawal();
+  }, [isWithdrawMined, refetchWithdrawal]);
+
+  // Create mutation (creates the squad on-chain, then the API records it)
+  const { writeContract: createSquad, data: createHash, isPending: isCreating } = useWriteContract();
+  const { isLoading: isConfirmingCreate, isSuccess: isCreateMined } = useWaitForTransactionReceipt({ hash: createHash });
+
+  // Join / start / cancel mutation, recorded the same way
+  const [pendingAction, setPendingAction] = useState<{ squadId: number; action: SquadAction } | null>(null);
+  const { writeContract: act, data: actionHash, isPending: isActing } = useWriteContract();
+  const { isLoading: isConfirmingAction, isSuccess: isActionMined } = useWaitForTransactionReceipt({ hash: actionHash });
+
+  const record = useCallback((path: string, body: Record<string, string>) => {
+    fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+      .then(async res => {
+        if (!res.ok) setError((await res.json()).error || 'Failed to record transaction');
+        refetchOpen();
+        refetchMine();
+      })
+      .catch(() => setError('Failed to record transaction'));
+  }, [refetchOpen, refetchMine]);
+
+  // The name typed when the squad was created, recorded once it is mined
+  const pendingName = useRef('');
+
+  useEffect(() => {
+    if (!isCreateMined || !createHash) return;
+    record('/api/squads', { txHash: createHash, name: pendingName.current });
+    setName('');
+  }, [isCreateMined, createHash, record]);
+
+  useEffect(() => {
+    if (!isActionMined || !actionHash || !pendingAction) return;
+    record(`/api/squads/${pendingAction.squadId}/${pendingAction.action}`, { txHash: actionHash as Hash });
+    setPendingAction(null);
+    refetchWithdrawal();
+  }, [isActionMined, actionHash, pendingAction, record, refetchWithdrawal]);
+
+  const handleCreate = () => {
+    setError(null);
+    if (!(parseFloat(stakeAmount) >= MIN_STAKE)) {
+      setError(`Minimum stake is ${MIN_STAKE} ETH`);
+      return;
+    }
+    pendingName.current = name.trim();
+    createSquad({
+      address: CONTRACTS.SQUADS,
+      abi: BetItSquadsABI,
+      functionName: 'createSquad',
+      args: [BigInt(duration), BigInt(maxMembers)],
+      value: parseEther(stakeAmount),
+    });
+  };
+
+  const handleAction = (squadId: number, action: SquadAction, stake?: string) => {
+    setError(null);
+    setPendingAction({ squadId, action });
+
+    if (action === 'join') {
+      act({
+        address: CONTRACTS.SQUADS,
+        abi: BetItSquadsABI,
+        functionName: 'joinSquad',
+        args: [BigInt(squadId)],
+        value: BigInt(stake!),
+      });
+      return;
+    }
+
+    act({
+      address: CONTRACTS.SQUADS,
+      abi: BetItSquadsABI,
+      functionName: action === 'start' ? 'startSquad' : 'cancelSquad',
+      args: [BigInt(squadId)],
+    });
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-primary-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-4">
+        <div className="card p-12 text-center max-w-md">
+          <h1 className="text-3xl font-bold mb-4">Connect Your Wallet</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8">
+            Connect your wallet to create or join a squad
+          </p>
+          <ConnectButton />
+        </div>
+      </div>
+    );
+  }
+
+  const me = address!.toLowerCase();
+  const mySquads = myData?.squads || [];
+  const mySquadIds = new Set(mySquads.map(squad => squad.squad_id));
+  const openSquads = (openData?.squads || []).filter(squad => !mySquadIds.has(squad.squad_id));
+  const isBusy = isActing || isConfirmingAction;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-primary-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Navigation */}
+      <nav className="container mx-auto px-4 py-6 flex justify-between items-center">
+        <Link href="/bet-it" className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          Bet It
+        </Link>
+        <ConnectButton />
+      </nav>
+
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-4xl font-bold mb-2">Squads</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Everyone stakes the same amount. Members who break their streak lose their stake to the
+              survivors ({100 - SQUADS.VAULT_SHARE}%) and the vault ({SQUADS.VAULT_SHARE}%).
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* My Squads */}
+              <div className="card p-6">
+                <h2 className="text-xl font-bold mb-4">Your Squads</h2>
+                {mySquads.length === 0 ? (
+                  <p className="text-gray-600 dark:text-gray-400">You are not in a squad yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {mySquads.map((squad) => (
+                      <div key={squad.squad_id} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                        <div className="flex justify-between items-start mb-3">
+                          <div>
+                            <div className="font-semibold">{squad.name || `Squad #${squad.squad_id}`}</div>
+                            <div className="text-sm text-gray-600 dark:text-gray-400">
+                              {squad.duration} days • {formatEther(BigInt(squad.stake_amount))} ETH each •{' '}
+                              {squad.member_count}/{squad.max_members} members
+                            </div>
+                          </div>
+                          <span className="px-3 py-1 rounded-full text-xs font-semibold bg-primary-100 text-primary-700">
+                            {squad.status}
+                          </span>
+                        </div>
+
+                        {squad.status !== 'open' && squad.status !== 'cancelled' && (
+                          <SquadStandings squadId={squad.squad_id} me={me} />
+                        )}
+
+                        {squad.status === 'open' && (squad.creator_address === me || isPastDeadline(squad)) && (
+                          <div className="flex gap-3">
+                            {squad.creator_address === me && (
+                              <button
+                                onClick={() => handleAction(squad.squad_id, 'start')}
+                                disabled={isBusy || squad.member_count < SQUADS.MIN_MEMBERS}
+                                className="btn btn-primary flex-1 disabled:opacity-50"
+                              >
+                                Start Now
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleAction(squad.squad_id, 'cancel')}
+                              disabled={isBusy}
+                              className="btn btn-outline flex-1 disabled:opacity-50"
+                            >
+                              Cancel & Refund
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Open Squads */}
+              <div className="card p-6">
+                <h2 className="text-xl font-bold mb-4">Open Squads</h2>
+                {openSquads.length === 0 ? (
+                  <p className="text-gray-600 dark:text-gray-400">No open squads right now. Start one!</p>
+                ) : (
+                  <div className="space-y-3">
+                    {openSquads.map((squad) => (
+                      <div key={squad.squad_id} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg flex justify-between items-center">
+                        <div>
+                          <div className="font-semibold">{squad.name || `Squad #${squad.squad_id}`}</div>
+                          <div className="text-sm text-gray-600 dark:text-gray-400">
+                            {squad.duration} days • {squad.member_count}/{squad.max_members} members • closes{' '}
+                            {new Date(squad.join_deadline).toLocaleDateString()}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleAction(squad.squad_id, 'join', squad.stake_amount)}
+                          disabled={isBusy}
+                          className="btn btn-success disabled:opacity-50"
+                        >
+                          Join ({formatEther(BigInt(squad.stake_amount))} ETH)
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              {/* Withdraw */}
+              {!!pendingWithdrawal && pendingWithdrawal > BigInt(0) && (
+                <div className="card p-6">
+                  <h2 className="text-xl font-bold mb-2">Ready to Withdraw</h2>
+                  <div className="text-2xl font-bold text-success-600 mb-4">{formatEther(pendingWithdrawal)} ETH</div>
+                  <button
+                    onClick={() => withdraw({ address: CONTRACTS.SQUADS, abi: BetItSquadsABI, functionName: 'withdraw' })}
+                    disabled={isWithdrawing || isConfirmingWithdraw}
+                    className="btn btn-success w-full disabled:opacity-50"
+                  >
+                    {isWithdrawing || isConfirmingWithdraw ? 'Withdrawing...' : 'Withdraw'}
+                  </button>
+                  <p className="text-xs text-gray-500 mt-2">Refunds and payouts from your squads</p>
+                </div>
+              )}
+
+              {/* Create Squad */}
+              <div className="card p-6 h-fit">
+                <h2 className="text-xl font-bold mb-4">Create a Squad</h2>
+                <div className="space-y-3">
+                  <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    maxLength={40}
+                    placeholder="Squad name (optional)"
+                    className="w-full p-3 border-2 border-gray-200 dark:border-gray-700 rounded-lg focus:border-primary-600 focus:outline-none bg-white dark:bg-gray-800"
+                  />
+                  <input
+                    type="number"
+                    value={stakeAmount}
+                    onChange={(e) => setStakeAmount(e.target.value)}
+                    min={MIN_STAKE}
+                    step="0.01"
+                    placeholder="Stake per member (ETH)"
+                    className="w-full p-3 border-2 border-gray-200 dark:border-gray-700 rounded-lg focus:border-primary-600 focus:outline-none bg-white dark:bg-gray-800"
+                  />
+                  <select
+                    value={duration}
+                    onChange={(e) => setDuration(Number(e.target.value) as Duration)}
+                    className="w-full p-3 border-2 border-gray-200 dark:border-gray-700 rounded-lg focus:border-primary-600 focus:outline-none bg-white dark:bg-gray-800"
+                  >
+                    {(Object.keys(BONUS_RATES).map(Number) as Duration[]).map((d) => (
+                      <option key={d} value={d}>{d} days</option>
+                    ))}
+                  </select>
+                  <label className="block text-sm text-gray-600 dark:text-gray-400">
+                    Squad size: {maxMembers}
+                    <input
+                      type="range"
+                      min={SQUADS.MIN_MEMBERS}
+                      max={SQUADS.MAX_MEMBERS}
+                      value={maxMembers}
+                      onChange={(e) => setMaxMembers(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </label>
+                  <button
+                    onClick={handleCreate}
+                    disabled={isCreating || isConfirmingCreate}
+                    className="btn btn-primary w-full disabled:opacity-50"
+                  >
+                    {isCreating || isConfirmingCreate ? 'Creating...' : 'Create Squad'}
+                  </button>
+                  {error && <div className="text-sm text-danger-600">{error}</div>}
+                  <p className="text-xs text-gray-500">
+                    The squad starts when it is full, or when you start it. It stays open for 7 days; after
+                    that any member can cancel it for a refund.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Whether an open squad's join window has passed, so any member can cancel it
+ */
+function isPastDeadline(squad: { join_deadline: string }): boolean {
+  return new Date(squad.join_deadline).getTime() < Date.now();
+}
+
+/**
+ * Live standings and projected payouts for a squad
+ */
+function SquadStandings({ squadId, me }: { squadId: number; me: string }) {
+  const { data } = useQuery({
+    queryKey: ['squad', squadId],
+    queryFn: () => fetchSquad(squadId),
+    refetchInterval: 60000,
+  });
+
+  if (!data) return null;
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-600 dark:text-gray-400">
+          <th className="py-1">#</th>
+          <th className="py-1">Member</th>
+          <th className="py-1">Days</th>
+          <th className="py-1 text-right">Payout</th>
+        </tr>
+      </thead>
+      <tbody>
+        {data.standings.map(standing => (
+          <tr key={standing.address} className={standing.status === 'failed' ? 'text-gray-400 line-through' : ''}>
+            <td className="py-1">{standing.rank}</td>
+            <td className="py-1 font-mono">
+              {standing.address === me ? 'You' : `${standing.address.slice(0, 6)}...${standing.address.slice(-4)}`}
+            </td>
+            <td className="py-1">{standing.verifiedDays}/{data.squad.duration}</td>
+            <td className="py-1 text-right">{formatEther(BigInt(standing.projectedPayout))} ETH</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
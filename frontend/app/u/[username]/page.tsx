@@ -0,0 +1,120 @@
+'use client';
+
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { ChallengeHistory } from '@/components/ChallengeHistory';
+
+interface PublicProfile {
+  address: string;
+  username: string;
+  avatar_url: string | null;
+  farcaster_username: string | null;
+  created_at: string;
+}
+
+async function fetchProfile(username: string) {
+  const res = await fetch(`/api/user/by-username/${encodeURIComponent(username)}`);
+  if (res.status === 404 || res.status === 400) return null;
+  if (!res.ok) throw new Error('Failed to fetch profile');
+  return res.json();
+}
+
+async function fetchUserStats(address: string) {
+  const res = await fetch(`/api/user/${address}`);
+  if (!res.ok) throw new Error('Failed to fetch user stats');
+  return res.json();
+}
+
+export default function ProfilePage({ params }: { params: { username: string } }) {
+  const { data: profileData, isLoading } = useQuery({
+    queryKey: ['profile', params.username],
+    queryFn: () => fetchProfile(params.username),
+  });
+
+  const profile: PublicProfile | undefined = profileData?.user;
+
+  const { data: userData } = useQuery({
+    queryKey: ['userStats', profile?.address],
+    queryFn: () => fetchUserStats(profile!.address),
+    enabled: !!profile,
+  });
+
+  const stats = userData?.stats;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-primary-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Navigation */}
+      <nav className="container mx-auto px-4 py-6 flex justify-between items-center">
+        <Link href="/bet-it" className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          Bet It
+        </Link>
+        <ConnectButton />
+      </nav>
+
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-4xl mx-auto">
+          {isLoading ? (
+            <div className="card p-12 text-center text-gray-500">Loading profile...</div>
+          ) : !profile ? (
+            <div className="card p-12 text-center">
+              <div className="text-6xl mb-4">🔍</div>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">No one goes by @{params.username}</p>
+              <Link href="/bet-it/leaderboard" className="btn btn-primary">
+                Leaderboard
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Header */}
+              <div className="card p-8">
+                <div className="flex items-center gap-6 mb-6">
+                  {profile.avatar_url ? (
+                    <img src={profile.avatar_url} alt="" className="w-20 h-20 rounded-full object-cover" />
+                  ) : (
+                    <div className="w-20 h-20 rounded-full bg-primary-100 dark:bg-primary-900/40 text-primary-700 flex items-center justify-center text-3xl font-bold">
+                      {profile.username.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div>
+                    <h1 className="text-3xl font-bold">@{profile.username}</h1>
+                    <div className="font-mono text-sm text-gray-600 dark:text-gray-400">
+                      {profile.address.slice(0, 6)}...{profile.address.slice(-4)}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      Joined {new Date(profile.created_at).toLocaleDateString()}
+                      {profile.farcaster_username && ` · Farcaster @${profile.farcaster_username}`}
+                    </div>
+                  </div>
+                </div>
+
+                {stats && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Challenges</div>
+                      <div className="text-2xl font-bold">{stats.totalChallenges}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Completed</div>
+                      <div className="text-2xl font-bold text-success-600">{stats.completed}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Failed / Forfeited</div>
+                      <div className="text-2xl font-bold text-danger-600">{stats.failed + stats.forfeited}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Success Rate</div>
+                      <div className="text-2xl font-bold">{stats.successRate}%</div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <ChallengeHistory address={profile.address} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
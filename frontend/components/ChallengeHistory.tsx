@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { formatEther } from 'viem';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { MEGAETH_CHAIN } from '@/lib/contracts/config';
+import type { ChallengeOutcome } from '@/lib/challenges/outcomes';
+
+const PAGE_SIZE = 20;
+
+export interface ChallengeSummary {
+  challenge_id: number;
+  user_address: string;
+  stake_amount: string;
+  duration: number;
+  bonus_rate: number;
+  status: 'active' | 'completed' | 'failed' | 'forfeited';
+  start_date: string;
+  end_date: string;
+  tx_hash: string;
+  claim_tx_hash: string | null;
+  outcome?: ChallengeOutcome;
+}
+
+export const STATUS_BADGES: Record<ChallengeSummary['status'], { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-primary-100 text-primary-700' },
+  completed: { label: 'Completed', className: 'bg-success-100 text-success-700' },
+  failed: { label: 'Failed', className: 'bg-danger-100 text-danger-700' },
+  forfeited: { label: 'Forfeited', className: 'bg-danger-100 text-danger-700' },
+};
+
+export function explorerTxUrl(hash: string): string {
+  return `${MEGAETH_CHAIN.blockExplorers.default.url}/tx/${hash}`;
+}
+
+/**
+ * What a challenge paid out or cost, for display
+ */
+export function outcomeText(challenge: ChallengeSummary): string {
+  const outcome = challenge.outcome;
+
+  switch (challenge.status) {
+    case 'active':
+      return 'In progress';
+    case 'completed':
+      return outcome?.payout
+        ? `Paid out ${formatEther(BigInt(outcome.payout))} ETH (+${formatEther(BigInt(outcome.profit || '0'))} ETH)`
+        : 'Completed, payout pending indexing';
+    default:
+      return `Lost ${formatEther(BigInt(outcome?.lostStake || challenge.stake_amount))} ETH stake`;
+  }
+}
+
+async function fetchChallenges(address: string, offset: number) {
+  const res = await fetch(`/api/challenges?user=${address}&limit=${PAGE_SIZE}&offset=${offset}`);
+  if (!res.ok) throw new Error('Failed to fetch challenges');
+  return res.json();
+}
+
+/**
+ * Every challenge a wallet has taken on, newest first
+ */
+export function ChallengeHistory({ address }: { address: string }) {
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['challengeHistory', address, offset],
+    queryFn: () => fetchChallenges(address, offset),
+  });
+
+  const challenges: ChallengeSummary[] = data?.challenges || [];
+
+  if (isLoading) {
+    return <div className="card p-12 text-center text-gray-500">Loading challenges...</div>;
+  }
+
+  if (challenges.length === 0) {
+    return (
+      <div className="card p-12 text-center">
+        <div className="text-6xl mb-4">📜</div>
+        <p className="text-gray-600 dark:text-gray-400">No challenges yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {challenges.map(challenge => (
+        <div key={challenge.challenge_id} className="card p-6">
+          <div className="flex justify-between items-start mb-3">
+            <Link href={`/bet-it/challenge/${challenge.challenge_id}`} className="hover:underline">
+              <div className="text-lg font-bold">
+                {challenge.duration}-day challenge #{challenge.challenge_id}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {new Date(challenge.start_date).toLocaleDateString()} – {new Date(challenge.end_date).toLocaleDateString()}
+              </div>
+            </Link>
+            <span className={`px-3 py-1 rounded-full text-sm ${STATUS_BADGES[challenge.status].className}`}>
+              {STATUS_BADGES[challenge.status].label}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 text-sm mb-3">
+            <div>
+              <div className="text-gray-600 dark:text-gray-400">Stake</div>
+              <div className="font-semibold">{formatEther(BigInt(challenge.stake_amount))} ETH</div>
+            </div>
+            <div>
+              <div className="text-gray-600 dark:text-gray-400">Bonus Rate</div>
+              <div className="font-semibold">{challenge.bonus_rate / 100}%</div>
+            </div>
+            <div>
+              <div className="text-gray-600 dark:text-gray-400">Outcome</div>
+              <div className={`font-semibold ${
+                challenge.status === 'completed' ? 'text-success-600' :
+                challenge.status === 'active' ? '' : 'text-danger-600'
+              }`}>
+                {outcomeText(challenge)}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-between text-sm">
+            {challenge.outcome?.settleTxHash ? (
+              <a
+                href={explorerTxUrl(challenge.outcome.settleTxHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary-600 hover:underline"
+              >
+                {challenge.status === 'completed' ? 'Claim tx' : 'Settlement tx'} ↗
+              </a>
+            ) : <span />}
+            <Link href={`/bet-it/challenge/${challenge.challenge_id}`} className="text-primary-600 hover:underline">
+              Daily activity →
+            </Link>
+          </div>
+        </div>
+      ))}
+
+      {/* Pagination */}
+      {data?.pagination && data.pagination.total > PAGE_SIZE && (
+        <div className="flex justify-between items-center">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="btn btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500">
+            {offset + 1}-{offset + challenges.length} of {data.pagination.total}
+          </span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={!data.pagination.hasMore}
+            className="btn btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+type DayStatus = 'verified' | 'missed' | 'pending' | 'frozen' | 'void';
+
+interface CalendarDay {
+  date: string;
+  status: DayStatus;
+  txCount: number;
+  contractsUsed: Array<{ address: string; via: 'direct' | 'internal' | 'token_transfer' }>;
+  failedRule: string | null;
+  verifiedAt: string | null;
+  closesAt: string;
+}
+
+const STATUS_STYLES: Record<DayStatus, { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'bg-success-500' },
+  frozen: { label: 'Frozen', className: 'bg-primary-300' },
+  missed: { label: 'Missed', className: 'bg-danger-500' },
+  pending: { label: 'Pending', className: 'bg-gray-200 dark:bg-gray-700' },
+  void: { label: 'Ended', className: 'bg-gray-100 dark:bg-gray-800 opacity-50' },
+};
+
+const RULE_LABELS: Record<string, string> = {
+  min_tx_count: 'not enough transactions',
+  min_spent_wei: 'not enough ETH spent',
+  required_categories: 'missing a required contract category',
+  min_distinct_contracts: 'not enough distinct contracts',
+};
+
+const VIA_LABELS = {
+  direct: 'direct call',
+  internal: 'internal call',
+  token_transfer: 'token transfer',
+};
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+async function fetchChallengeDays(address: string, challengeId: number) {
+  const res = await fetch(`/api/user/${address}/challenges/${challengeId}/days`);
+  if (!res.ok) throw new Error('Failed to fetch challenge days');
+  return res.json();
+}
+
+/**
+ * Heatmap of a challenge's days; verified days get darker with more transactions.
+ * Selecting a day shows what was recorded for it.
+ */
+export function StreakCalendar({ address, challengeId }: { address: string; challengeId: number }) {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['challengeDays', address, challengeId],
+    queryFn: () => fetchChallengeDays(address, challengeId),
+    refetchInterval: 60000,
+  });
+
+  const days: CalendarDay[] = data?.days || [];
+  if (days.length === 0) return null;
+
+  // Pad the first week so columns line up with weekdays (Monday first)
+  const leading = (new Date(`${days[0].date}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const selectedDay = days.find(day => day.date === selected);
+
+  const intensity = (day: CalendarDay) =>
+    day.status !== 'verified' ? '' : day.txCount >= 10 ? '' : day.txCount >= 3 ? 'opacity-80' : 'opacity-60';
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <div className="text-sm font-semibold">Streak Calendar</div>
+        <div className="flex gap-3 text-xs text-gray-600 dark:text-gray-400">
+          {(['verified', 'frozen', 'missed', 'pending'] as DayStatus[]).map(status => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${STATUS_STYLES[status].className}`} />
+              {STATUS_STYLES[status].label} ({data.summary[status]})
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 max-w-xs">
+        {WEEKDAYS.map((weekday, i) => (
+          <div key={i} className="text-center text-xs text-gray-500">{weekday}</div>
+        ))}
+        {Array.from({ length: leading }, (_, i) => (
+          <div key={`pad-${i}`} />
+        ))}
+        {days.map(day => (
+          <button
+            key={day.date}
+            onClick={() => setSelected(selected === day.date ? null : day.date)}
+            title={`${day.date}: ${STATUS_STYLES[day.status].label}`}
+            className={`aspect-square rounded-sm ${STATUS_STYLES[day.status].className} ${intensity(day)} ${
+              selected === day.date ? 'ring-2 ring-primary-600 ring-offset-1' : ''
+            }`}
+          />
+        ))}
+      </div>
+
+      {selectedDay && (
+        <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg mt-4 text-sm">
+          <div className="flex justify-between mb-2">
+            <span className="font-semibold">{selectedDay.date}</span>
+            <span>{STATUS_STYLES[selectedDay.status].label}</span>
+          </div>
+          <div className="text-gray-600 dark:text-gray-400 space-y-1">
+            <div>{selectedDay.txCount} transaction{selectedDay.txCount === 1 ? '' : 's'}</div>
+            {selectedDay.failedRule && (
+              <div className="text-danger-600">
+                Didn&apos;t count: {RULE_LABELS[selectedDay.failedRule] || selectedDay.failedRule}
+              </div>
+            )}
+            {selectedDay.status === 'frozen' && <div>Covered by a streak freeze</div>}
+            {selectedDay.status === 'pending' && (
+              <div>Activity counts until {new Date(selectedDay.closesAt).toLocaleString()}</div>
+            )}
+            {selectedDay.contractsUsed.length > 0 && (
+              <div>
+                <div className="mt-2 mb-1">Verified contracts used:</div>
+                <ul className="space-y-1">
+                  {selectedDay.contractsUsed.map(contract => (
+                    <li key={`${contract.address}-${contract.via}`} className="font-mono text-xs">
+                      {contract.address.slice(0, 6)}...{contract.address.slice(-4)}
+                      <span className="font-sans text-gray-500"> · {VIA_LABELS[contract.via]}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH } from '../contracts/config';
+
+/**
+ * Wallet Sessions
+ * Stateless, HMAC-signed session cookies issued after a successful wallet sign-in
+ */
+
+export const SESSION_COOKIE = 'betit_session';
+
+interface SessionPayload {
+  address: string; // lowercase
+  exp: number; // unix seconds
+}
+
+function getSecret(): string {
+  if (!AUTH.SESSION_SECRET) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return AUTH.SESSION_SECRET;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Create a signed session token for an address
+ * @param address Wallet address that signed in
+ */
+export function createSessionToken(address: string): { token: string; expiresAt: Date } {
+  const exp = Math.floor(Date.now() / 1000) + AUTH.SESSION_TTL_SECONDS;
+  const payload = Buffer.from(JSON.stringify({ address: address.toLowerCase(), exp })).toString('base64url');
+
+  return {
+    token: `${payload}.${sign(payload)}`,
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+/**
+ * Read the signed-in address from the request's session cookie
+ * @returns Lowercase address, or null if there is no valid session
+ */
+export function getSessionAddress(request: NextRequest): string | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as SessionPayload;
+    if (session.exp <= Math.floor(Date.now() / 1000)) return null;
+    return session.address;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Require the request to be signed in as `address`
+ * @returns An error response to return, or null when the session matches
+ */
+export function requireSession(request: NextRequest, address: string): NextResponse | null {
+  const sessionAddress = getSessionAddress(request);
+
+  if (!sessionAddress) {
+    return NextResponse.json(
+      { error: 'Sign in with your wallet first' },
+      { status: 401 }
+    );
+  }
+
+  if (sessionAddress !== address.toLowerCase()) {
+    return NextResponse.json(
+      { error: 'Signed in as a different address' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Remove the session cookie from a response
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,93 @@
+import { createPublicClient, http, type Address, type Hex } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { supabase } from '../supabase/client';
+import { AUTH, MEGAETH_CHAIN } from '../contracts/config';
+
+/**
+ * Sign-In-With-Ethereum
+ * Issues single-use nonces and verifies signed EIP-4361 messages
+ */
+
+// Create viem client for MegaETH (needed for ERC-1271 smart wallet signatures)
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+/**
+ * Create and store a fresh nonce for a sign-in message
+ */
+export async function issueNonce(): Promise<string> {
+  const nonce = generateSiweNonce();
+  const expiresAt = new Date(Date.now() + AUTH.NONCE_TTL_SECONDS * 1000);
+
+  const { error } = await supabase
+    .from('auth_nonces')
+    .insert({ nonce, expires_at: expiresAt.toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to store nonce: ${error.message}`);
+  }
+
+  return nonce;
+}
+
+/**
+ * Mark a nonce as used, failing if it is unknown, expired or already used
+ */
+async function consumeNonce(nonce: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('auth_nonces')
+    .update({ used_at: new Date().toISOString() })
+    .eq('nonce', nonce)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce');
+
+  return !error && !!data && data.length === 1;
+}
+
+/**
+ * Verify a signed sign-in message
+ * Works for EOAs and for smart wallets (ERC-1271 / ERC-6492)
+ * @param message Raw EIP-4361 message the wallet signed
+ * @param signature Wallet signature
+ * @param domain Host the message must be bound to
+ * @returns Signed-in address, or an error message
+ */
+export async function verifySignIn(
+  message: string,
+  signature: Hex,
+  domain: string
+): Promise<{ address?: Address; error?: string }> {
+  const fields = parseSiweMessage(message);
+
+  if (!fields.address || !fields.nonce) {
+    return { error: 'Malformed sign-in message' };
+  }
+
+  if (!validateSiweMessage({ message: fields, domain })) {
+    return { error: 'Sign-in message is expired or for another domain' };
+  }
+
+  if (fields.chainId !== undefined && fields.chainId !== MEGAETH_CHAIN.id) {
+    return { error: 'Sign-in message is for another chain' };
+  }
+
+  // Consume before checking the signature so a nonce can never be replayed
+  if (!(await consumeNonce(fields.nonce))) {
+    return { error: 'Nonce is invalid, expired or already used' };
+  }
+
+  const valid = await publicClient.verifyMessage({
+    address: fields.address,
+    message,
+    signature,
+  });
+
+  if (!valid) {
+    return { error: 'Invalid signature' };
+  }
+
+  return { address: fields.address };
+}
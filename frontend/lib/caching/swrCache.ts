@@ -0,0 +1,65 @@
+/**
+ * Stale-while-revalidate Cache
+ * In-memory, per server instance. Fresh entries are served as-is; stale ones
+ * are served while a single background refresh replaces them; anything older
+ * is loaded before responding.
+ */
+
+interface Entry<T> {
+  value: T;
+  loadedAt: number;
+}
+
+export interface SwrCache<T> {
+  /**
+   * Get a cached value, loading or refreshing it as needed
+   * @param key Cache key
+   * @param load Loads the value when missing or stale
+   */
+  get(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Create a cache
+ * @param options.ttlMs How long a value is fresh
+ * @param options.staleMs How long after that a stale value may still be served
+ */
+export function createSwrCache<T>(options: { ttlMs: number; staleMs: number }): SwrCache<T> {
+  const entries = new Map<string, Entry<T>>();
+
+  // Loads in flight, so concurrent misses and refreshes share one query
+  const pending = new Map<string, Promise<T>>();
+
+  function refresh(key: string, load: () => Promise<T>): Promise<T> {
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+
+    const loading = load()
+      .then(value => {
+        entries.set(key, { value, loadedAt: Date.now() });
+        return value;
+      })
+      .finally(() => pending.delete(key));
+
+    pending.set(key, loading);
+    return loading;
+  }
+
+  return {
+    async get(key, load) {
+      const entry = entries.get(key);
+      const age = entry ? Date.now() - entry.loadedAt : Infinity;
+
+      if (entry && age < options.ttlMs) {
+        return entry.value;
+      }
+
+      if (entry && age < options.ttlMs + options.staleMs) {
+        refresh(key, load).catch(error => console.error(`Error refreshing cache entry ${key}:`, error));
+        return entry.value;
+      }
+
+      return refresh(key, load);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { supabase } from '../supabase/client';
+
+/**
+ * Challenge Outcomes
+ * How settled challenges ended, from the indexed ChallengeCompleted /
+ * ChallengeForfeit events in transactions_log: the payout and profit of a
+ * claim, or the stake lost to the vault.
+ */
+
+export interface ChallengeOutcome {
+  // Stake plus bonus paid out on claim (wei)
+  payout: string | null;
+  // Bonus after the platform fee (wei)
+  profit: string | null;
+  // Stake that went to the vault (wei)
+  lostStake: string | null;
+  settledAt: string | null;
+  // Claim, forfeit or markChallengeFailed transaction
+  settleTxHash: string | null;
+}
+
+interface OutcomeChallenge {
+  challenge_id: number;
+  status: string;
+  stake_amount: string | number;
+  claim_tx_hash?: string | null;
+  failed_at?: string | null;
+}
+
+const EMPTY_OUTCOME: ChallengeOutcome = {
+  payout: null,
+  profit: null,
+  lostStake: null,
+  settledAt: null,
+  settleTxHash: null,
+};
+
+/**
+ * Outcomes for a set of challenges
+ * Active challenges, and settled ones whose event isn't indexed yet, get what the
+ * challenges row alone can tell.
+ * @param challenges Challenge rows
+ * @returns Outcome by challenge ID
+ */
+export async function getChallengeOutcomes(challenges: OutcomeChallenge[]): Promise<Map<number, ChallengeOutcome>> {
+  const settled = challenges.filter(c => c.status !== 'active');
+
+  const { data: events, error } = settled.length > 0
+    ? await supabase
+        .from('transactions_log')
+        .select('challenge_id, type, tx_hash, amount, metadata, timestamp')
+        .in('challenge_id', settled.map(c => c.challenge_id))
+        .in('type', ['challenge_claimed', 'challenge_failed', 'challenge_forfeited'])
+        .not('tx_hash', 'is', null)
+    : { data: [], error: null };
+
+  if (error) {
+    throw new Error(`Failed to load challenge outcomes: ${error.message}`);
+  }
+
+  const eventsById = new Map((events || []).map(event => [event.challenge_id as number, event]));
+
+  return new Map(challenges.map(challenge => {
+    if (challenge.status === 'active') {
+      return [challenge.challenge_id, EMPTY_OUTCOME];
+    }
+
+    const event = eventsById.get(challenge.challenge_id);
+
+    if (challenge.status === 'completed') {
+      return [challenge.challenge_id, {
+        payout: event?.amount != null ? BigInt(event.amount).toString() : null,
+        profit: event?.metadata?.profit ?? null,
+        lostStake: null,
+        settledAt: event?.timestamp ?? null,
+        settleTxHash: event?.tx_hash ?? challenge.claim_tx_hash ?? null,
+      }];
+    }
+
+    return [challenge.challenge_id, {
+      payout: null,
+      profit: null,
+      lostStake: BigInt(event?.amount ?? challenge.stake_amount).toString(),
+      settledAt: event?.timestamp ?? challenge.failed_at ?? null,
+      settleTxHash: event?.tx_hash ?? null,
+    }];
+  }));
+}
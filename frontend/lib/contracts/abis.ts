@@ -120,6 +120,13 @@ export const BetItChallengesABI = [
     "stateMutability": "nonpayable",
     "type": "function"
   },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "challengeId", "type": "uint256" }],
+    "name": "markChallengeFailed",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [{ "internalType": "uint256", "name": "challengeId", "type": "uint256" }],
     "name": "getChallenge",
@@ -171,6 +178,16 @@ export const BetItChallengesABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [
+      { "internalType": "uint256", "name": "duration", "type": "uint256" },
+      { "internalType": "uint256", "name": "bonusRate", "type": "uint256" }
+    ],
+    "name": "updateBonusRate",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -213,5 +230,335 @@ export const BetItChallengesABI = [
     ],
     "name": "ChallengeForfeit",
     "type": "event"
-  }
+  },
+  { "inputs": [], "name": "InvalidDuration", "type": "error" },
+  { "inputs": [], "name": "InvalidStakeAmount", "type": "error" },
+  { "inputs": [], "name": "UserHasActiveChallenge", "type": "error" },
+  { "inputs": [], "name": "ChallengeNotActive", "type": "error" },
+  { "inputs": [], "name": "ChallengeNotComplete", "type": "error" },
+  { "inputs": [], "name": "AlreadyClaimed", "type": "error" },
+  { "inputs": [], "name": "NotChallengeOwner", "type": "error" },
+  { "inputs": [], "name": "StreakBroken", "type": "error" },
+  { "inputs": [], "name": "TooEarlyToVerify", "type": "error" }
+] as const;
+
+export const BetItHeadToHeadABI = [
+  {
+    "inputs": [
+      { "internalType": "address", "name": "opponent", "type": "address" },
+      { "internalType": "uint256", "name": "duration", "type": "uint256" }
+    ],
+    "name": "createH2H",
+    "outputs": [{ "internalType": "uint256", "name": "matchId", "type": "uint256" }],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "matchId", "type": "uint256" }],
+    "name": "acceptH2H",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "matchId", "type": "uint256" }],
+    "name": "cancelH2H",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "matchId", "type": "uint256" }],
+    "name": "refundH2H",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "uint256", "name": "matchId", "type": "uint256" },
+      { "internalType": "bool", "name": "challengerSurvived", "type": "bool" },
+      { "internalType": "bool", "name": "opponentSurvived", "type": "bool" }
+    ],
+    "name": "settleH2H",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "withdraw",
+    "outputs": [{ "internalType": "uint256", "name": "amount", "type": "uint256" }],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "address", "name": "", "type": "address" }],
+    "name": "pendingWithdrawals",
+    "outputs": [{ "internalType": "uint256", "name": "", "type": "uint256" }],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "matchId", "type": "uint256" }],
+    "name": "getH2H",
+    "outputs": [
+      {
+        "components": [
+          { "internalType": "address", "name": "challenger", "type": "address" },
+          { "internalType": "address", "name": "opponent", "type": "address" },
+          { "internalType": "uint256", "name": "stake", "type": "uint256" },
+          { "internalType": "uint256", "name": "duration", "type": "uint256" },
+          { "internalType": "uint256", "name": "createdAt", "type": "uint256" },
+          { "internalType": "uint256", "name": "startDate", "type": "uint256" },
+          { "internalType": "enum BetItHeadToHead.Status", "name": "status", "type": "uint8" },
+          { "internalType": "address", "name": "winner", "type": "address" }
+        ],
+        "internalType": "struct BetItHeadToHead.HeadToHead",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "matchId", "type": "uint256" },
+      { "indexed": true, "internalType": "address", "name": "challenger", "type": "address" },
+      { "indexed": true, "internalType": "address", "name": "opponent", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "stake", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "duration", "type": "uint256" }
+    ],
+    "name": "H2HCreated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "matchId", "type": "uint256" },
+      { "indexed": true, "internalType": "address", "name": "opponent", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "startDate", "type": "uint256" }
+    ],
+    "name": "H2HAccepted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "matchId", "type": "uint256" },
+      { "indexed": true, "internalType": "address", "name": "challenger", "type": "address" }
+    ],
+    "name": "H2HCancelled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "matchId", "type": "uint256" },
+      { "indexed": true, "internalType": "address", "name": "caller", "type": "address" }
+    ],
+    "name": "H2HRefunded",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "matchId", "type": "uint256" },
+      { "indexed": true, "internalType": "address", "name": "winner", "type": "address" },
+      { "indexed": false, "internalType": "bool", "name": "challengerSurvived", "type": "bool" },
+      { "indexed": false, "internalType": "bool", "name": "opponentSurvived", "type": "bool" },
+      { "indexed": false, "internalType": "uint256", "name": "payout", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "fee", "type": "uint256" }
+    ],
+    "name": "H2HSettled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "address", "name": "account", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "Withdrawn",
+    "type": "event"
+  },
+  { "inputs": [], "name": "InvalidDuration", "type": "error" },
+  { "inputs": [], "name": "InvalidStakeAmount", "type": "error" },
+  { "inputs": [], "name": "InvalidOpponent", "type": "error" },
+  { "inputs": [], "name": "NotOpponent", "type": "error" },
+  { "inputs": [], "name": "NotChallenger", "type": "error" },
+  { "inputs": [], "name": "NotParticipant", "type": "error" },
+  { "inputs": [], "name": "StakeMismatch", "type": "error" },
+  { "inputs": [], "name": "InviteExpired", "type": "error" },
+  { "inputs": [], "name": "MatchNotPending", "type": "error" },
+  { "inputs": [], "name": "MatchNotActive", "type": "error" },
+  { "inputs": [], "name": "MatchNotComplete", "type": "error" },
+  { "inputs": [], "name": "SettlementPending", "type": "error" },
+  { "inputs": [], "name": "NothingToWithdraw", "type": "error" },
+  { "inputs": [], "name": "TransferFailed", "type": "error" }
+] as const;
+
+export const BetItSquadsABI = [
+  {
+    "inputs": [
+      { "internalType": "uint256", "name": "duration", "type": "uint256" },
+      { "internalType": "uint256", "name": "maxMembers", "type": "uint256" }
+    ],
+    "name": "createSquad",
+    "outputs": [{ "internalType": "uint256", "name": "squadId", "type": "uint256" }],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "squadId", "type": "uint256" }],
+    "name": "joinSquad",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "squadId", "type": "uint256" }],
+    "name": "startSquad",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "squadId", "type": "uint256" }],
+    "name": "cancelSquad",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "uint256", "name": "squadId", "type": "uint256" },
+      { "internalType": "address[]", "name": "survivors", "type": "address[]" }
+    ],
+    "name": "settleSquad",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "withdraw",
+    "outputs": [{ "internalType": "uint256", "name": "amount", "type": "uint256" }],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "address", "name": "", "type": "address" }],
+    "name": "pendingWithdrawals",
+    "outputs": [{ "internalType": "uint256", "name": "", "type": "uint256" }],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "squadId", "type": "uint256" }],
+    "name": "getSquad",
+    "outputs": [
+      {
+        "components": [
+          { "internalType": "address", "name": "creator", "type": "address" },
+          { "internalType": "uint256", "name": "stake", "type": "uint256" },
+          { "internalType": "uint256", "name": "duration", "type": "uint256" },
+          { "internalType": "uint256", "name": "maxMembers", "type": "uint256" },
+          { "internalType": "uint256", "name": "memberCount", "type": "uint256" },
+          { "internalType": "uint256", "name": "createdAt", "type": "uint256" },
+          { "internalType": "uint256", "name": "startDate", "type": "uint256" },
+          { "internalType": "enum BetItSquads.Status", "name": "status", "type": "uint8" }
+        ],
+        "internalType": "struct BetItSquads.Squad",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{ "internalType": "uint256", "name": "squadId", "type": "uint256" }],
+    "name": "getSquadMembers",
+    "outputs": [{ "internalType": "address[]", "name": "", "type": "address[]" }],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "squadId", "type": "uint256" },
+      { "indexed": true, "internalType": "address", "name": "creator", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "stake", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "duration", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "maxMembers", "type": "uint256" }
+    ],
+    "name": "SquadCreated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "squadId", "type": "uint256" },
+      { "indexed": true, "internalType": "address", "name": "member", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "memberCount", "type": "uint256" }
+    ],
+    "name": "SquadJoined",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "squadId", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "startDate", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "memberCount", "type": "uint256" }
+    ],
+    "name": "SquadStarted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "squadId", "type": "uint256" }
+    ],
+    "name": "SquadCancelled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "uint256", "name": "squadId", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "survivorCount", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "payoutPerSurvivor", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "vaultAmount", "type": "uint256" }
+    ],
+    "name": "SquadSettled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "address", "name": "account", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "Withdrawn",
+    "type": "event"
+  },
+  { "inputs": [], "name": "InvalidDuration", "type": "error" },
+  { "inputs": [], "name": "InvalidStakeAmount", "type": "error" },
+  { "inputs": [], "name": "InvalidSquadSize", "type": "error" },
+  { "inputs": [], "name": "SquadNotOpen", "type": "error" },
+  { "inputs": [], "name": "SquadNotActive", "type": "error" },
+  { "inputs": [], "name": "SquadFull", "type": "error" },
+  { "inputs": [], "name": "AlreadyMember", "type": "error" },
+  { "inputs": [], "name": "NotCreator", "type": "error" },
+  { "inputs": [], "name": "NotEnoughMembers", "type": "error" },
+  { "inputs": [], "name": "JoinWindowClosed", "type": "error" },
+  { "inputs": [], "name": "StakeMismatch", "type": "error" },
+  { "inputs": [], "name": "InvalidSurvivors", "type": "error" },
+  { "inputs": [], "name": "SquadNotComplete", "type": "error" },
+  { "inputs": [], "name": "NothingToWithdraw", "type": "error" },
+  { "inputs": [], "name": "TransferFailed", "type": "error" }
 ] as const;
@@ -2,6 +2,8 @@
 export const CONTRACTS = {
   VAULT: process.env.NEXT_PUBLIC_VAULT_ADDRESS as `0x${string}` || '0x',
   CHALLENGES: process.env.NEXT_PUBLIC_CHALLENGES_ADDRESS as `0x${string}` || '0x',
+  H2H: process.env.NEXT_PUBLIC_H2H_ADDRESS as `0x${string}` || '0x',
+  SQUADS: process.env.NEXT_PUBLIC_SQUADS_ADDRESS as `0x${string}` || '0x',
 } as const;
 
 // MegaETH Network Configuration
@@ -28,7 +30,7 @@ export const MEGAETH_CHAIN = {
   testnet: false,
 } as const;
 
-// Bonus rates for different durations
+// Bonus rates for the standard durations, the anchors of the default pricing curve
 export const BONUS_RATES = {
   7: 10,   // 7 days = 10%
   14: 15,  // 14 days = 15%
@@ -39,8 +41,116 @@ export const BONUS_RATES = {
 
 export type Duration = keyof typeof BONUS_RATES;
 
+// Bonus-rate pricing for custom challenge durations (see lib/pricing/bonusCurve.ts)
+export const PRICING = {
+  MIN_DURATION: 7,
+  MAX_DURATION: 90,
+  TARGET_EDGE: parseFloat(process.env.PRICING_TARGET_EDGE || '0.2'), // share of expected forfeits the vault keeps
+  PRIOR_WEIGHT: parseInt(process.env.PRICING_PRIOR_WEIGHT || '50'), // finished challenges before history outweighs BONUS_RATES
+  UTILIZATION_SENSITIVITY: parseFloat(process.env.PRICING_UTILIZATION_SENSITIVITY || '0.5'), // rate cut at full utilization
+  MIN_BONUS_RATE: 100, // 1% in basis points
+  MAX_BONUS_RATE: 10000, // 100% in basis points
+  RATE_STEP: 25, // quotes are rounded to 0.25%
+  SYNC_TOLERANCE: parseInt(process.env.PRICING_SYNC_TOLERANCE || '50'), // basis points of drift before the on-chain rate is updated
+} as const;
+
 // Platform constants
 export const PLATFORM_FEE = 10; // 10% of bonus
 export const MIN_STAKE = 0.01; // 0.01 ETH
 export const MAX_STAKE = 100; // 100 ETH
 export const GRACE_PERIOD = 24 * 60 * 60; // 24 hours in seconds
+
+// Vault risk limits (server only)
+export const RISK = {
+  MAX_UTILIZATION: parseFloat(process.env.RISK_MAX_UTILIZATION || '0.8'), // worst-case payouts may use up to 80% of vault assets
+} as const;
+
+// Head-to-head challenges (mirrors BetItHeadToHead constants)
+export const H2H = {
+  PLATFORM_FEE: 5, // 5% of the pot when exactly one participant keeps their streak
+  INVITE_TTL_SECONDS: 7 * 24 * 60 * 60, // invites can be accepted for 7 days
+  SETTLEMENT_TIMEOUT_SECONDS: 7 * 24 * 60 * 60, // a match left unsettled this long after it ends can be refunded
+} as const;
+
+// Squad challenges (mirrors BetItSquads constants)
+export const SQUADS = {
+  VAULT_SHARE: 10, // 10% of forfeited stakes, the rest is split between survivors
+  MIN_MEMBERS: 2,
+  MAX_MEMBERS: 20,
+  JOIN_WINDOW_SECONDS: 7 * 24 * 60 * 60, // squads are open for joining for 7 days
+} as const;
+
+// Streak verification
+export const VERIFICATION = {
+  TX_SOURCE: (process.env.VERIFICATION_TX_SOURCE || 'blockscout') as 'blockscout' | 'rpc' | 'fixture',
+  BLOCKSCOUT_API_URL: process.env.BLOCKSCOUT_API_URL || 'https://explorer.megaeth.systems/api',
+  BLOCKSCOUT_API_KEY: process.env.BLOCKSCOUT_API_KEY,
+  BLOCKSCOUT_PAGE_SIZE: parseInt(process.env.BLOCKSCOUT_PAGE_SIZE || '1000'),
+  MAX_TXS_PER_USER_DAY: parseInt(process.env.VERIFICATION_MAX_TXS_PER_USER_DAY || '10000'),
+  TRACE_RPC_URL: process.env.VERIFICATION_TRACE_RPC_URL,
+  FIXTURE_FILE: process.env.VERIFICATION_FIXTURE_FILE,
+} as const;
+
+// On-chain settlement (server only)
+export const SETTLEMENT = {
+  OPERATOR_PRIVATE_KEY: process.env.SETTLEMENT_PRIVATE_KEY as `0x${string}` | undefined,
+  RPC_URL: process.env.SETTLEMENT_RPC_URL,
+  DRY_RUN: process.env.SETTLEMENT_DRY_RUN === 'true',
+  MAX_RETRIES: parseInt(process.env.SETTLEMENT_MAX_RETRIES || '3'),
+  RECEIPT_TIMEOUT_MS: parseInt(process.env.SETTLEMENT_RECEIPT_TIMEOUT_MS || '60000'),
+  QUEUE_MAX_ATTEMPTS: parseInt(process.env.SETTLEMENT_QUEUE_MAX_ATTEMPTS || '5'),
+} as const;
+
+// Chain event indexer
+export const INDEXER = {
+  START_BLOCK: BigInt(process.env.INDEXER_START_BLOCK || '0'),
+  BLOCK_BATCH_SIZE: BigInt(process.env.INDEXER_BLOCK_BATCH_SIZE || '5000'),
+  CONFIRMATIONS: BigInt(process.env.INDEXER_CONFIRMATIONS || '10'),
+  REORG_DEPTH: BigInt(process.env.INDEXER_REORG_DEPTH || '100'),
+  MAX_BATCHES: parseInt(process.env.INDEXER_MAX_BATCHES || '100'), // upper bound for ?batches= on /api/indexer
+} as const;
+
+// Wallet sign-in (server only)
+export const AUTH = {
+  SESSION_SECRET: process.env.SESSION_SECRET,
+  APP_DOMAIN: process.env.APP_DOMAIN, // host the app is served from, e.g. betit.xyz; sign-in messages and frame actions must name it
+  SESSION_TTL_SECONDS: parseInt(process.env.SESSION_TTL_SECONDS || '3600'), // 1 hour
+  NONCE_TTL_SECONDS: 5 * 60, // 5 minutes
+} as const;
+
+// Scheduled jobs (server only)
+export const JOBS = {
+  SECRET: process.env.CRON_SECRET,
+  SIGNATURE_MAX_AGE_SECONDS: 5 * 60, // 5 minutes
+  LEASE_SECONDS: parseInt(process.env.JOB_LEASE_SECONDS || '360'),
+  TIME_BUDGET_MS: parseInt(process.env.JOB_TIME_BUDGET_MS || '240000'), // stop picking up work after 4 minutes
+  VERIFICATION_CONCURRENCY: parseInt(process.env.VERIFICATION_CONCURRENCY || '4'),
+} as const;
+
+// Response caching (server only)
+export const CACHE = {
+  STATS_TTL_SECONDS: parseInt(process.env.STATS_CACHE_TTL_SECONDS || '30'),
+  STATS_STALE_SECONDS: parseInt(process.env.STATS_CACHE_STALE_SECONDS || '300'), // served while refreshing in the background
+} as const;
+
+// Streak freezes (server only)
+export const STREAK_FREEZES = {
+  EARN_EVERY_DAYS: parseInt(process.env.FREEZE_EARN_EVERY_DAYS || '7'), // one freeze per 7 verified days
+  MAX_PER_CHALLENGE: parseInt(process.env.FREEZE_MAX_PER_CHALLENGE || '2'),
+  PRICE_WEI: BigInt(process.env.FREEZE_PRICE_WEI || '1000000000000000'), // 0.001 ETH, paid to the vault
+} as const;
+
+// Farcaster frames (server only)
+export const FARCASTER = {
+  NETWORK: parseInt(process.env.FARCASTER_NETWORK || '1'), // 1 = mainnet, 2 = testnet, 3 = devnet
+  MESSAGE_MAX_AGE_SECONDS: 10 * 60, // frame actions signed longer ago than this are rejected
+  KEY_REGISTRY_ADDRESS: '0x00000000Fc1237824fb747aBDE0FF18990E59b7e' as `0x${string}`, // on Optimism
+  KEY_REGISTRY_RPC_URL: process.env.FARCASTER_KEY_REGISTRY_RPC_URL || 'https://mainnet.optimism.io',
+  SIGNER_FIXTURE_FILE: process.env.FARCASTER_SIGNER_FIXTURE_FILE, // {fid: [signer keys]} used instead of the KeyRegistry
+} as const;
+
+// Leaderboard (server only)
+export const LEADERBOARD = {
+  MIN_SETTLED_FOR_SUCCESS_RATE: parseInt(process.env.LEADERBOARD_MIN_SETTLED || '3'), // fewer settled challenges don't rank by success rate
+  MAX_PAGE_SIZE: 100,
+} as const;
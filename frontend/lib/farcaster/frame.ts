@@ -0,0 +1,73 @@
+/**
+ * Farcaster Frames
+ * Frames are HTML pages whose fc:frame meta tags describe an image and up to
+ * four buttons. Post buttons send a signed FrameAction to their target, which
+ * answers with the next frame.
+ */
+
+export interface FrameButton {
+  label: string;
+  action: 'post' | 'link';
+  // Post URL for 'post' buttons, destination for 'link' buttons
+  target: string;
+}
+
+export interface Frame {
+  // Absolute URL of a 1.91:1 image
+  image: string;
+  buttons: FrameButton[];
+  // Where post buttons without their own target send actions
+  postUrl: string;
+  // Passed back to the server in the next action
+  state?: string;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Render a frame as an HTML document
+ * @param frame Frame to render
+ */
+export function frameHtml(frame: Frame): string {
+  if (frame.buttons.length > 4) {
+    throw new Error('Frames have at most 4 buttons');
+  }
+
+  const tags: Array<[string, string]> = [
+    ['fc:frame', 'vNext'],
+    ['fc:frame:image', frame.image],
+    ['fc:frame:image:aspect_ratio', '1.91:1'],
+    ['fc:frame:post_url', frame.postUrl],
+    ['og:title', 'Bet It'],
+    ['og:image', frame.image],
+  ];
+
+  if (frame.state) {
+    tags.push(['fc:frame:state', frame.state]);
+  }
+
+  frame.buttons.forEach((button, i) => {
+    tags.push([`fc:frame:button:${i + 1}`, button.label]);
+    tags.push([`fc:frame:button:${i + 1}:action`, button.action]);
+    tags.push([`fc:frame:button:${i + 1}:target`, button.target]);
+  });
+
+  const meta = tags
+    .map(([property, content]) => `<meta property="${property}" content="${escapeAttribute(content)}" />`)
+    .join('\n    ');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Bet It</title>
+    ${meta}
+  </head>
+  <body></body>
+</html>`;
+}
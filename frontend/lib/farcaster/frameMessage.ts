@@ -0,0 +1,315 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { blake3 } from '@noble/hashes/blake3';
+import { bytesToHex, hexToBytes, type Hex } from 'viem';
+import { FARCASTER } from '../contracts/config';
+import { getSignerKeyLookup, type SignerKeyLookup } from './signerKeys';
+
+/**
+ * Farcaster Frame Messages
+ * Decodes and validates the signed FrameAction message a client posts when a
+ * frame button is pressed (trustedData.messageBytes). validateFrameMessage checks
+ * the BLAKE3 hash of the message data and the signer's Ed25519 signature over it;
+ * verifyFrameMessage also checks the signer key is registered to the fid, so
+ * the action proves which fid sent it.
+ */
+
+// Farcaster timestamps are seconds since 2021-01-01T00:00:00Z
+const FARCASTER_EPOCH_MS = 1609459200000;
+
+const MESSAGE_TYPE_FRAME_ACTION = 13;
+const HASH_SCHEME_BLAKE3 = 1;
+const SIGNATURE_SCHEME_ED25519 = 1;
+
+export interface FrameAction {
+  fid: number;
+  buttonIndex: number;
+  // URL of the frame the button was on
+  url: string;
+  timestamp: Date;
+  network: number;
+  castId?: { fid: number; hash: Hex };
+  inputText?: string;
+  state?: string;
+  // Signer's Ed25519 public key
+  signer: Hex;
+}
+
+/**
+ * Thrown when frame message bytes can't be decoded or don't validate
+ */
+export class FrameMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameMessageError';
+  }
+}
+
+// =====================================================
+// PROTOBUF
+// =====================================================
+// Just enough of the wire format for Message / MessageData / FrameActionBody
+
+type FieldValue = number | Uint8Array;
+
+function readFields(bytes: Uint8Array): Map<number, FieldValue[]> {
+  const fields = new Map<number, FieldValue[]>();
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= bytes.length) throw new FrameMessageError('Truncated varint');
+      const byte = bytes[offset++];
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 128;
+      if (multiplier > Number.MAX_SAFE_INTEGER) throw new FrameMessageError('Varint too large');
+    }
+  };
+
+  while (offset < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    let value: FieldValue;
+
+    switch (wireType) {
+      case 0:
+        value = readVarint();
+        break;
+      case 1:
+      case 5: {
+        // Fixed 64 / 32 bit: not used by these messages, skipped
+        offset += wireType === 1 ? 8 : 4;
+        continue;
+      }
+      case 2: {
+        const length = readVarint();
+        if (offset + length > bytes.length) throw new FrameMessageError('Truncated field');
+        value = bytes.subarray(offset, offset + length);
+        offset += length;
+        break;
+      }
+      default:
+        throw new FrameMessageError(`Unsupported wire type ${wireType}`);
+    }
+
+    fields.set(field, [...(fields.get(field) || []), value]);
+  }
+
+  if (offset > bytes.length) throw new FrameMessageError('Truncated message');
+
+  return fields;
+}
+
+function getNumber(fields: Map<number, FieldValue[]>, field: number): number | undefined {
+  const value = fields.get(field)?.[0];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number') throw new FrameMessageError(`Field ${field} is not a number`);
+  return value;
+}
+
+function getBytes(fields: Map<number, FieldValue[]>, field: number): Uint8Array | undefined {
+  const value = fields.get(field)?.[0];
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') throw new FrameMessageError(`Field ${field} is not bytes`);
+  return value;
+}
+
+function writeVarint(value: number): number[] {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push((value % 128) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  out.push(value);
+  return out;
+}
+
+function writeFields(fields: Array<[number, FieldValue | undefined]>): Uint8Array {
+  const out: number[] = [];
+  for (const [field, value] of fields) {
+    if (value === undefined) continue;
+    if (typeof value === 'number') {
+      out.push(...writeVarint(field * 8), ...writeVarint(value));
+    } else {
+      out.push(...writeVarint(field * 8 + 2), ...writeVarint(value.length), ...value);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+// =====================================================
+// VALIDATION
+// =====================================================
+
+const decoder = new TextDecoder('utf-8', { fatal: true });
+const encoder = new TextEncoder();
+
+function decodeText(bytes: Uint8Array | undefined): string | undefined {
+  if (!bytes) return undefined;
+  try {
+    return decoder.decode(bytes);
+  } catch {
+    throw new FrameMessageError('Invalid UTF-8');
+  }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Decode and validate a frame action
+ * @param messageBytes Hex-encoded Message protobuf (trustedData.messageBytes)
+ * @param now Current time, for the freshness check
+ * @returns The validated action
+ * @throws FrameMessageError if the message is malformed, tampered with, stale or for another network
+ */
+export function validateFrameMessage(messageBytes: string, now: Date = new Date()): FrameAction {
+  if (!/^(0x)?([0-9a-fA-F]{2})+$/.test(messageBytes)) {
+    throw new FrameMessageError('messageBytes must be hex');
+  }
+
+  const message = readFields(hexToBytes(messageBytes.startsWith('0x') ? messageBytes as Hex : `0x${messageBytes}`));
+
+  // data_bytes (7) is set when the data was serialized by a newer protobuf schema
+  const dataBytes = getBytes(message, 7) ?? getBytes(message, 1);
+  const hash = getBytes(message, 2);
+  const signature = getBytes(message, 4);
+  const signer = getBytes(message, 6);
+
+  if (!dataBytes || !hash || !signature || !signer) {
+    throw new FrameMessageError('Message is missing data, hash, signature or signer');
+  }
+
+  if (getNumber(message, 3) !== HASH_SCHEME_BLAKE3 || getNumber(message, 5) !== SIGNATURE_SCHEME_ED25519) {
+    throw new FrameMessageError('Unsupported hash or signature scheme');
+  }
+
+  if (!equalBytes(blake3(dataBytes, { dkLen: 20 }), hash)) {
+    throw new FrameMessageError('Hash does not match message data');
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = signer.length === 32 && ed25519.verify(signature, hash, signer);
+  } catch {
+    signatureValid = false;
+  }
+
+  if (!signatureValid) {
+    throw new FrameMessageError('Invalid signature');
+  }
+
+  const data = readFields(dataBytes);
+  const fid = getNumber(data, 2);
+  const timestamp = getNumber(data, 3);
+  const network = getNumber(data, 4);
+  const body = getBytes(data, 16);
+
+  if (getNumber(data, 1) !== MESSAGE_TYPE_FRAME_ACTION || !body) {
+    throw new FrameMessageError('Not a frame action');
+  }
+
+  if (!fid || timestamp === undefined) {
+    throw new FrameMessageError('Message is missing fid or timestamp');
+  }
+
+  if (network !== FARCASTER.NETWORK) {
+    throw new FrameMessageError(`Message is for network ${network}, expected ${FARCASTER.NETWORK}`);
+  }
+
+  const sentAt = new Date(FARCASTER_EPOCH_MS + timestamp * 1000);
+  const ageSeconds = (now.getTime() - sentAt.getTime()) / 1000;
+
+  // Small allowance for clock skew the other way
+  if (ageSeconds > FARCASTER.MESSAGE_MAX_AGE_SECONDS || ageSeconds < -60) {
+    throw new FrameMessageError('Message is expired');
+  }
+
+  const action = readFields(body);
+  const castIdBytes = getBytes(action, 3);
+  const castId = castIdBytes ? readFields(castIdBytes) : undefined;
+  const castHash = castId ? getBytes(castId, 2) : undefined;
+
+  return {
+    fid,
+    buttonIndex: getNumber(action, 2) ?? 0,
+    url: decodeText(getBytes(action, 1)) ?? '',
+    timestamp: sentAt,
+    network,
+    castId: castId && castHash
+      ? { fid: getNumber(castId, 1) ?? 0, hash: bytesToHex(castHash) }
+      : undefined,
+    inputText: decodeText(getBytes(action, 4)),
+    state: decodeText(getBytes(action, 5)),
+    signer: bytesToHex(signer),
+  };
+}
+
+/**
+ * Validate a frame action and check its signer key belongs to its fid
+ * @param messageBytes Hex-encoded Message protobuf (trustedData.messageBytes)
+ * @param options.now Current time, for the freshness check
+ * @param options.isSignerRegistered Key lookup (defaults to the configured one)
+ * @returns The verified action
+ * @throws FrameMessageError if the message doesn't validate or the key isn't the fid's
+ */
+export async function verifyFrameMessage(
+  messageBytes: string,
+  {
+    now = new Date(),
+    isSignerRegistered = getSignerKeyLookup(),
+  }: { now?: Date; isSignerRegistered?: SignerKeyLookup } = {}
+): Promise<FrameAction> {
+  const action = validateFrameMessage(messageBytes, now);
+
+  if (!(await isSignerRegistered(action.fid, action.signer))) {
+    throw new FrameMessageError(`Signer key is not registered to fid ${action.fid}`);
+  }
+
+  return action;
+}
+
+/**
+ * Build a signed frame action, for fixtures and offline testing
+ * @param action What the message says
+ * @param privateKey Ed25519 signer private key (32 bytes hex)
+ * @returns Hex-encoded Message protobuf, as posted in trustedData.messageBytes
+ */
+export function signFrameAction(
+  action: Pick<FrameAction, 'fid' | 'buttonIndex' | 'url'> &
+    Partial<Pick<FrameAction, 'timestamp' | 'network' | 'castId' | 'inputText' | 'state'>>,
+  privateKey: Hex
+): Hex {
+  const body = writeFields([
+    [1, encoder.encode(action.url)],
+    [2, action.buttonIndex],
+    [3, action.castId ? writeFields([[1, action.castId.fid], [2, hexToBytes(action.castId.hash)]]) : undefined],
+    [4, action.inputText !== undefined ? encoder.encode(action.inputText) : undefined],
+    [5, action.state !== undefined ? encoder.encode(action.state) : undefined],
+  ]);
+
+  const timestamp = action.timestamp ?? new Date();
+  const data = writeFields([
+    [1, MESSAGE_TYPE_FRAME_ACTION],
+    [2, action.fid],
+    [3, Math.floor((timestamp.getTime() - FARCASTER_EPOCH_MS) / 1000)],
+    [4, action.network ?? FARCASTER.NETWORK],
+    [16, body],
+  ]);
+
+  const key = hexToBytes(privateKey);
+  const hash = blake3(data, { dkLen: 20 });
+
+  return bytesToHex(writeFields([
+    [1, data],
+    [2, hash],
+    [3, HASH_SCHEME_BLAKE3],
+    [4, ed25519.sign(hash, key)],
+    [5, SIGNATURE_SCHEME_ED25519],
+    [6, ed25519.getPublicKey(key)],
+  ]));
+}
@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { createPublicClient, http, parseAbi, type Hex } from 'viem';
+import { optimism } from 'viem/chains';
+import { FARCASTER } from '../contracts/config';
+
+/**
+ * Farcaster Signer Keys
+ * Checks that the key a frame action was signed with is registered to the fid
+ * that claims to have sent it. Keys are added and removed through the KeyRegistry
+ * contract on Optimism; fixtures can list them in a JSON file instead.
+ */
+
+/**
+ * Whether `signer` is an active key of `fid`
+ */
+export type SignerKeyLookup = (fid: number, signer: Hex) => Promise<boolean>;
+
+const KEY_REGISTRY_ABI = parseAbi([
+  'function keyDataOf(uint256 fid, bytes key) view returns ((uint8 state, uint32 keyType))',
+]);
+
+// KeyRegistry.KeyState
+const KEY_STATE_ADDED = 1;
+
+/**
+ * Look keys up in the KeyRegistry
+ * @param rpcUrl Optimism RPC endpoint
+ */
+export function createKeyRegistryLookup(rpcUrl: string): SignerKeyLookup {
+  const client = createPublicClient({
+    chain: optimism,
+    transport: http(rpcUrl),
+  });
+
+  return async (fid, signer) => {
+    const keyData = await client.readContract({
+      address: FARCASTER.KEY_REGISTRY_ADDRESS,
+      abi: KEY_REGISTRY_ABI,
+      functionName: 'keyDataOf',
+      args: [BigInt(fid), signer],
+    });
+
+    return keyData.state === KEY_STATE_ADDED;
+  };
+}
+
+/**
+ * Look keys up in a fixed fid → keys map, for fixtures and offline testing
+ * @param keys Signer public keys per fid
+ */
+export function createFixtureKeyLookup(keys: Record<number, Hex[]>): SignerKeyLookup {
+  return async (fid, signer) =>
+    (keys[fid] || []).some(key => key.toLowerCase() === signer.toLowerCase());
+}
+
+let configuredLookup: SignerKeyLookup | null = null;
+
+/**
+ * Get the lookup selected by FARCASTER.SIGNER_FIXTURE_FILE, the KeyRegistry otherwise
+ */
+export function getSignerKeyLookup(): SignerKeyLookup {
+  if (configuredLookup) {
+    return configuredLookup;
+  }
+
+  configuredLookup = FARCASTER.SIGNER_FIXTURE_FILE
+    ? createFixtureKeyLookup(JSON.parse(readFileSync(FARCASTER.SIGNER_FIXTURE_FILE, 'utf8')))
+    : createKeyRegistryLookup(FARCASTER.KEY_REGISTRY_RPC_URL);
+
+  return configuredLookup;
+}
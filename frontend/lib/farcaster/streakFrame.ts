@@ -0,0 +1,161 @@
+import { type Address } from 'viem';
+import { supabase } from '../supabase/client';
+import { getUserVerificationStatus, verifyDailyActivity } from '../verification/streakVerifier';
+import { type Frame, type FrameButton } from './frame';
+
+/**
+ * Streak Frame
+ * A frame that shows the caster's live streak and lets them verify today's
+ * activity. Casters are matched to wallets by users.farcaster_fid.
+ */
+
+export const FRAME_MESSAGES = {
+  welcome: {
+    title: 'Check your streak',
+    body: 'See your MegaETH streak and verify today without leaving Farcaster',
+  },
+  unlinked: {
+    title: 'No Bet It account linked',
+    body: 'Add your Farcaster account to your Bet It profile to check your streak here',
+  },
+  no_challenge: {
+    title: 'No active challenge',
+    body: 'Stake on your streak to start earning a bonus',
+  },
+  no_activity: {
+    title: 'Nothing to verify yet',
+    body: 'No qualifying MegaETH activity today. Make a transaction and try again',
+  },
+  error: {
+    title: 'Something went wrong',
+    body: 'Verification is unavailable right now. Try again in a moment',
+  },
+} as const;
+
+export type FrameMessageKind = keyof typeof FRAME_MESSAGES;
+
+export type StreakFrameAction = 'status' | 'verify';
+
+export const STREAK_FRAME_ACTIONS: StreakFrameAction[] = ['status', 'verify'];
+
+/**
+ * The action a signed frame URL asks for
+ * Post buttons target /api/frame?action=..., and clients sign that URL into the
+ * message, so the action can't be swapped for another after signing.
+ * @param url Signed URL from the frame action
+ * @param domain Host the frame is served from
+ * @returns The action, or null if the URL isn't one of our frame endpoints
+ */
+export function frameActionFromUrl(url: string, domain: string): StreakFrameAction | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (parsed.host !== domain || parsed.pathname !== '/api/frame') {
+    return null;
+  }
+
+  const action = parsed.searchParams.get('action') || 'status';
+  return STREAK_FRAME_ACTIONS.includes(action as StreakFrameAction) ? action as StreakFrameAction : null;
+}
+
+function buttons(origin: string) {
+  const post = (label: string, action: StreakFrameAction): FrameButton => ({
+    label,
+    action: 'post',
+    target: `${origin}/api/frame?action=${action}`,
+  });
+  const link = (label: string, path: string): FrameButton => ({
+    label,
+    action: 'link',
+    target: `${origin}${path}`,
+  });
+
+  return {
+    check: post('Check my streak', 'status'),
+    refresh: post('Refresh', 'status'),
+    verify: post('Verify now', 'verify'),
+    create: link('Create a challenge', '/bet-it/create'),
+    profile: link('Open Bet It', '/bet-it/dashboard'),
+  };
+}
+
+function messageFrame(origin: string, kind: FrameMessageKind, frameButtons: FrameButton[]): Frame {
+  return {
+    image: `${origin}/api/frame/image/${kind}`,
+    buttons: frameButtons,
+    postUrl: `${origin}/api/frame?action=status`,
+  };
+}
+
+/**
+ * The frame shown before anyone has pressed a button
+ * @param origin Public origin of the app
+ */
+export function welcomeFrame(origin: string): Frame {
+  const { check, create } = buttons(origin);
+  return messageFrame(origin, 'welcome', [check, create]);
+}
+
+/**
+ * Wallet linked to a Farcaster account
+ * @param fid Farcaster ID
+ * @returns Most recently updated linked address, or null
+ */
+async function getAddressForFid(fid: number): Promise<Address | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('address')
+    .eq('farcaster_fid', fid)
+    .order('updated_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up fid ${fid}: ${error.message}`);
+  }
+
+  return (data?.[0]?.address as Address | undefined) ?? null;
+}
+
+/**
+ * Answer a frame action
+ * @param origin Public origin of the app
+ * @param fid Farcaster ID from the validated message
+ * @param action Which button was pressed
+ */
+export async function streakFrame(origin: string, fid: number, action: StreakFrameAction): Promise<Frame> {
+  const { refresh, verify, create, profile } = buttons(origin);
+
+  const address = await getAddressForFid(fid);
+  if (!address) {
+    return messageFrame(origin, 'unlinked', [profile, refresh]);
+  }
+
+  const status = await getUserVerificationStatus(address);
+  if (!status.hasActiveChallenge || !status.challengeId) {
+    return messageFrame(origin, 'no_challenge', [create, refresh]);
+  }
+
+  if (action === 'verify') {
+    const result = await verifyDailyActivity(address, status.challengeId);
+
+    if (!result.success) {
+      console.error('Error verifying from frame:', result.error);
+      return messageFrame(origin, 'error', [refresh, create]);
+    }
+
+    if (!result.verified) {
+      return messageFrame(origin, 'no_activity', [verify, refresh, create]);
+    }
+  }
+
+  return {
+    // Clients cache images by URL; the card itself is cached by its content
+    image: `${origin}/api/og/user/${address}?t=${Date.now()}`,
+    buttons: [verify, refresh, create],
+    postUrl: `${origin}/api/frame?action=status`,
+  };
+}
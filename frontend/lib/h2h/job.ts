@@ -0,0 +1,188 @@
+import { supabase } from '../supabase/client';
+import { SETTLEMENT } from '../contracts/config';
+import { runLeasedJob, type LeasedJob } from '../jobs/leasedJob';
+import { settleHeadToHead, type H2HSettlementOutcome } from '../settlement/settlement';
+import { expireInvites, type H2HMatch } from './matches';
+import { checkMatchStatus } from './verifier';
+
+/**
+ * Head-to-Head Job
+ * Expires stale invites, checks both participants of every active match,
+ * records results once they are final and settles them on-chain.
+ * A decided match keeps retrying settlement on later runs until it confirms.
+ */
+
+export const H2H_JOB = 'h2h_settlement';
+
+export interface H2HDecision {
+  matchId: number;
+  challengerSurvived: boolean;
+  opponentSurvived: boolean;
+  winner: string | null;
+}
+
+export interface H2HJobResult {
+  status: 'completed' | 'locked' | 'failed';
+  expired: number;
+  checked: number;
+  decided: H2HDecision[];
+  errors: string[];
+  settlement: H2HSettlementOutcome[];
+}
+
+/**
+ * Store missed days and, once final, the match result
+ * @returns The decision, if one was recorded
+ */
+async function recordMatchStatus(
+  match: H2HMatch,
+  status: Awaited<ReturnType<typeof checkMatchStatus>>
+): Promise<H2HDecision | null> {
+  const update: Partial<H2HMatch> = {
+    challenger_missed_date: status.challenger.missedDate ?? null,
+    opponent_missed_date: status.opponent.missedDate ?? null,
+  };
+
+  let decision: H2HDecision | null = null;
+
+  if (status.decision) {
+    const { challengerSurvived, opponentSurvived } = status.decision;
+    const winner = challengerSurvived === opponentSurvived
+      ? null
+      : challengerSurvived ? match.challenger_address : match.opponent_address;
+
+    decision = { matchId: match.match_id, challengerSurvived, opponentSurvived, winner };
+    Object.assign(update, {
+      challenger_survived: challengerSurvived,
+      opponent_survived: opponentSurvived,
+      winner_address: winner,
+      decided_at: new Date().toISOString(),
+    });
+  }
+
+  // Guarded so a result is only ever decided once
+  const { error } = await supabase
+    .from('h2h_challenges')
+    .update(update)
+    .eq('match_id', match.match_id)
+    .eq('status', 'active')
+    .is('decided_at', null);
+
+  if (error) {
+    throw new Error(`Failed to update match ${match.match_id}: ${error.message}`);
+  }
+
+  return decision;
+}
+
+/**
+ * Send settleH2H for decided matches that are not settled yet
+ * @param job The running job, renewed before each send
+ */
+async function settleDecidedMatches(job: LeasedJob): Promise<H2HSettlementOutcome[]> {
+  if (!SETTLEMENT.OPERATOR_PRIVATE_KEY) {
+    console.warn('SETTLEMENT_PRIVATE_KEY is not configured, leaving head-to-head results unsettled');
+    return [];
+  }
+
+  const { data: decided, error } = await supabase
+    .from('h2h_challenges')
+    .select('match_id, challenger_survived, opponent_survived, settle_attempts')
+    .eq('status', 'active')
+    .not('decided_at', 'is', null)
+    .lt('settle_attempts', SETTLEMENT.QUEUE_MAX_ATTEMPTS)
+    .order('decided_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading decided matches:', error);
+    return [];
+  }
+
+  const outcomes: H2HSettlementOutcome[] = [];
+
+  for (const match of decided || []) {
+    if (!(await job.renew())) break;
+
+    const outcome = await settleHeadToHead({
+      matchId: match.match_id,
+      challengerSurvived: !!match.challenger_survived,
+      opponentSurvived: !!match.opponent_survived,
+    });
+    outcomes.push(outcome);
+
+    // Dry runs leave the match unsettled so it is sent once dry-run mode is off
+    if (outcome.status === 'dry_run') continue;
+
+    const settled = outcome.status === 'confirmed' || outcome.status === 'skipped';
+
+    const { error: updateError } = await supabase
+      .from('h2h_challenges')
+      .update(settled
+        ? {
+            status: 'settled',
+            settled_at: new Date().toISOString(),
+            settle_tx_hash: outcome.txHash ?? null,
+            settle_error: outcome.status === 'skipped' ? outcome.reason ?? null : null,
+          }
+        : {
+            settle_attempts: match.settle_attempts + 1,
+            settle_tx_hash: outcome.txHash ?? null,
+            settle_error: outcome.reason ?? null,
+          })
+      .eq('match_id', match.match_id);
+
+    if (updateError) {
+      console.error(`Error updating match ${match.match_id}:`, updateError);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Check every active head-to-head match and settle the decided ones
+ * @param now Current time
+ */
+export async function runH2HJob(now: Date = new Date()): Promise<H2HJobResult> {
+  const result: H2HJobResult = {
+    status: 'completed',
+    expired: 0,
+    checked: 0,
+    decided: [],
+    errors: [],
+    settlement: [],
+  };
+
+  return runLeasedJob(H2H_JOB, result, async job => {
+    result.expired = await expireInvites(now);
+
+    const { data: matches, error } = await supabase
+      .from('h2h_challenges')
+      .select('*')
+      .eq('status', 'active')
+      .is('decided_at', null)
+      .order('match_id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load active matches: ${error.message}`);
+    }
+
+    await job.forEach((matches || []) as H2HMatch[], match => `Match ${match.match_id}`, async match => {
+      result.checked++;
+
+      const status = await checkMatchStatus(match, now);
+      if (status.error) {
+        throw new Error(status.error);
+      }
+
+      const decision = await recordMatchStatus(match, status);
+      if (decision) {
+        result.decided.push(decision);
+        console.log(`⚔ Match ${match.match_id} decided: ${decision.winner ? `winner ${decision.winner}` : 'no winner'}`);
+      }
+    });
+
+    // Includes results decided by earlier runs that could not be settled yet
+    result.settlement = await settleDecidedMatches(job);
+  });
+}
@@ -0,0 +1,330 @@
+import { createPublicClient, http, parseEventLogs, type Address, type Hash } from 'viem';
+import { supabase, type Database } from '../supabase/client';
+import { CONTRACTS, H2H, MEGAETH_CHAIN } from '../contracts/config';
+import { BetItHeadToHeadABI } from '../contracts/abis';
+import { DEFAULT_TIMEZONE } from '../verification/days';
+
+/**
+ * Head-to-Head Matches
+ * Records BetItHeadToHead invites, accepts and cancellations from their
+ * transaction receipts, so rows only ever reflect what happened on-chain
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+export type H2HMatch = Database['public']['Tables']['h2h_challenges']['Row'];
+
+type MatchResult = { success: boolean; match?: H2HMatch; error?: string };
+
+/**
+ * Load a transaction's BetItHeadToHead events
+ * @param txHash Transaction hash
+ */
+async function getMatchEvents(txHash: Hash) {
+  let receipt;
+  try {
+    receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+  } catch {
+    return { error: 'Transaction not found or not yet mined' };
+  }
+
+  if (receipt.status !== 'success') {
+    return { error: 'Transaction reverted' };
+  }
+
+  const logs = parseEventLogs({
+    abi: BetItHeadToHeadABI,
+    logs: receipt.logs.filter(log => log.address.toLowerCase() === CONTRACTS.H2H.toLowerCase()),
+  });
+
+  const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+  return { logs, timestamp: new Date(Number(block.timestamp) * 1000) };
+}
+
+/**
+ * Get a match by its on-chain ID
+ * @param matchId Match ID
+ */
+export async function getMatch(matchId: number): Promise<H2HMatch | null> {
+  const { data, error } = await supabase
+    .from('h2h_challenges')
+    .select('*')
+    .eq('match_id', matchId)
+    .single();
+
+  if (error || !data) return null;
+  return data as H2HMatch;
+}
+
+/**
+ * List a wallet's matches, newest first
+ * @param address Challenger or opponent address
+ */
+export async function getMatchesForUser(address: Address): Promise<H2HMatch[]> {
+  const lower = address.toLowerCase();
+
+  const { data, error } = await supabase
+    .from('h2h_challenges')
+    .select('*')
+    .or(`challenger_address.eq.${lower},opponent_address.eq.${lower}`)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching matches:', error);
+    return [];
+  }
+
+  return (data || []) as H2HMatch[];
+}
+
+/**
+ * Record an invite from its createH2H transaction
+ * The match uses the challenger's timezone for both participants
+ * @param txHash createH2H transaction hash
+ */
+export async function recordInvite(txHash: Hash): Promise<MatchResult> {
+  const events = await getMatchEvents(txHash);
+  if (events.error || !events.logs) {
+    return { success: false, error: events.error };
+  }
+
+  const created = events.logs.find(log => log.eventName === 'H2HCreated');
+  if (!created || created.eventName !== 'H2HCreated') {
+    return { success: false, error: 'Transaction did not create a head-to-head match' };
+  }
+
+  const challenger = created.args.challenger.toLowerCase();
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('timezone')
+    .eq('address', challenger)
+    .single();
+
+  const invitedAt = events.timestamp;
+
+  const { data, error } = await supabase
+    .from('h2h_challenges')
+    .insert({
+      match_id: Number(created.args.matchId),
+      challenger_address: challenger,
+      opponent_address: created.args.opponent.toLowerCase(),
+      stake_amount: created.args.stake.toString(),
+      duration: Number(created.args.duration),
+      timezone: profile?.timezone || DEFAULT_TIMEZONE,
+      status: 'pending',
+      invited_at: invitedAt.toISOString(),
+      expires_at: new Date(invitedAt.getTime() + H2H.INVITE_TTL_SECONDS * 1000).toISOString(),
+      tx_hash: txHash,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // The indexer got there first
+    if (error.code === '23505') {
+      const existing = await getMatch(Number(created.args.matchId));
+      return existing ? { success: true, match: existing } : { success: false, error: 'Invite already recorded' };
+    }
+    console.error('Error recording invite:', error);
+    return { success: false, error: 'Failed to record invite' };
+  }
+
+  return { success: true, match: data as H2HMatch };
+}
+
+/**
+ * Start a match from the opponent's acceptH2H transaction
+ * @param matchId Match ID
+ * @param txHash acceptH2H transaction hash
+ */
+export async function recordAccept(matchId: number, txHash: Hash): Promise<MatchResult> {
+  const match = await getMatch(matchId);
+  if (!match) {
+    return { success: false, error: 'Match not found' };
+  }
+
+  if (match.status === 'active' && match.accept_tx_hash === txHash) {
+    return { success: true, match };
+  }
+
+  if (match.status !== 'pending' && match.status !== 'expired') {
+    return { success: false, error: `Match is ${match.status}` };
+  }
+
+  const events = await getMatchEvents(txHash);
+  if (events.error || !events.logs) {
+    return { success: false, error: events.error };
+  }
+
+  const accepted = events.logs.find(
+    log => log.eventName === 'H2HAccepted' && Number(log.args.matchId) === matchId
+  );
+  if (!accepted || accepted.eventName !== 'H2HAccepted') {
+    return { success: false, error: 'Transaction did not accept this match' };
+  }
+
+  const startDate = new Date(Number(accepted.args.startDate) * 1000);
+
+  const { data, error } = await supabase
+    .from('h2h_challenges')
+    .update({
+      status: 'active',
+      start_date: startDate.toISOString(),
+      end_date: new Date(startDate.getTime() + match.duration * 24 * 60 * 60 * 1000).toISOString(),
+      accept_tx_hash: txHash,
+    })
+    .eq('match_id', matchId)
+    .in('status', ['pending', 'expired'])
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('Error recording accept:', error);
+    return { success: false, error: 'Failed to record accept' };
+  }
+
+  return { success: true, match: data as H2HMatch };
+}
+
+/**
+ * Close an invite from the challenger's cancelH2H transaction
+ * @param matchId Match ID
+ * @param txHash cancelH2H transaction hash
+ */
+export async function recordCancel(matchId: number, txHash: Hash): Promise<MatchResult> {
+  const events = await getMatchEvents(txHash);
+  if (events.error || !events.logs) {
+    return { success: false, error: events.error };
+  }
+
+  const cancelled = events.logs.some(
+    log => log.eventName === 'H2HCancelled' && Number(log.args.matchId) === matchId
+  );
+  if (!cancelled) {
+    return { success: false, error: 'Transaction did not cancel this match' };
+  }
+
+  const { data, error } = await supabase
+    .from('h2h_challenges')
+    .update({ status: 'cancelled' })
+    .eq('match_id', matchId)
+    .in('status', ['pending', 'expired'])
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: 'Match not found or no longer pending' };
+  }
+
+  return { success: true, match: data as H2HMatch };
+}
+
+/**
+ * Close a match the owner never settled from a participant's refundH2H transaction
+ * @param matchId Match ID
+ * @param txHash refundH2H transaction hash
+ */
+export async function recordRefund(matchId: number, txHash: Hash): Promise<MatchResult> {
+  const events = await getMatchEvents(txHash);
+  if (events.error || !events.logs) {
+    return { success: false, error: events.error };
+  }
+
+  const refunded = events.logs.some(
+    log => log.eventName === 'H2HRefunded' && Number(log.args.matchId) === matchId
+  );
+  if (!refunded) {
+    return { success: false, error: 'Transaction did not refund this match' };
+  }
+
+  const { data, error } = await supabase
+    .from('h2h_challenges')
+    .update({ status: 'cancelled' })
+    .eq('match_id', matchId)
+    .eq('status', 'active')
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: 'Match not found or no longer active' };
+  }
+
+  return { success: true, match: data as H2HMatch };
+}
+
+// BetItHeadToHead.Status
+const ON_CHAIN_STATUS = ['none', 'pending', 'active', 'settled', 'cancelled'] as const;
+
+/**
+ * Mark invites that were not accepted in time as expired
+ * Each invite is checked on-chain first: an accept or cancel whose receipt was
+ * never reported moves the match along instead of expiring it.
+ * The challenger still has to cancel on-chain to get their stake back
+ * @param now Current time
+ */
+export async function expireInvites(now: Date = new Date()): Promise<number> {
+  const { data: overdue, error } = await supabase
+    .from('h2h_challenges')
+    .select('match_id, duration')
+    .eq('status', 'pending')
+    .lt('expires_at', now.toISOString());
+
+  if (error) {
+    console.error('Error loading overdue invites:', error);
+    return 0;
+  }
+
+  let expired = 0;
+
+  for (const match of overdue || []) {
+    let onChain;
+    try {
+      onChain = await publicClient.readContract({
+        address: CONTRACTS.H2H,
+        abi: BetItHeadToHeadABI,
+        functionName: 'getH2H',
+        args: [BigInt(match.match_id)],
+      });
+    } catch (readError) {
+      // Left pending and retried on the next run
+      console.error(`Error reading match ${match.match_id}:`, readError);
+      continue;
+    }
+
+    const status = ON_CHAIN_STATUS[onChain.status];
+    let update: Partial<H2HMatch>;
+
+    if (status === 'active') {
+      const startDate = new Date(Number(onChain.startDate) * 1000);
+      update = {
+        status: 'active',
+        start_date: startDate.toISOString(),
+        end_date: new Date(startDate.getTime() + match.duration * 24 * 60 * 60 * 1000).toISOString(),
+      };
+    } else if (status === 'settled' || status === 'cancelled') {
+      update = { status };
+    } else {
+      update = { status: 'expired' };
+    }
+
+    const { error: updateError } = await supabase
+      .from('h2h_challenges')
+      .update(update)
+      .eq('match_id', match.match_id)
+      .eq('status', 'pending');
+
+    if (updateError) {
+      console.error(`Error updating match ${match.match_id}:`, updateError);
+      continue;
+    }
+
+    if (update.status === 'expired') expired++;
+  }
+
+  return expired;
+}
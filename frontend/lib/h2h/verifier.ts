@@ -0,0 +1,53 @@
+import { checkParticipantStreaks, type ParticipantStreak } from '../verification/participantStreaks';
+import { type H2HMatch } from './matches';
+
+/**
+ * Head-to-Head Verifier
+ * Tracks both participants of a match day by day and decides the result
+ * once it can no longer change
+ */
+
+export interface MatchStatus {
+  challenger: ParticipantStreak;
+  opponent: ParticipantStreak;
+  // Every day of the match has closed (ended plus GRACE_PERIOD)
+  complete: boolean;
+  // Result to settle on-chain, once it can no longer change
+  decision?: { challengerSurvived: boolean; opponentSurvived: boolean };
+  error?: string;
+}
+
+/**
+ * Check both participants of an active match
+ * @param match Active match
+ * @param now Current time
+ */
+export async function checkMatchStatus(match: H2HMatch, now: Date = new Date()): Promise<MatchStatus> {
+  const { participants, complete, error } = await checkParticipantStreaks({
+    activityTable: 'h2h_daily_activity',
+    idColumn: 'match_id',
+    id: match.match_id,
+    startDate: new Date(match.start_date!),
+    duration: match.duration,
+    timezone: match.timezone,
+    participants: [
+      { address: match.challenger_address, missedDate: match.challenger_missed_date },
+      { address: match.opponent_address, missedDate: match.opponent_missed_date },
+    ],
+  }, now);
+
+  const [challenger, opponent] = participants;
+  const status: MatchStatus = { challenger, opponent, complete, error };
+
+  if (error) return status;
+
+  // Both failing is final; otherwise the survivor still has to finish the match
+  if (complete || (challenger.missedDate && opponent.missedDate)) {
+    status.decision = {
+      challengerSurvived: !challenger.missedDate,
+      opponentSurvived: !opponent.missedDate,
+    };
+  }
+
+  return status;
+}
@@ -0,0 +1,920 @@
+import { createPublicClient, http, type Address, type Hash } from 'viem';
+import { supabase } from '../supabase/client';
+import { CONTRACTS, H2H, INDEXER, MEGAETH_CHAIN, SQUADS } from '../contracts/config';
+import { BetItChallengesABI, BetItHeadToHeadABI, BetItSquadsABI, BetItVaultABI } from '../contracts/abis';
+import { DEFAULT_TIMEZONE } from '../verification/days';
+import { runLeasedJob, type LeasedJobResult } from '../jobs/leasedJob';
+
+/**
+ * Chain Event Indexer
+ * Follows BetItChallenges, BetItVault, BetItHeadToHead and BetItSquads events and
+ * derives the database from them
+ *
+ * Every event lands in transactions_log first; challenges, lp_positions,
+ * h2h_challenges and squads are then rebuilt from those rows, so replaying a range
+ * after a reorg is idempotent. Client-reported transactions only get rows in
+ * place sooner.
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+const CHECKPOINT_NAME = 'betit_contracts';
+
+const CHALLENGE_EVENTS = BetItChallengesABI.filter(item => item.type === 'event');
+const VAULT_EVENTS = BetItVaultABI.filter(item => item.type === 'event');
+const H2H_EVENTS = BetItHeadToHeadABI.filter(item => item.type === 'event');
+const SQUAD_EVENTS = BetItSquadsABI.filter(item => item.type === 'event');
+
+type LogType =
+  | 'challenge_created'
+  | 'streak_verified'
+  | 'challenge_claimed'
+  | 'challenge_forfeited'
+  | 'challenge_failed'
+  | 'lp_deposit'
+  | 'lp_withdrawal'
+  | 'revenue_added'
+  | 'h2h_created'
+  | 'h2h_accepted'
+  | 'h2h_cancelled'
+  | 'h2h_refunded'
+  | 'h2h_settled'
+  | 'squad_created'
+  | 'squad_joined'
+  | 'squad_started'
+  | 'squad_cancelled'
+  | 'squad_settled';
+
+interface LogRow {
+  tx_hash: Hash;
+  log_index: number;
+  block_number: number;
+  block_hash: Hash;
+  timestamp: string;
+  from_address: string;
+  to_address: string;
+  type: LogType;
+  challenge_id: number | null;
+  match_id: number | null;
+  squad_id: number | null;
+  amount: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+interface RewoundIds {
+  challengeIds: number[];
+  lpAddresses: string[];
+  matchIds: number[];
+  squadIds: number[];
+}
+
+export const INDEXER_JOB = 'chain_indexer';
+
+export interface SyncResult extends LeasedJobResult {
+  fromBlock: string;
+  toBlock: string;
+  eventsIndexed: number;
+  reorgDetected: boolean;
+}
+
+/**
+ * Make sure a users row exists, the FK target for challenges and lp_positions
+ * Wallets seen on-chain before creating a profile get a placeholder username
+ */
+async function ensureUser(address: string): Promise<void> {
+  await supabase
+    .from('users')
+    .upsert({
+      address,
+      username: `u_${address.slice(2, 18)}`,
+    }, {
+      onConflict: 'address',
+      ignoreDuplicates: true,
+    });
+}
+
+async function getCheckpoint(): Promise<{ blockNumber: bigint; blockHash: Hash } | null> {
+  const { data, error } = await supabase
+    .from('indexer_checkpoints')
+    .select('block_number, block_hash')
+    .eq('name', CHECKPOINT_NAME)
+    .single();
+
+  if (error || !data) return null;
+
+  return { blockNumber: BigInt(data.block_number), blockHash: data.block_hash as Hash };
+}
+
+async function saveCheckpoint(blockNumber: bigint, blockHash: Hash): Promise<void> {
+  const { error } = await supabase
+    .from('indexer_checkpoints')
+    .upsert({
+      name: CHECKPOINT_NAME,
+      block_number: blockNumber.toString(),
+      block_hash: blockHash,
+    }, { onConflict: 'name' });
+
+  if (error) {
+    throw new Error(`Failed to save checkpoint: ${error.message}`);
+  }
+}
+
+/**
+ * Drop every logged event above `blockNumber` and return what they touched
+ * @param blockNumber Last block to keep
+ */
+async function rewindTo(blockNumber: bigint): Promise<RewoundIds> {
+  const { data: removed, error } = await supabase
+    .from('transactions_log')
+    .delete()
+    .gt('block_number', blockNumber.toString())
+    .not('log_index', 'is', null)
+    .select('challenge_id, match_id, squad_id, from_address, type');
+
+  if (error) {
+    throw new Error(`Failed to rewind transactions_log: ${error.message}`);
+  }
+
+  const ids = (column: 'challenge_id' | 'match_id' | 'squad_id') => [...new Set((removed || [])
+    .map(row => row[column] as number | null)
+    .filter((id): id is number => id !== null))];
+
+  return {
+    challengeIds: ids('challenge_id'),
+    lpAddresses: [...new Set((removed || [])
+      .filter(row => row.type === 'lp_deposit' || row.type === 'lp_withdrawal')
+      .map(row => row.from_address as string))],
+    matchIds: ids('match_id'),
+    squadIds: ids('squad_id'),
+  };
+}
+
+/**
+ * Fetch and decode contract events in a block range into log rows
+ * @param fromBlock First block (inclusive)
+ * @param toBlock Last block (inclusive)
+ */
+async function fetchLogRows(fromBlock: bigint, toBlock: bigint): Promise<LogRow[]> {
+  const [challengeLogs, vaultLogs, h2hLogs, squadLogs] = await Promise.all([
+    publicClient.getLogs({ address: CONTRACTS.CHALLENGES, events: CHALLENGE_EVENTS, fromBlock, toBlock }),
+    publicClient.getLogs({ address: CONTRACTS.VAULT, events: VAULT_EVENTS, fromBlock, toBlock }),
+    publicClient.getLogs({ address: CONTRACTS.H2H, events: H2H_EVENTS, fromBlock, toBlock }),
+    publicClient.getLogs({ address: CONTRACTS.SQUADS, events: SQUAD_EVENTS, fromBlock, toBlock }),
+  ]);
+
+  const timestamps = new Map<bigint, string>();
+  const senders = new Map<Hash, Address>();
+
+  const blockTimestamp = async (blockNumber: bigint) => {
+    if (!timestamps.has(blockNumber)) {
+      const block = await publicClient.getBlock({ blockNumber });
+      timestamps.set(blockNumber, new Date(Number(block.timestamp) * 1000).toISOString());
+    }
+    return timestamps.get(blockNumber)!;
+  };
+
+  // ChallengeForfeit is emitted by both forfeit() and markChallengeFailed(),
+  // only the transaction sender tells them apart. Squad starts, cancellations
+  // and settlements are logged under their sender too.
+  const txSender = async (hash: Hash) => {
+    if (!senders.has(hash)) {
+      const tx = await publicClient.getTransaction({ hash });
+      senders.set(hash, tx.from);
+    }
+    return senders.get(hash)!;
+  };
+
+  const rows: LogRow[] = [];
+
+  for (const log of [...challengeLogs, ...vaultLogs, ...h2hLogs, ...squadLogs]) {
+    const base = {
+      tx_hash: log.transactionHash,
+      log_index: log.logIndex,
+      block_number: Number(log.blockNumber),
+      block_hash: log.blockHash,
+      timestamp: await blockTimestamp(log.blockNumber),
+      to_address: log.address.toLowerCase(),
+      match_id: null,
+      squad_id: null,
+    };
+
+    switch (log.eventName) {
+      case 'ChallengeCreated':
+        rows.push({
+          ...base,
+          from_address: log.args.user!.toLowerCase(),
+          type: 'challenge_created',
+          challenge_id: Number(log.args.challengeId),
+          amount: log.args.stake!.toString(),
+          metadata: {
+            duration: Number(log.args.duration),
+            bonus_rate: Number(log.args.bonusRate),
+          },
+        });
+        break;
+      case 'StreakVerified':
+        rows.push({
+          ...base,
+          from_address: log.args.user!.toLowerCase(),
+          type: 'streak_verified',
+          challenge_id: Number(log.args.challengeId),
+          amount: null,
+          metadata: { day: Number(log.args.dayVerified) },
+        });
+        break;
+      case 'ChallengeCompleted':
+        rows.push({
+          ...base,
+          from_address: log.args.user!.toLowerCase(),
+          type: 'challenge_claimed',
+          challenge_id: Number(log.args.challengeId),
+          amount: log.args.payout!.toString(),
+          metadata: { profit: log.args.profit!.toString() },
+        });
+        break;
+      case 'ChallengeForfeit': {
+        const user = log.args.user!.toLowerCase();
+        const sender = (await txSender(log.transactionHash)).toLowerCase();
+        rows.push({
+          ...base,
+          from_address: user,
+          type: sender === user ? 'challenge_forfeited' : 'challenge_failed',
+          challenge_id: Number(log.args.challengeId),
+          amount: log.args.stakeForfeited!.toString(),
+          metadata: null,
+        });
+        break;
+      }
+      case 'Deposit':
+      case 'Withdraw':
+        rows.push({
+          ...base,
+          from_address: log.args.lp!.toLowerCase(),
+          type: log.eventName === 'Deposit' ? 'lp_deposit' : 'lp_withdrawal',
+          challenge_id: null,
+          amount: log.args.amount!.toString(),
+          metadata: { shares: log.args.shares!.toString() },
+        });
+        break;
+      case 'RevenueAdded':
+        rows.push({
+          ...base,
+          from_address: log.args.source!.toLowerCase(),
+          type: 'revenue_added',
+          challenge_id: null,
+          amount: log.args.amount!.toString(),
+          metadata: null,
+        });
+        break;
+      case 'H2HCreated':
+        rows.push({
+          ...base,
+          from_address: log.args.challenger!.toLowerCase(),
+          type: 'h2h_created',
+          challenge_id: null,
+          match_id: Number(log.args.matchId),
+          amount: log.args.stake!.toString(),
+          metadata: {
+            opponent: log.args.opponent!.toLowerCase(),
+            duration: Number(log.args.duration),
+          },
+        });
+        break;
+      case 'H2HAccepted':
+        rows.push({
+          ...base,
+          from_address: log.args.opponent!.toLowerCase(),
+          type: 'h2h_accepted',
+          challenge_id: null,
+          match_id: Number(log.args.matchId),
+          amount: null,
+          metadata: { start_date: Number(log.args.startDate) },
+        });
+        break;
+      case 'H2HCancelled':
+        rows.push({
+          ...base,
+          from_address: log.args.challenger!.toLowerCase(),
+          type: 'h2h_cancelled',
+          challenge_id: null,
+          match_id: Number(log.args.matchId),
+          amount: null,
+          metadata: null,
+        });
+        break;
+      case 'H2HRefunded':
+        rows.push({
+          ...base,
+          from_address: log.args.caller!.toLowerCase(),
+          type: 'h2h_refunded',
+          challenge_id: null,
+          match_id: Number(log.args.matchId),
+          amount: null,
+          metadata: null,
+        });
+        break;
+      case 'H2HSettled':
+        rows.push({
+          ...base,
+          from_address: (await txSender(log.transactionHash)).toLowerCase(),
+          type: 'h2h_settled',
+          challenge_id: null,
+          match_id: Number(log.args.matchId),
+          amount: log.args.payout!.toString(),
+          metadata: {
+            winner: log.args.winner!.toLowerCase(),
+            challenger_survived: log.args.challengerSurvived,
+            opponent_survived: log.args.opponentSurvived,
+            fee: log.args.fee!.toString(),
+          },
+        });
+        break;
+      case 'SquadCreated':
+        rows.push({
+          ...base,
+          from_address: log.args.creator!.toLowerCase(),
+          type: 'squad_created',
+          challenge_id: null,
+          squad_id: Number(log.args.squadId),
+          amount: log.args.stake!.toString(),
+          metadata: {
+            duration: Number(log.args.duration),
+            max_members: Number(log.args.maxMembers),
+          },
+        });
+        break;
+      case 'SquadJoined':
+        rows.push({
+          ...base,
+          from_address: log.args.member!.toLowerCase(),
+          type: 'squad_joined',
+          challenge_id: null,
+          squad_id: Number(log.args.squadId),
+          amount: null,
+          metadata: { member_count: Number(log.args.memberCount) },
+        });
+        break;
+      case 'SquadStarted':
+        rows.push({
+          ...base,
+          from_address: (await txSender(log.transactionHash)).toLowerCase(),
+          type: 'squad_started',
+          challenge_id: null,
+          squad_id: Number(log.args.squadId),
+          amount: null,
+          metadata: {
+            start_date: Number(log.args.startDate),
+            member_count: Number(log.args.memberCount),
+          },
+        });
+        break;
+      case 'SquadCancelled':
+        rows.push({
+          ...base,
+          from_address: (await txSender(log.transactionHash)).toLowerCase(),
+          type: 'squad_cancelled',
+          challenge_id: null,
+          squad_id: Number(log.args.squadId),
+          amount: null,
+          metadata: null,
+        });
+        break;
+      case 'SquadSettled':
+        rows.push({
+          ...base,
+          from_address: (await txSender(log.transactionHash)).toLowerCase(),
+          type: 'squad_settled',
+          challenge_id: null,
+          squad_id: Number(log.args.squadId),
+          amount: log.args.payoutPerSurvivor!.toString(),
+          metadata: {
+            survivor_count: Number(log.args.survivorCount),
+            vault_amount: log.args.vaultAmount!.toString(),
+          },
+        });
+        break;
+    }
+  }
+
+  return rows.sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index);
+}
+
+/**
+ * Upsert the challenges row announced by a ChallengeCreated event
+ */
+async function upsertCreatedChallenge(row: LogRow): Promise<void> {
+  const duration = row.metadata!.duration as number;
+  const startDate = new Date(row.timestamp);
+  const endDate = new Date(startDate.getTime() + duration * 24 * 60 * 60 * 1000);
+
+  await ensureUser(row.from_address);
+
+  const { error } = await supabase
+    .from('challenges')
+    .upsert({
+      challenge_id: row.challenge_id,
+      user_address: row.from_address,
+      stake_amount: row.amount,
+      duration,
+      bonus_rate: row.metadata!.bonus_rate,
+      start_date: startDate.toISOString(),
+      end_date: endDate.toISOString(),
+      tx_hash: row.tx_hash,
+    }, { onConflict: 'challenge_id' });
+
+  if (error) {
+    throw new Error(`Failed to upsert challenge ${row.challenge_id}: ${error.message}`);
+  }
+}
+
+/**
+ * Re-derive a challenge's status fields from its logged events
+ * On-chain events decide the status; the failure pipeline's off-chain challenge_failed
+ * row (no tx_hash) only counts while nothing on-chain has settled the challenge yet.
+ * @param challengeId On-chain challenge ID
+ */
+export async function rebuildChallenge(challengeId: number): Promise<void> {
+  const { data: events, error } = await supabase
+    .from('transactions_log')
+    .select('type, timestamp, tx_hash')
+    .eq('challenge_id', challengeId)
+    .order('block_number', { ascending: true })
+    .order('log_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load events for challenge ${challengeId}: ${error.message}`);
+  }
+
+  // The creation itself was reorged out
+  if (!events?.some(event => event.type === 'challenge_created')) {
+    await supabase.from('challenges').delete().eq('challenge_id', challengeId);
+    return;
+  }
+
+  let status: 'active' | 'completed' | 'failed' | 'forfeited' = 'active';
+  let lastVerified: string | null = null;
+  let claimTxHash: string | null = null;
+  let failedOffChain = false;
+
+  for (const event of events) {
+    if (!event.tx_hash) {
+      failedOffChain = failedOffChain || event.type === 'challenge_failed';
+      continue;
+    }
+
+    switch (event.type) {
+      case 'streak_verified':
+        lastVerified = event.timestamp;
+        break;
+      case 'challenge_claimed':
+        status = 'completed';
+        claimTxHash = event.tx_hash;
+        break;
+      case 'challenge_forfeited':
+        status = 'forfeited';
+        break;
+      case 'challenge_failed':
+        status = 'failed';
+        break;
+    }
+  }
+
+  // Failed off-chain, markChallengeFailed not mined yet
+  if (status === 'active' && failedOffChain) {
+    status = 'failed';
+  }
+
+  const { error: updateError } = await supabase
+    .from('challenges')
+    .update({
+      status,
+      last_verified: lastVerified,
+      claim_tx_hash: claimTxHash,
+    })
+    .eq('challenge_id', challengeId);
+
+  if (updateError) {
+    throw new Error(`Failed to update challenge ${challengeId}: ${updateError.message}`);
+  }
+}
+
+/**
+ * Re-derive an LP position from its logged deposits and withdrawals
+ * @param address LP address (lowercase)
+ */
+export async function rebuildLpPosition(address: string): Promise<void> {
+  const { data: events, error } = await supabase
+    .from('transactions_log')
+    .select('type, amount, metadata, timestamp')
+    .eq('from_address', address)
+    .in('type', ['lp_deposit', 'lp_withdrawal'])
+    .order('block_number', { ascending: true })
+    .order('log_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load LP events for ${address}: ${error.message}`);
+  }
+
+  if (!events || events.length === 0) {
+    await supabase.from('lp_positions').delete().eq('address', address);
+    return;
+  }
+
+  let shares = BigInt(0);
+  let deposited = BigInt(0);
+  let withdrawn = BigInt(0);
+  let firstDepositAt: string | null = null;
+  let lastDepositAt: string | null = null;
+  let lastWithdrawalAt: string | null = null;
+
+  for (const event of events) {
+    const eventShares = BigInt((event.metadata as { shares: string }).shares);
+
+    if (event.type === 'lp_deposit') {
+      shares += eventShares;
+      deposited += BigInt(event.amount);
+      firstDepositAt = firstDepositAt || event.timestamp;
+      lastDepositAt = event.timestamp;
+    } else {
+      shares -= eventShares;
+      withdrawn += BigInt(event.amount);
+      lastWithdrawalAt = event.timestamp;
+    }
+  }
+
+  await ensureUser(address);
+
+  const { error: upsertError } = await supabase
+    .from('lp_positions')
+    .upsert({
+      address,
+      shares: shares.toString(),
+      deposited_amount: deposited.toString(),
+      withdrawn_amount: withdrawn.toString(),
+      deposited_at: firstDepositAt,
+      last_deposit_at: lastDepositAt,
+      last_withdrawal_at: lastWithdrawalAt,
+    }, { onConflict: 'address' });
+
+  if (upsertError) {
+    throw new Error(`Failed to upsert LP position ${address}: ${upsertError.message}`);
+  }
+}
+
+/**
+ * Timezone a head-to-head match or squad runs in: its creator's
+ */
+async function creatorTimezone(address: string): Promise<string> {
+  const { data: profile } = await supabase
+    .from('users')
+    .select('timezone')
+    .eq('address', address)
+    .single();
+
+  return profile?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Re-derive a head-to-head match from its logged events
+ * A match nobody accepted on-chain is pending until its invite runs out, then expired.
+ * @param matchId On-chain match ID
+ */
+export async function rebuildMatch(matchId: number, now: Date = new Date()): Promise<void> {
+  const { data: events, error } = await supabase
+    .from('transactions_log')
+    .select('type, timestamp, tx_hash, from_address, amount, metadata')
+    .eq('match_id', matchId)
+    .order('block_number', { ascending: true })
+    .order('log_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load events for match ${matchId}: ${error.message}`);
+  }
+
+  const created = events?.find(event => event.type === 'h2h_created');
+
+  // The invite itself was reorged out
+  if (!created) {
+    await supabase.from('h2h_challenges').delete().eq('match_id', matchId);
+    return;
+  }
+
+  const invitedAt = new Date(created.timestamp);
+  const expiresAt = new Date(invitedAt.getTime() + H2H.INVITE_TTL_SECONDS * 1000);
+
+  const { error: insertError } = await supabase
+    .from('h2h_challenges')
+    .upsert({
+      match_id: matchId,
+      challenger_address: created.from_address,
+      opponent_address: created.metadata.opponent,
+      stake_amount: created.amount,
+      duration: created.metadata.duration,
+      timezone: await creatorTimezone(created.from_address),
+      status: 'pending',
+      invited_at: invitedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      tx_hash: created.tx_hash,
+    }, {
+      onConflict: 'match_id',
+      ignoreDuplicates: true,
+    });
+
+  if (insertError) {
+    throw new Error(`Failed to upsert match ${matchId}: ${insertError.message}`);
+  }
+
+  const accepted = events!.find(event => event.type === 'h2h_accepted');
+  // A match refunded after the owner never settled it ends cancelled, like a withdrawn invite
+  const cancelled = events!.find(event => event.type === 'h2h_cancelled' || event.type === 'h2h_refunded');
+  const settled = events!.find(event => event.type === 'h2h_settled');
+
+  const startDate = accepted ? new Date(accepted.metadata.start_date * 1000) : null;
+
+  const update: Record<string, unknown> = {
+    status: settled ? 'settled'
+      : cancelled ? 'cancelled'
+      : accepted ? 'active'
+      : expiresAt <= now ? 'expired' : 'pending',
+    start_date: startDate?.toISOString() ?? null,
+    end_date: startDate
+      ? new Date(startDate.getTime() + created.metadata.duration * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+    accept_tx_hash: accepted?.tx_hash ?? null,
+  };
+
+  if (settled) {
+    const winner = settled.metadata.winner as string;
+
+    Object.assign(update, {
+      challenger_survived: settled.metadata.challenger_survived,
+      opponent_survived: settled.metadata.opponent_survived,
+      winner_address: /^0x0{40}$/.test(winner) ? null : winner,
+      settle_tx_hash: settled.tx_hash,
+      settled_at: settled.timestamp,
+    });
+  }
+
+  const { error: updateError } = await supabase
+    .from('h2h_challenges')
+    .update(update)
+    .eq('match_id', matchId);
+
+  if (updateError) {
+    throw new Error(`Failed to update match ${matchId}: ${updateError.message}`);
+  }
+
+  // Settled on-chain before the result job recorded a decision
+  if (settled) {
+    await supabase
+      .from('h2h_challenges')
+      .update({ decided_at: settled.timestamp })
+      .eq('match_id', matchId)
+      .is('decided_at', null);
+  }
+}
+
+/**
+ * Re-derive a squad and its members from their logged events
+ * @param squadId On-chain squad ID
+ */
+export async function rebuildSquad(squadId: number): Promise<void> {
+  const { data: events, error } = await supabase
+    .from('transactions_log')
+    .select('type, timestamp, tx_hash, from_address, amount, metadata')
+    .eq('squad_id', squadId)
+    .order('block_number', { ascending: true })
+    .order('log_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load events for squad ${squadId}: ${error.message}`);
+  }
+
+  const created = events?.find(event => event.type === 'squad_created');
+
+  // The creation itself was reorged out (members go with it)
+  if (!created) {
+    await supabase.from('squads').delete().eq('squad_id', squadId);
+    return;
+  }
+
+  const openedAt = new Date(created.timestamp);
+
+  const { error: insertError } = await supabase
+    .from('squads')
+    .upsert({
+      squad_id: squadId,
+      creator_address: created.from_address,
+      stake_amount: created.amount,
+      duration: created.metadata.duration,
+      max_members: created.metadata.max_members,
+      timezone: await creatorTimezone(created.from_address),
+      status: 'open',
+      opened_at: openedAt.toISOString(),
+      join_deadline: new Date(openedAt.getTime() + SQUADS.JOIN_WINDOW_SECONDS * 1000).toISOString(),
+      tx_hash: created.tx_hash,
+    }, {
+      onConflict: 'squad_id',
+      ignoreDuplicates: true,
+    });
+
+  if (insertError) {
+    throw new Error(`Failed to upsert squad ${squadId}: ${insertError.message}`);
+  }
+
+  const joins = events!.filter(event => event.type === 'squad_joined');
+
+  for (const join of joins) {
+    const { error: memberError } = await supabase
+      .from('squad_members')
+      .upsert({
+        squad_id: squadId,
+        user_address: join.from_address,
+        joined_at: join.timestamp,
+        join_tx_hash: join.tx_hash,
+      }, { onConflict: 'squad_id,user_address' });
+
+    if (memberError) {
+      throw new Error(`Failed to upsert member of squad ${squadId}: ${memberError.message}`);
+    }
+  }
+
+  // Joins that were reorged out
+  const { data: stored } = await supabase
+    .from('squad_members')
+    .select('user_address')
+    .eq('squad_id', squadId);
+
+  const joined = new Set(joins.map(join => join.from_address));
+  const gone = (stored || []).map(row => row.user_address as string).filter(address => !joined.has(address));
+
+  if (gone.length > 0) {
+    await supabase.from('squad_members').delete().eq('squad_id', squadId).in('user_address', gone);
+  }
+
+  const started = events!.find(event => event.type === 'squad_started');
+  const cancelled = events!.find(event => event.type === 'squad_cancelled');
+  const settled = events!.find(event => event.type === 'squad_settled');
+
+  const startDate = started ? new Date(started.metadata.start_date * 1000) : null;
+
+  const update: Record<string, unknown> = {
+    status: settled ? 'settled' : cancelled ? 'cancelled' : started ? 'active' : 'open',
+    start_date: startDate?.toISOString() ?? null,
+    end_date: startDate
+      ? new Date(startDate.getTime() + created.metadata.duration * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+  };
+
+  if (settled) {
+    Object.assign(update, {
+      payout_per_survivor: settled.amount,
+      vault_amount: settled.metadata.vault_amount,
+      settle_tx_hash: settled.tx_hash,
+      settled_at: settled.timestamp,
+    });
+  }
+
+  const { error: updateError } = await supabase
+    .from('squads')
+    .update(update)
+    .eq('squad_id', squadId);
+
+  if (updateError) {
+    throw new Error(`Failed to update squad ${squadId}: ${updateError.message}`);
+  }
+
+  // Settled on-chain before the result job recorded a decision
+  if (settled) {
+    await supabase
+      .from('squads')
+      .update({ decided_at: settled.timestamp })
+      .eq('squad_id', squadId)
+      .is('decided_at', null);
+  }
+}
+
+/**
+ * Index contract events from the stored checkpoint up to the confirmed head
+ * Runs as a leased job, so syncs and reorg rewinds never overlap. Stops after
+ * `maxBatches` batches, once the time budget is spent or if the lease is lost.
+ * @param maxBatches Max block batches to process in this run (capped at INDEXER.MAX_BATCHES)
+ */
+export async function syncChainEvents(maxBatches: number = 20): Promise<SyncResult> {
+  const result: SyncResult = {
+    status: 'completed',
+    fromBlock: '0',
+    toBlock: '0',
+    eventsIndexed: 0,
+    reorgDetected: false,
+    errors: [],
+  };
+
+  const batches = Math.min(Math.max(1, maxBatches), INDEXER.MAX_BATCHES);
+
+  return runLeasedJob(INDEXER_JOB, result, async job => {
+    const head = await publicClient.getBlockNumber();
+    const safeHead = head - INDEXER.CONFIRMATIONS;
+
+    const touchedChallenges = new Set<number>();
+    const touchedLps = new Set<string>();
+    const touchedMatches = new Set<number>();
+    const touchedSquads = new Set<number>();
+
+    const rebuildTouched = async () => {
+      for (const challengeId of touchedChallenges) {
+        await rebuildChallenge(challengeId);
+      }
+      for (const address of touchedLps) {
+        await rebuildLpPosition(address);
+      }
+      for (const matchId of touchedMatches) {
+        await rebuildMatch(matchId);
+      }
+      for (const squadId of touchedSquads) {
+        await rebuildSquad(squadId);
+      }
+      touchedChallenges.clear();
+      touchedLps.clear();
+      touchedMatches.clear();
+      touchedSquads.clear();
+    };
+
+    let checkpoint = await getCheckpoint();
+
+    // If the checkpointed block changed hash, the chain reorged beneath us
+    if (checkpoint) {
+      const block = await publicClient.getBlock({ blockNumber: checkpoint.blockNumber });
+
+      if (block.hash !== checkpoint.blockHash) {
+        result.reorgDetected = true;
+
+        const rewindBlock = checkpoint.blockNumber > INDEXER.REORG_DEPTH
+          ? checkpoint.blockNumber - INDEXER.REORG_DEPTH
+          : INDEXER.START_BLOCK;
+        console.warn(`Reorg detected at block ${checkpoint.blockNumber}, rewinding to ${rewindBlock}`);
+
+        const removed = await rewindTo(rewindBlock);
+        removed.challengeIds.forEach(id => touchedChallenges.add(id));
+        removed.lpAddresses.forEach(address => touchedLps.add(address));
+        removed.matchIds.forEach(id => touchedMatches.add(id));
+        removed.squadIds.forEach(id => touchedSquads.add(id));
+
+        const rewound = await publicClient.getBlock({ blockNumber: rewindBlock });
+        await saveCheckpoint(rewindBlock, rewound.hash);
+        checkpoint = { blockNumber: rewindBlock, blockHash: rewound.hash };
+      }
+    }
+
+    let fromBlock = checkpoint ? checkpoint.blockNumber + BigInt(1) : INDEXER.START_BLOCK;
+    result.fromBlock = fromBlock.toString();
+    result.toBlock = (fromBlock - BigInt(1)).toString();
+
+    for (let batch = 0; batch < batches && fromBlock <= safeHead; batch++) {
+      if (!(await job.renew())) break;
+
+      const toBlock = fromBlock + INDEXER.BLOCK_BATCH_SIZE - BigInt(1) < safeHead
+        ? fromBlock + INDEXER.BLOCK_BATCH_SIZE - BigInt(1)
+        : safeHead;
+
+      const rows = await fetchLogRows(fromBlock, toBlock);
+
+      for (const row of rows) {
+        if (row.type === 'challenge_created') {
+          await upsertCreatedChallenge(row);
+        }
+
+        const { error } = await supabase
+          .from('transactions_log')
+          .upsert(row, { onConflict: 'tx_hash,log_index' });
+
+        if (error) {
+          throw new Error(`Failed to log ${row.type} in ${row.tx_hash}: ${error.message}`);
+        }
+
+        if (row.challenge_id !== null) touchedChallenges.add(row.challenge_id);
+        if (row.type === 'lp_deposit' || row.type === 'lp_withdrawal') touchedLps.add(row.from_address);
+        if (row.match_id !== null) touchedMatches.add(row.match_id);
+        if (row.squad_id !== null) touchedSquads.add(row.squad_id);
+      }
+
+      // Derived rows must be current before the checkpoint moves past their events
+      await rebuildTouched();
+
+      const lastBlock = await publicClient.getBlock({ blockNumber: toBlock });
+      await saveCheckpoint(toBlock, lastBlock.hash);
+
+      result.eventsIndexed += rows.length;
+      result.toBlock = toBlock.toString();
+      fromBlock = toBlock + BigInt(1);
+    }
+
+    await rebuildTouched();
+
+    console.log(`Indexed ${result.eventsIndexed} events in blocks ${result.fromBlock}-${result.toBlock}`);
+  });
+}
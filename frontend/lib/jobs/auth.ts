@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { JOBS } from '../contracts/config';
+
+/**
+ * Job Request Authentication
+ * Scheduled job endpoints accept either:
+ * - `Authorization: Bearer <CRON_SECRET>` (what Vercel Cron sends), or
+ * - `x-betit-timestamp` + `x-betit-signature`, where the signature is the hex
+ *   HMAC-SHA256 of `${timestamp}.${METHOD}.${pathname}` keyed with CRON_SECRET
+ */
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Sign a job request (for callers other than Vercel Cron)
+ * @param method HTTP method
+ * @param pathname Request path, e.g. /api/verify-streak
+ * @param timestamp Unix seconds
+ * @param secret Shared job secret
+ */
+export function signJobRequest(method: string, pathname: string, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${method.toUpperCase()}.${pathname}`)
+    .digest('hex');
+}
+
+/**
+ * Require a valid job credential on the request
+ * @returns An error response to return, or null when the request is authorized
+ */
+export function authorizeJobRequest(request: NextRequest): NextResponse | null {
+  const secret = JOBS.SECRET;
+
+  if (!secret) {
+    console.error('CRON_SECRET is not configured, refusing job request');
+    return NextResponse.json(
+      { error: 'Job endpoint is not configured' },
+      { status: 503 }
+    );
+  }
+
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ') && safeEqual(authorization.slice(7), secret)) {
+    return null;
+  }
+
+  const timestamp = parseInt(request.headers.get('x-betit-timestamp') || '');
+  const signature = request.headers.get('x-betit-signature');
+
+  if (signature && Number.isFinite(timestamp)) {
+    const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+    const expected = signJobRequest(request.method, request.nextUrl.pathname, timestamp, secret);
+
+    if (age <= JOBS.SIGNATURE_MAX_AGE_SECONDS && safeEqual(signature, expected)) {
+      return null;
+    }
+  }
+
+  return NextResponse.json(
+    { error: 'Unauthorized' },
+    { status: 401 }
+  );
+}
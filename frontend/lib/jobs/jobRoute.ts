@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeJobRequest } from './auth';
+import { type LeasedJobResult } from './leasedJob';
+
+/**
+ * Job Routes
+ * The GET handler every scheduled job endpoint shares: authorize the request
+ * (see ./auth.ts), run the job, and answer 409 while another invocation holds
+ * its lease, 500 if it failed, 200 otherwise (including a run that stopped
+ * with work left for the next invocation).
+ */
+
+/**
+ * Build a job endpoint's GET handler
+ * @param run Runs the job, given the authorized request
+ * @param description Names the job in messages, e.g. 'squad run'
+ */
+export function jobRoute(run: (request: NextRequest) => Promise<LeasedJobResult>, description: string) {
+  return async function GET(request: NextRequest) {
+    try {
+      const unauthorized = authorizeJobRequest(request);
+      if (unauthorized) return unauthorized;
+
+      const result = await run(request);
+
+      if (result.status === 'locked') {
+        return NextResponse.json(
+          { error: `Another ${description} is in progress` },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({
+        success: result.status !== 'failed' && result.errors.length === 0,
+        ...result,
+        timestamp: new Date().toISOString(),
+      }, { status: result.status === 'failed' ? 500 : 200 });
+    } catch (error) {
+      console.error(`Error in ${description}:`, error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  };
+}
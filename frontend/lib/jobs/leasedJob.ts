@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { JOBS } from '../contracts/config';
+import { acquireLease, releaseLease, renewLease } from './lock';
+
+/**
+ * Leased Jobs
+ * Runs a job body under its lease: a second invocation reports 'locked', an
+ * error thrown by the body marks the run 'failed', and the lease is always
+ * released at the end. Work stops once the run's time budget is spent or the
+ * lease is lost to another invocation, and the lease is renewed as it goes.
+ */
+
+export interface LeasedJobResult {
+  // 'running' when a resumable job has work left for the next invocation
+  status: 'completed' | 'running' | 'locked' | 'failed';
+  errors: string[];
+}
+
+export interface LeasedJob {
+  /**
+   * Handle items until the time budget runs out or the lease is lost; the rest
+   * are picked up by the next run. An item that throws is recorded in the result's
+   * errors as `${label(item)}: message` and doesn't stop the loop.
+   * @param items Items to handle, in order
+   * @param label Names an item in error messages, e.g. `Squad 4`
+   * @param handle Handles one item
+   * @param concurrency Items handled in parallel (default 1)
+   */
+  forEach<T>(
+    items: T[],
+    label: (item: T) => string,
+    handle: (item: T) => Promise<void>,
+    concurrency?: number
+  ): Promise<void>;
+
+  /**
+   * Renew the lease before a step outside forEach
+   * @returns False once the lease is lost or the time budget is spent: skip the step
+   */
+  renew(): Promise<boolean>;
+}
+
+const LEASE_LOST = 'Lease lost to another invocation';
+
+/**
+ * Run a job under its lease
+ * @param name Job name (lease key)
+ * @param result Initial result, filled in by `body`
+ * @param body The job's work
+ * @param options.timeBudgetMs Stop picking up work after this long (default JOBS.TIME_BUDGET_MS)
+ * @returns The result, with status 'locked' if another invocation holds the lease
+ */
+export async function runLeasedJob<R extends LeasedJobResult>(
+  name: string,
+  result: R,
+  body: (job: LeasedJob) => Promise<void>,
+  options: { timeBudgetMs?: number } = {}
+): Promise<R> {
+  const holder = randomUUID();
+
+  if (!(await acquireLease(name, holder, JOBS.LEASE_SECONDS))) {
+    return { ...result, status: 'locked' };
+  }
+
+  const deadline = Date.now() + (options.timeBudgetMs ?? JOBS.TIME_BUDGET_MS);
+  let lastRenewal = Date.now();
+  let leaseLost = false;
+
+  const canContinue = () => !leaseLost && Date.now() < deadline;
+
+  // Renews at most every third of the lease, so parallel items don't hammer the lock table
+  const keepLease = async (force: boolean) => {
+    if (leaseLost || (!force && Date.now() - lastRenewal < (JOBS.LEASE_SECONDS * 1000) / 3)) return;
+
+    lastRenewal = Date.now();
+    if (!(await renewLease(name, holder, JOBS.LEASE_SECONDS))) {
+      leaseLost = true;
+      console.warn(`${name} job lost its lease, stopping`);
+      result.errors.push(LEASE_LOST);
+    }
+  };
+
+  const job: LeasedJob = {
+    async forEach(items, label, handle, concurrency = 1) {
+      let next = 0;
+
+      const worker = async () => {
+        while (next < items.length && canContinue()) {
+          const item = items[next++];
+
+          try {
+            await handle(item);
+          } catch (error) {
+            result.errors.push(`${label(item)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+
+          await keepLease(false);
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+    },
+
+    async renew() {
+      if (canContinue()) await keepLease(true);
+      return canContinue();
+    },
+  };
+
+  try {
+    await body(job);
+  } catch (error) {
+    console.error(`Error in ${name} job:`, error);
+    result.status = 'failed';
+    result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    await releaseLease(name, holder);
+  }
+
+  return result;
+}
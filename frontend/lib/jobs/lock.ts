@@ -0,0 +1,79 @@
+import { supabase } from '../supabase/client';
+
+/**
+ * Lease Locks
+ * DB-backed locks so only one invocation of a job runs at a time. A lease that
+ * is not renewed expires, so a crashed or timed-out invocation cannot hold it forever.
+ */
+
+function leaseExpiry(ttlSeconds: number): string {
+  return new Date(Date.now() + ttlSeconds * 1000).toISOString();
+}
+
+/**
+ * Try to take the lock for a job
+ * @param name Job name
+ * @param holder Unique id of the invocation taking the lock
+ * @param ttlSeconds Lease length
+ * @returns Whether the lock was acquired
+ */
+export async function acquireLease(name: string, holder: string, ttlSeconds: number): Promise<boolean> {
+  const { error: insertError } = await supabase
+    .from('job_locks')
+    .insert({ name, holder, expires_at: leaseExpiry(ttlSeconds) });
+
+  if (!insertError) return true;
+
+  if (insertError.code !== '23505') {
+    throw new Error(`Failed to acquire lock ${name}: ${insertError.message}`);
+  }
+
+  // The row exists: take it over only if the previous lease has expired
+  const { data, error } = await supabase
+    .from('job_locks')
+    .update({ holder, expires_at: leaseExpiry(ttlSeconds) })
+    .eq('name', name)
+    .lt('expires_at', new Date().toISOString())
+    .select('name');
+
+  if (error) {
+    throw new Error(`Failed to acquire lock ${name}: ${error.message}`);
+  }
+
+  return !!data && data.length === 1;
+}
+
+/**
+ * Extend a held lease
+ * @returns False if the lease was lost to another holder
+ */
+export async function renewLease(name: string, holder: string, ttlSeconds: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('job_locks')
+    .update({ expires_at: leaseExpiry(ttlSeconds) })
+    .eq('name', name)
+    .eq('holder', holder)
+    .select('name');
+
+  if (error) {
+    console.error(`Error renewing lock ${name}:`, error);
+    return false;
+  }
+
+  return !!data && data.length === 1;
+}
+
+/**
+ * Release a held lease so the next invocation can start immediately
+ */
+export async function releaseLease(name: string, holder: string): Promise<void> {
+  const { error } = await supabase
+    .from('job_locks')
+    .delete()
+    .eq('name', name)
+    .eq('holder', holder);
+
+  if (error) {
+    console.error(`Error releasing lock ${name}:`, error);
+  }
+}
@@ -0,0 +1,304 @@
+import { type Address } from 'viem';
+import { supabase } from '../supabase/client';
+import { JOBS, SETTLEMENT } from '../contracts/config';
+import { isDueForVerification, verifyDailyActivity } from '../verification/streakVerifier';
+import { DEFAULT_TIMEZONE, getDayKey } from '../verification/days';
+import { settleChallenge, type SettlementOutcome } from '../settlement/settlement';
+import { runLeasedJob, type LeasedJobResult } from './leasedJob';
+
+/**
+ * Batch Verification Job
+ * Verifies every due active challenge for its current streak day, then settles verified ones.
+ * A run is identified by the UTC date it started on.
+ *
+ * Each invocation runs as a leased job (see ./leasedJob.ts) and stops picking up work
+ * once its time budget is spent. Per-challenge outcomes double as checkpoints, so the
+ * next invocation resumes the same run and only processes what is left.
+ */
+
+export const VERIFICATION_JOB = 'batch_verification';
+
+export type ChallengeOutcomeKind = 'verified' | 'not_verified' | 'error';
+
+export interface ChallengeOutcome {
+  challengeId: number;
+  outcome: ChallengeOutcomeKind;
+  txCount: number;
+  failedRule?: string;
+  error?: string;
+  settlement?: SettlementOutcome;
+}
+
+export interface VerificationJobResult extends LeasedJobResult {
+  runId?: string;
+  runDate?: string;
+  resumed: boolean;
+  processed: number;
+  remaining: number;
+  totals: { verified: number; failed: number; errored: number };
+  outcomes: ChallengeOutcome[];
+}
+
+interface JobRun {
+  id: string;
+  run_date: string;
+  invocations: number;
+}
+
+interface DueChallenge {
+  challenge_id: number;
+  user_address: string;
+}
+
+/**
+ * Resume today's run, or start a new one
+ * There is one run per day whatever its status: a completed or failed run is
+ * reopened and only picks up challenges it has no outcome for yet.
+ * Unfinished runs from earlier days are closed as failed
+ */
+async function getOrCreateRun(runDate: string): Promise<{ run: JobRun; resumed: boolean }> {
+  const { error: staleError } = await supabase
+    .from('job_runs')
+    .update({
+      status: 'failed',
+      finished_at: new Date().toISOString(),
+      last_error: 'Abandoned before completing its day',
+    })
+    .eq('job_name', VERIFICATION_JOB)
+    .eq('status', 'running')
+    .neq('run_date', runDate);
+
+  if (staleError) {
+    throw new Error(`Failed to close abandoned job runs: ${staleError.message}`);
+  }
+
+  const findRun = () => supabase
+    .from('job_runs')
+    .select('id, run_date, invocations')
+    .eq('job_name', VERIFICATION_JOB)
+    .eq('run_date', runDate)
+    .maybeSingle();
+
+  let { data: current, error } = await findRun();
+
+  if (error) {
+    throw new Error(`Failed to load job runs: ${error.message}`);
+  }
+
+  if (!current) {
+    const { data: created, error: createError } = await supabase
+      .from('job_runs')
+      .insert({ job_name: VERIFICATION_JOB, run_date: runDate })
+      .select('id, run_date, invocations')
+      .single();
+
+    if (created) {
+      return { run: created, resumed: false };
+    }
+
+    // Another invocation created today's run first (unique_job_run_date)
+    if (createError?.code !== '23505') {
+      throw new Error(`Failed to create job run: ${createError?.message}`);
+    }
+
+    ({ data: current, error } = await findRun());
+    if (error || !current) {
+      throw new Error(`Failed to load job run: ${error?.message}`);
+    }
+  }
+
+  const invocations = current.invocations + 1;
+  await supabase
+    .from('job_runs')
+    .update({ status: 'running', finished_at: null, invocations })
+    .eq('id', current.id);
+
+  return { run: { ...current, invocations }, resumed: true };
+}
+
+/**
+ * Active challenges that are due and not yet checkpointed in this run
+ */
+async function getPendingChallenges(runId: string, now: Date): Promise<{
+  pending: DueChallenge[];
+  done: number;
+}> {
+  const [{ data: challenges, error }, { data: outcomes, error: outcomesError }] = await Promise.all([
+    supabase
+      .from('challenges')
+      .select('challenge_id, user_address, start_date, last_verified')
+      .eq('status', 'active')
+      .order('challenge_id', { ascending: true }),
+    supabase
+      .from('job_run_outcomes')
+      .select('challenge_id')
+      .eq('run_id', runId),
+  ]);
+
+  if (error || outcomesError) {
+    throw new Error(`Failed to load challenges: ${(error || outcomesError)?.message}`);
+  }
+
+  const done = new Set((outcomes || []).map(row => row.challenge_id as number));
+
+  return {
+    pending: (challenges || []).filter(c => !done.has(c.challenge_id) && isDueForVerification(c, now)),
+    done: done.size,
+  };
+}
+
+/**
+ * Verify (and settle) one challenge
+ */
+async function processChallenge(challenge: DueChallenge, now: Date): Promise<ChallengeOutcome> {
+  const result = await verifyDailyActivity(
+    challenge.user_address as Address,
+    challenge.challenge_id,
+    now
+  );
+
+  if (!result.success) {
+    return {
+      challengeId: challenge.challenge_id,
+      outcome: 'error',
+      txCount: 0,
+      error: result.error,
+    };
+  }
+
+  const outcome: ChallengeOutcome = {
+    challengeId: challenge.challenge_id,
+    outcome: result.verified ? 'verified' : 'not_verified',
+    txCount: result.txCount,
+    failedRule: result.failedRule,
+  };
+
+  // Advance on-chain lastVerified for verified challenges
+  if (result.verified && SETTLEMENT.OPERATOR_PRIVATE_KEY) {
+    outcome.settlement = await settleChallenge({
+      challengeId: challenge.challenge_id,
+      action: 'verifyStreak',
+    });
+  }
+
+  return outcome;
+}
+
+/**
+ * Persist a challenge outcome, which also checkpoints it for the run
+ */
+async function recordOutcome(runId: string, outcome: ChallengeOutcome): Promise<void> {
+  const { error } = await supabase
+    .from('job_run_outcomes')
+    .upsert({
+      run_id: runId,
+      challenge_id: outcome.challengeId,
+      outcome: outcome.outcome,
+      tx_count: outcome.txCount,
+      failed_rule: outcome.failedRule ?? null,
+      error: outcome.error ?? null,
+      settlement_status: outcome.settlement?.status ?? null,
+      settlement_tx_hash: outcome.settlement?.txHash ?? null,
+    }, {
+      onConflict: 'run_id,challenge_id',
+      ignoreDuplicates: true,
+    });
+
+  if (error) {
+    console.error(`Error recording outcome for challenge ${outcome.challengeId}:`, error);
+  }
+}
+
+/**
+ * Count outcomes across every invocation of a run
+ */
+async function getRunTotals(runId: string): Promise<VerificationJobResult['totals']> {
+  const { data } = await supabase
+    .from('job_run_outcomes')
+    .select('outcome')
+    .eq('run_id', runId);
+
+  const rows = data || [];
+  return {
+    verified: rows.filter(row => row.outcome === 'verified').length,
+    failed: rows.filter(row => row.outcome === 'not_verified').length,
+    errored: rows.filter(row => row.outcome === 'error').length,
+  };
+}
+
+/**
+ * Run (or resume) the batch verification job
+ * @param options.concurrency Challenges verified in parallel
+ * @param options.timeBudgetMs Stop picking up new challenges after this long
+ */
+export async function runVerificationJob(options: {
+  concurrency?: number;
+  timeBudgetMs?: number;
+} = {}): Promise<VerificationJobResult> {
+  const concurrency = Math.max(1, options.concurrency ?? JOBS.VERIFICATION_CONCURRENCY);
+
+  const result: VerificationJobResult = {
+    status: 'running',
+    resumed: false,
+    processed: 0,
+    remaining: 0,
+    totals: { verified: 0, failed: 0, errored: 0 },
+    outcomes: [],
+    errors: [],
+  };
+
+  return runLeasedJob(VERIFICATION_JOB, result, async job => {
+    const now = new Date();
+    const runDate = getDayKey(now, DEFAULT_TIMEZONE); // YYYY-MM-DD (UTC)
+
+    const { run, resumed } = await getOrCreateRun(runDate);
+    result.runId = run.id;
+    result.runDate = run.run_date;
+    result.resumed = resumed;
+
+    try {
+      const { pending, done } = await getPendingChallenges(run.id, now);
+      await supabase
+        .from('job_runs')
+        .update({ total_challenges: done + pending.length })
+        .eq('id', run.id);
+
+      console.log(`${resumed ? 'Resuming' : 'Starting'} verification run ${run.id}: ${pending.length} challenge(s) pending`);
+
+      await job.forEach(pending, challenge => `Challenge ${challenge.challenge_id}`, async challenge => {
+        const outcome = await processChallenge(challenge, new Date());
+
+        await recordOutcome(run.id, outcome);
+        result.outcomes.push(outcome);
+        result.processed++;
+      }, concurrency);
+
+      result.remaining = pending.length - result.processed;
+      result.totals = await getRunTotals(run.id);
+      result.status = result.remaining === 0 ? 'completed' : 'running';
+
+      await supabase
+        .from('job_runs')
+        .update({
+          status: result.status,
+          verified: result.totals.verified,
+          failed: result.totals.failed,
+          errored: result.totals.errored,
+          finished_at: result.status === 'completed' ? new Date().toISOString() : null,
+          last_error: result.errors.length > 0 ? result.errors.join('; ') : null,
+        })
+        .eq('id', run.id);
+
+      console.log(
+        `Verification run ${run.id} ${result.status}: ${result.processed} processed, ${result.remaining} remaining`
+      );
+    } catch (error) {
+      // Leave the run open so the next invocation resumes from its checkpoints
+      await supabase
+        .from('job_runs')
+        .update({ last_error: error instanceof Error ? error.message : 'Unknown error' })
+        .eq('id', run.id);
+      throw error;
+    }
+  }, { timeBudgetMs: options.timeBudgetMs });
+}
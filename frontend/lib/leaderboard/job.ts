@@ -0,0 +1,40 @@
+import { getSupabaseAdmin } from '../supabase/admin';
+import { runLeasedJob } from '../jobs/leasedJob';
+
+/**
+ * Leaderboard Refresh Job
+ * Rebuilds the leaderboard_entries materialized view. Time windows are relative
+ * to the refresh, so it should run at least hourly.
+ */
+
+export const LEADERBOARD_JOB = 'leaderboard_refresh';
+
+export interface LeaderboardRefreshResult {
+  status: 'completed' | 'locked' | 'failed';
+  durationMs: number;
+  errors: string[];
+}
+
+/**
+ * Refresh the leaderboard
+ */
+export async function runLeaderboardRefreshJob(): Promise<LeaderboardRefreshResult> {
+  const startedAt = Date.now();
+  const result: LeaderboardRefreshResult = {
+    status: 'completed',
+    durationMs: 0,
+    errors: [],
+  };
+
+  const outcome = await runLeasedJob(LEADERBOARD_JOB, result, async () => {
+    // EXECUTE is revoked from anon, see 015_leaderboard.sql
+    const { error } = await getSupabaseAdmin().rpc('refresh_leaderboard');
+
+    if (error) {
+      throw new Error(`Failed to refresh leaderboard: ${error.message}`);
+    }
+  });
+
+  outcome.durationMs = Date.now() - startedAt;
+  return outcome;
+}
@@ -0,0 +1,131 @@
+import { supabase } from '../supabase/client';
+import { LEADERBOARD } from '../contracts/config';
+
+/**
+ * Leaderboard
+ * Boards ranked from the leaderboard_entries materialized view (migration 015),
+ * with usernames and avatars joined from users at read time so profile edits
+ * show up before the next refresh.
+ */
+
+export const LEADERBOARD_BOARDS = ['streak', 'completed', 'profit', 'success_rate'] as const;
+export const LEADERBOARD_PERIODS = ['week', 'month', 'all'] as const;
+
+export type LeaderboardBoard = typeof LEADERBOARD_BOARDS[number];
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+
+// Column each board ranks by
+const BOARD_COLUMNS: Record<LeaderboardBoard, string> = {
+  streak: 'current_streak',
+  completed: 'completed',
+  profit: 'profit',
+  success_rate: 'success_rate',
+};
+
+export interface LeaderboardEntry {
+  rank: number;
+  address: string;
+  username: string | null;
+  avatarUrl: string | null;
+  currentStreak: number;
+  completed: number;
+  settled: number;
+  // ChallengeCompleted profit in wei
+  profit: string;
+  // 0-100, null before any challenge settled
+  successRate: number | null;
+}
+
+export interface LeaderboardPage {
+  board: LeaderboardBoard;
+  period: LeaderboardPeriod;
+  entries: LeaderboardEntry[];
+  total: number;
+  // When the materialized view was last rebuilt
+  refreshedAt: string | null;
+}
+
+interface EntryRow {
+  user_address: string;
+  current_streak: number;
+  completed: number;
+  settled: number;
+  profit: string | number;
+  success_rate: string | number | null;
+  refreshed_at: string;
+}
+
+/**
+ * Get one page of a board
+ * @param options.board What to rank by
+ * @param options.period Time window
+ * @param options.limit Page size
+ * @param options.offset Entries to skip
+ */
+export async function getLeaderboard({
+  board,
+  period,
+  limit,
+  offset,
+}: {
+  board: LeaderboardBoard;
+  period: LeaderboardPeriod;
+  limit: number;
+  offset: number;
+}): Promise<LeaderboardPage> {
+  const column = BOARD_COLUMNS[board];
+
+  let query = supabase
+    .from('leaderboard_entries')
+    .select('user_address, current_streak, completed, settled, profit, success_rate, refreshed_at', { count: 'exact' })
+    .eq('period', period);
+
+  // Only users with something to rank by; a success rate needs a few settled challenges to mean anything
+  query = board === 'success_rate'
+    ? query.gte('settled', LEADERBOARD.MIN_SETTLED_FOR_SUCCESS_RATE)
+    : query.gt(column, 0);
+
+  // Ties broken by completed challenges, then address, so pages don't overlap
+  const { data, error, count } = await query
+    .order(column, { ascending: false })
+    .order('completed', { ascending: false })
+    .order('user_address', { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to load leaderboard: ${error.message}`);
+  }
+
+  const rows = (data || []) as EntryRow[];
+
+  const { data: users, error: usersError } = rows.length > 0
+    ? await supabase
+        .from('users')
+        .select('address, username, avatar_url')
+        .in('address', rows.map(row => row.user_address))
+    : { data: [], error: null };
+
+  if (usersError) {
+    throw new Error(`Failed to load leaderboard users: ${usersError.message}`);
+  }
+
+  const profiles = new Map((users || []).map(user => [user.address, user]));
+
+  return {
+    board,
+    period,
+    entries: rows.map((row, i) => ({
+      rank: offset + i + 1,
+      address: row.user_address,
+      username: profiles.get(row.user_address)?.username ?? null,
+      avatarUrl: profiles.get(row.user_address)?.avatar_url ?? null,
+      currentStreak: row.current_streak,
+      completed: row.completed,
+      settled: row.settled,
+      profit: BigInt(row.profit).toString(),
+      successRate: row.success_rate === null ? null : Number(row.success_rate),
+    })),
+    total: count || 0,
+    refreshedAt: rows[0]?.refreshed_at ?? null,
+  };
+}
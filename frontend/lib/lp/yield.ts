@@ -0,0 +1,180 @@
+import { createPublicClient, http, type Address } from 'viem';
+import { supabase } from '../supabase/client';
+import { CONTRACTS, MEGAETH_CHAIN } from '../contracts/config';
+import { BetItVaultABI } from '../contracts/abis';
+import { getDayWindow } from '../verification/days';
+import { getVaultStateAt } from '../metrics/platformMetrics';
+
+/**
+ * LP Yield
+ * Realized vault yield from the share price (sharesToAssets(1e18)), sampled at
+ * each day's closing block by the platform metrics job, and LP PnL from what
+ * each position deposited and withdrew
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SharePricePoint {
+  // UTC day whose close the price was read at
+  date: string;
+  // Assets per 1e18 shares (wei)
+  sharePrice: string;
+}
+
+export interface VaultYield {
+  // Share price at the current head (wei per 1e18 shares)
+  sharePrice: string;
+  block: string;
+  // Annualized, in percent; null until the vault is old enough
+  apy7d: number | null;
+  apy30d: number | null;
+  apyAllTime: number | null;
+  // Share price change over the last 7 days, in percent
+  return7d: number | null;
+  history: SharePricePoint[];
+}
+
+export interface LpPnl {
+  address: string;
+  shares: string;
+  deposited: string;
+  withdrawn: string;
+  // What the shares are worth now (wei)
+  currentValue: string;
+  // currentValue + withdrawn - deposited (wei)
+  pnl: string;
+  // pnl / deposited, in percent
+  pnlPercent: number | null;
+}
+
+/**
+ * Ratio of two share prices as a float
+ */
+function priceRatio(start: bigint, end: bigint): number {
+  return Number((end * BigInt(1000000)) / start) / 1000000;
+}
+
+/**
+ * Annualize a share price change
+ * @param start Share price at the start
+ * @param end Share price at the end
+ * @param days Days between them
+ * @returns APY in percent, or null if it can't be computed
+ */
+export function annualizedYield(start: bigint, end: bigint, days: number): number | null {
+  if (start <= BigInt(0) || days <= 0) return null;
+  return (Math.pow(priceRatio(start, end), 365 / days) - 1) * 100;
+}
+
+/**
+ * Daily share prices from platform_metrics, oldest first
+ * Days before the first deposit are left out.
+ * @param from First UTC day to include (YYYY-MM-DD)
+ */
+export async function getSharePriceHistory(from?: string): Promise<SharePricePoint[]> {
+  let query = supabase
+    .from('platform_metrics')
+    .select('date, lp_share_price')
+    .gt('lp_share_price', 0)
+    .order('date', { ascending: true });
+
+  if (from) {
+    query = query.gte('date', from);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load share price history: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    date: row.date,
+    sharePrice: BigInt(row.lp_share_price).toString(),
+  }));
+}
+
+/**
+ * Realized APY over the last 7 and 30 days and since the first snapshot
+ * @param now Current time
+ */
+export async function getVaultYield(now: Date = new Date()): Promise<VaultYield> {
+  const [history, head] = await Promise.all([
+    getSharePriceHistory(),
+    publicClient.getBlockNumber().then(getVaultStateAt),
+  ]);
+
+  const closeOf = (point: SharePricePoint) => getDayWindow(point.date).end.getTime();
+
+  // Latest snapshot at least `days` old, so the window covers the full period
+  const windowYield = (days: number) => {
+    const cutoff = now.getTime() - days * DAY_MS;
+    const start = [...history].reverse().find(point => closeOf(point) <= cutoff);
+    if (!start) return null;
+
+    return annualizedYield(BigInt(start.sharePrice), head.sharePrice, (now.getTime() - closeOf(start)) / DAY_MS);
+  };
+
+  const weekStart = [...history].reverse().find(point => closeOf(point) <= now.getTime() - 7 * DAY_MS);
+  const first = history[0];
+
+  return {
+    sharePrice: head.sharePrice.toString(),
+    block: head.block.toString(),
+    apy7d: windowYield(7),
+    apy30d: windowYield(30),
+    apyAllTime: first
+      ? annualizedYield(BigInt(first.sharePrice), head.sharePrice, (now.getTime() - closeOf(first)) / DAY_MS)
+      : null,
+    return7d: weekStart && head.sharePrice > BigInt(0)
+      ? (priceRatio(BigInt(weekStart.sharePrice), head.sharePrice) - 1) * 100
+      : null,
+    history,
+  };
+}
+
+/**
+ * An LP's profit and loss: current value plus withdrawals, minus deposits
+ * @param address LP wallet
+ * @returns PnL, or null if the wallet has never provided liquidity
+ */
+export async function getLpPnl(address: Address): Promise<LpPnl | null> {
+  const { data: position } = await supabase
+    .from('lp_positions')
+    .select('address, shares, deposited_amount, withdrawn_amount')
+    .eq('address', address.toLowerCase())
+    .single();
+
+  if (!position) return null;
+
+  const shares = BigInt(position.shares);
+  const deposited = BigInt(position.deposited_amount);
+  const withdrawn = BigInt(position.withdrawn_amount);
+
+  const currentValue = shares > BigInt(0)
+    ? await publicClient.readContract({
+        address: CONTRACTS.VAULT,
+        abi: BetItVaultABI,
+        functionName: 'sharesToAssets',
+        args: [shares],
+      })
+    : BigInt(0);
+
+  const pnl = currentValue + withdrawn - deposited;
+
+  return {
+    address: position.address,
+    shares: shares.toString(),
+    deposited: deposited.toString(),
+    withdrawn: withdrawn.toString(),
+    currentValue: currentValue.toString(),
+    pnl: pnl.toString(),
+    pnlPercent: deposited > BigInt(0) ? Number((pnl * BigInt(1000000)) / deposited) / 10000 : null,
+  };
+}
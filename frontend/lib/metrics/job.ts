@@ -0,0 +1,96 @@
+import { supabase } from '../supabase/client';
+import { runLeasedJob, type LeasedJobResult } from '../jobs/leasedJob';
+import { addDays, getDayKey } from '../verification/days';
+import { buildSnapshots, getFirstActivityDay, getVaultStateAtClose } from './platformMetrics';
+
+/**
+ * Platform Metrics Job
+ * Writes a platform_metrics row for every closed UTC day since the latest
+ * snapshot, so a first run (or a missed one) backfills the gap. Days are written
+ * in order and a run stops at the first day it can't finish, so there are no holes.
+ */
+
+export const METRICS_JOB = 'platform_metrics';
+
+export interface MetricsJobResult extends LeasedJobResult {
+  // Days written by this run
+  snapshots: string[];
+  // Days left for the next run (time budget spent, lease lost or a day failed)
+  remaining: number;
+}
+
+/**
+ * Snapshot closed days
+ * @param options.from Rebuild from this day (YYYY-MM-DD) instead of the day after the latest snapshot
+ * @param now Current time
+ */
+export async function runMetricsJob(
+  options: { from?: string } = {},
+  now: Date = new Date()
+): Promise<MetricsJobResult> {
+  const result: MetricsJobResult = {
+    status: 'completed',
+    snapshots: [],
+    remaining: 0,
+    errors: [],
+  };
+
+  return runLeasedJob(METRICS_JOB, result, async job => {
+    let fromDay = options.from;
+
+    if (!fromDay) {
+      const { data: latest, error } = await supabase
+        .from('platform_metrics')
+        .select('date')
+        .order('date', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        throw new Error(`Failed to load latest snapshot: ${error.message}`);
+      }
+
+      fromDay = latest?.[0] ? addDays(latest[0].date, 1) : (await getFirstActivityDay()) ?? undefined;
+    }
+
+    // Today is still open
+    const toDay = addDays(getDayKey(now), -1);
+
+    if (!fromDay || fromDay > toDay) return;
+
+    const snapshots = await buildSnapshots(fromDay, toDay);
+
+    // Not job.forEach: a failed day stops the run so later days aren't written past a hole
+    for (const [i, snapshot] of snapshots.entries()) {
+      if (!(await job.renew())) {
+        result.remaining = snapshots.length - i;
+        break;
+      }
+
+      try {
+        const vault = await getVaultStateAtClose(snapshot.date);
+        if (!vault) {
+          throw new Error('Day has not closed on-chain yet');
+        }
+
+        const { error } = await supabase
+          .from('platform_metrics')
+          .upsert({
+            ...snapshot,
+            lp_vault_size: vault.totalAssets.toString(),
+            lp_share_price: vault.sharePrice.toString(),
+            closing_block: Number(vault.block),
+          }, { onConflict: 'date' });
+
+        if (error) {
+          throw new Error(`Failed to store snapshot: ${error.message}`);
+        }
+
+        result.snapshots.push(snapshot.date);
+      } catch (error) {
+        result.errors.push(`${snapshot.date}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        result.remaining = snapshots.length - i;
+        break;
+      }
+    }
+  });
+}
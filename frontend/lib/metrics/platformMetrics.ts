@@ -0,0 +1,250 @@
+import { BaseError, ContractFunctionZeroDataError, createPublicClient, http } from 'viem';
+import { supabase } from '../supabase/client';
+import { CONTRACTS, MEGAETH_CHAIN } from '../contracts/config';
+import { BetItVaultABI } from '../contracts/abis';
+import { getBlockRangeForWindow } from '../verification/blockResolver';
+import { addDays, getDayWindow } from '../verification/days';
+
+/**
+ * Platform Metrics
+ * Daily platform_metrics snapshots, folded from the indexed transactions_log
+ * events so past days can be rebuilt exactly. Days are UTC calendar days and
+ * every column is cumulative as of the day's close.
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+const PAGE_SIZE = 1000;
+
+// 1e18 shares, the unit the share price is quoted in
+export const ONE_SHARE = BigInt('1000000000000000000');
+
+const SNAPSHOT_EVENT_TYPES = [
+  'challenge_created',
+  'challenge_claimed',
+  'challenge_forfeited',
+  'challenge_failed',
+  'lp_deposit',
+  'lp_withdrawal',
+  'revenue_added',
+] as const;
+
+export const METRIC_COLUMNS = [
+  'total_challenges',
+  'active_challenges',
+  'completed_challenges',
+  'failed_challenges',
+  'total_stakes',
+  'total_payouts',
+  'total_revenue',
+  'lp_vault_size',
+  'lp_share_price',
+  'lp_count',
+  'unique_users',
+] as const;
+
+export type MetricColumn = typeof METRIC_COLUMNS[number];
+
+export interface MetricsSnapshot {
+  date: string;
+  total_challenges: number;
+  active_challenges: number;
+  completed_challenges: number;
+  failed_challenges: number;
+  // Wei amounts, as strings
+  total_stakes: string;
+  total_payouts: string;
+  total_revenue: string;
+  lp_vault_size: string;
+  lp_share_price: string;
+  lp_count: number;
+  // Wallets that have created a challenge or deposited into the vault
+  unique_users: number;
+}
+
+interface SnapshotEvent {
+  timestamp: string;
+  type: typeof SNAPSHOT_EVENT_TYPES[number];
+  from_address: string;
+  amount: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+/**
+ * Load every snapshot-relevant on-chain event before a cutoff, in chain order
+ * Off-chain failure records (no tx_hash) are skipped; the indexer logs the
+ * matching ChallengeForfeit once markChallengeFailed is mined.
+ * @param before Exclusive cutoff
+ */
+async function loadEvents(before: Date): Promise<SnapshotEvent[]> {
+  const events: SnapshotEvent[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions_log')
+      .select('timestamp, type, from_address, amount, metadata')
+      .in('type', SNAPSHOT_EVENT_TYPES as unknown as string[])
+      .not('tx_hash', 'is', null)
+      .lt('timestamp', before.toISOString())
+      .order('block_number', { ascending: true })
+      .order('log_index', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load transactions_log: ${error.message}`);
+    }
+
+    events.push(...((data || []) as SnapshotEvent[]));
+    if (!data || data.length < PAGE_SIZE) return events;
+  }
+}
+
+/**
+ * Earliest day with indexed activity, the default start of a backfill
+ */
+export async function getFirstActivityDay(): Promise<string | null> {
+  const { data } = await supabase
+    .from('transactions_log')
+    .select('timestamp')
+    .not('tx_hash', 'is', null)
+    .order('timestamp', { ascending: true })
+    .limit(1);
+
+  return data?.[0] ? data[0].timestamp.slice(0, 10) : null;
+}
+
+export interface VaultState {
+  block: bigint;
+  // Vault assets (wei)
+  totalAssets: bigint;
+  // Assets per 1e18 shares (wei), 0 while the vault has no shares
+  sharePrice: bigint;
+}
+
+/**
+ * Read the vault at a block
+ * Blocks before the vault was deployed read as empty.
+ * @param block Block number
+ */
+export async function getVaultStateAt(block: bigint): Promise<VaultState> {
+  try {
+    const [totalAssets, sharePrice] = await Promise.all([
+      publicClient.readContract({
+        address: CONTRACTS.VAULT,
+        abi: BetItVaultABI,
+        functionName: 'totalAssets',
+        blockNumber: block,
+      }),
+      publicClient.readContract({
+        address: CONTRACTS.VAULT,
+        abi: BetItVaultABI,
+        functionName: 'sharesToAssets',
+        args: [ONE_SHARE],
+        blockNumber: block,
+      }),
+    ]);
+
+    return { block, totalAssets, sharePrice };
+  } catch (error) {
+    // No contract code at that block yet
+    if (error instanceof BaseError && error.walk(e => e instanceof ContractFunctionZeroDataError)) {
+      return { block, totalAssets: BigInt(0), sharePrice: BigInt(0) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the vault at the last block of a day
+ * @param dayKey UTC day (YYYY-MM-DD)
+ * @returns Vault state, or null if the day has not closed on-chain yet
+ */
+export async function getVaultStateAtClose(dayKey: string): Promise<VaultState | null> {
+  const { start, end } = getDayWindow(dayKey);
+
+  const range = await getBlockRangeForWindow(start, end);
+  if (!range || !range.complete) return null;
+
+  return getVaultStateAt(range.toBlock);
+}
+
+/**
+ * Build snapshots for a run of consecutive days, without the vault's on-chain state
+ * @param fromDay First UTC day (YYYY-MM-DD)
+ * @param toDay Last UTC day, inclusive
+ */
+export async function buildSnapshots(fromDay: string, toDay: string): Promise<MetricsSnapshot[]> {
+  const events = await loadEvents(getDayWindow(toDay).end);
+
+  const totals = {
+    created: 0,
+    completed: 0,
+    failed: 0,
+    stakes: BigInt(0),
+    payouts: BigInt(0),
+    revenue: BigInt(0),
+  };
+  const lpShares = new Map<string, bigint>();
+  const users = new Set<string>();
+
+  const snapshots: MetricsSnapshot[] = [];
+  let index = 0;
+
+  for (let day = fromDay; day <= toDay; day = addDays(day, 1)) {
+    const { end } = getDayWindow(day);
+
+    // Fold every event up to this day's close into the running totals
+    for (; index < events.length && new Date(events[index].timestamp) < end; index++) {
+      const event = events[index];
+      const amount = BigInt(event.amount || '0');
+
+      switch (event.type) {
+        case 'challenge_created':
+          totals.created++;
+          totals.stakes += amount;
+          users.add(event.from_address);
+          break;
+        case 'challenge_claimed':
+          totals.completed++;
+          totals.payouts += amount;
+          break;
+        case 'challenge_failed':
+        case 'challenge_forfeited':
+          totals.failed++;
+          break;
+        case 'lp_deposit':
+        case 'lp_withdrawal': {
+          const shares = BigInt((event.metadata?.shares as string) || '0');
+          const held = lpShares.get(event.from_address) || BigInt(0);
+          lpShares.set(event.from_address, event.type === 'lp_deposit' ? held + shares : held - shares);
+          users.add(event.from_address);
+          break;
+        }
+        case 'revenue_added':
+          totals.revenue += amount;
+          break;
+      }
+    }
+
+    snapshots.push({
+      date: day,
+      total_challenges: totals.created,
+      active_challenges: totals.created - totals.completed - totals.failed,
+      completed_challenges: totals.completed,
+      failed_challenges: totals.failed,
+      total_stakes: totals.stakes.toString(),
+      total_payouts: totals.payouts.toString(),
+      total_revenue: totals.revenue.toString(),
+      lp_vault_size: '0',
+      lp_share_price: '0',
+      lp_count: Array.from(lpShares.values()).filter(shares => shares > BigInt(0)).length,
+      unique_users: users.size,
+    });
+  }
+
+  return snapshots;
+}
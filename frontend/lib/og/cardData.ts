@@ -0,0 +1,186 @@
+import { supabase } from '../supabase/client';
+import { PLATFORM_FEE } from '../contracts/config';
+
+/**
+ * Share Card Data
+ * What the OG share cards show, loaded from challenges / users / daily_activity.
+ * Each card carries a state key that changes whenever anything on the card
+ * changes, so rendered images can be cached by it.
+ */
+
+export type ChallengeStatus = 'active' | 'completed' | 'failed' | 'forfeited';
+
+export interface ChallengeCardData {
+  challengeId: number;
+  address: string;
+  username: string | null;
+  status: ChallengeStatus;
+  stake: bigint;
+  // Bonus paid on completion, after the platform fee
+  bonus: bigint;
+  bonusRate: number;
+  duration: number;
+  daysVerified: number;
+  daysFrozen: number;
+  stateKey: string;
+}
+
+export interface UserCardData {
+  address: string;
+  username: string | null;
+  completed: number;
+  failed: number;
+  // Completed out of settled challenges (0-100), null before any settle
+  successRate: number | null;
+  totalStaked: bigint;
+  // Best run of consecutive completed challenges
+  bestRun: number;
+  active: { challengeId: number; duration: number; daysVerified: number } | null;
+  stateKey: string;
+}
+
+/**
+ * Net bonus on a stake (matches BetItChallenges.claimReward)
+ * @param stake Stake in wei
+ * @param bonusRate Bonus rate in basis points
+ */
+function netBonus(stake: bigint, bonusRate: number): bigint {
+  const bonus = (stake * BigInt(bonusRate)) / BigInt(10000);
+  return bonus - (bonus * BigInt(PLATFORM_FEE * 100)) / BigInt(10000);
+}
+
+/**
+ * Verified and frozen day counts for a challenge
+ */
+async function getDayCounts(challengeId: number): Promise<{ verified: number; frozen: number }> {
+  const { data: days, error } = await supabase
+    .from('daily_activity')
+    .select('verified, frozen')
+    .eq('challenge_id', challengeId);
+
+  if (error) {
+    throw new Error(`Failed to load daily activity: ${error.message}`);
+  }
+
+  return {
+    verified: (days || []).filter(day => day.verified).length,
+    frozen: (days || []).filter(day => day.frozen).length,
+  };
+}
+
+/**
+ * Load a challenge card
+ * @param challengeId On-chain challenge ID
+ * @returns Card data, or null if the challenge doesn't exist
+ */
+export async function getChallengeCardData(challengeId: number): Promise<ChallengeCardData | null> {
+  const { data: challenge, error } = await supabase
+    .from('challenges')
+    .select(`
+      challenge_id,
+      user_address,
+      stake_amount,
+      duration,
+      bonus_rate,
+      status,
+      users:user_address (
+        username
+      )
+    `)
+    .eq('challenge_id', challengeId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load challenge: ${error.message}`);
+  }
+
+  if (!challenge) return null;
+
+  const days = await getDayCounts(challengeId);
+  const user = challenge.users as unknown as { username: string } | null;
+  const username = user?.username ?? null;
+
+  return {
+    challengeId,
+    address: challenge.user_address,
+    username,
+    status: challenge.status,
+    stake: BigInt(challenge.stake_amount),
+    bonus: netBonus(BigInt(challenge.stake_amount), challenge.bonus_rate),
+    bonusRate: challenge.bonus_rate,
+    duration: challenge.duration,
+    daysVerified: days.verified,
+    daysFrozen: days.frozen,
+    stateKey: [challengeId, challenge.status, days.verified, days.frozen, username].join(':'),
+  };
+}
+
+/**
+ * Load a profile card
+ * @param address User address
+ */
+export async function getUserCardData(address: string): Promise<UserCardData> {
+  const normalized = address.toLowerCase();
+
+  const [{ data: user }, { data: challenges, error }] = await Promise.all([
+    supabase
+      .from('users')
+      .select('username')
+      .eq('address', normalized)
+      .maybeSingle(),
+    supabase
+      .from('challenges')
+      .select('challenge_id, status, stake_amount, duration')
+      .eq('user_address', normalized)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load challenges: ${error.message}`);
+  }
+
+  const rows = challenges || [];
+  const completed = rows.filter(c => c.status === 'completed').length;
+  const settled = rows.filter(c => c.status !== 'active').length;
+
+  let bestRun = 0;
+  let run = 0;
+  for (const c of rows) {
+    if (c.status === 'completed') {
+      run++;
+      bestRun = Math.max(bestRun, run);
+    } else if (c.status !== 'active') {
+      run = 0;
+    }
+  }
+
+  const activeRow = rows.find(c => c.status === 'active');
+  const active = activeRow
+    ? {
+        challengeId: activeRow.challenge_id,
+        duration: activeRow.duration,
+        daysVerified: (await getDayCounts(activeRow.challenge_id)).verified,
+      }
+    : null;
+
+  const username = user?.username ?? null;
+
+  return {
+    address: normalized,
+    username,
+    completed,
+    failed: settled - completed,
+    successRate: settled > 0 ? Math.round((completed / settled) * 100) : null,
+    totalStaked: rows.reduce((sum, c) => sum + BigInt(c.stake_amount), BigInt(0)),
+    bestRun,
+    active,
+    stateKey: [
+      normalized,
+      username,
+      rows.length,
+      completed,
+      settled,
+      active ? `${active.challengeId}-${active.daysVerified}` : 'none',
+    ].join(':'),
+  };
+}
@@ -0,0 +1,199 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import satori from 'satori';
+import sharp from 'sharp';
+import { formatEther } from 'viem';
+import type { ChallengeCardData, UserCardData } from './cardData';
+
+/**
+ * Share Card Rendering
+ * JSX -> SVG with satori, SVG -> PNG with sharp. Cards are 1200x630, the size
+ * X and Farcaster use for link previews.
+ */
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+// Noto Sans ships with Next.js (used by @vercel/og), so no font has to be fetched
+const FONT_PATH = path.join(
+  process.cwd(),
+  'node_modules/next/dist/compiled/@vercel/og/noto-sans-v27-latin-regular.ttf'
+);
+
+let fontData: Promise<Buffer> | null = null;
+
+function loadFont(): Promise<Buffer> {
+  if (!fontData) {
+    fontData = readFile(FONT_PATH).catch(error => {
+      fontData = null;
+      throw error;
+    });
+  }
+  return fontData;
+}
+
+const STATUS_STYLES: Record<ChallengeCardData['status'], { label: string; color: string }> = {
+  active: { label: 'Streak in progress', color: '#6366f1' },
+  completed: { label: 'Challenge completed', color: '#22c55e' },
+  failed: { label: 'Streak broken', color: '#ef4444' },
+  forfeited: { label: 'Forfeited', color: '#ef4444' },
+};
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatEth(wei: bigint): string {
+  return `${Number(formatEther(wei)).toFixed(4).replace(/\.?0+$/, '')} ETH`;
+}
+
+function Frame({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        width: CARD_WIDTH,
+        height: CARD_HEIGHT,
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: 64,
+        background: 'linear-gradient(135deg, #111827 0%, #1e1b4b 100%)',
+        color: '#ffffff',
+        fontFamily: 'Noto Sans',
+      }}
+    >
+      {children}
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 28, color: '#9ca3af' }}>
+        <span>Bet It</span>
+        <span>Stake on your MegaETH streak</span>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', marginRight: 72 }}>
+      <span style={{ fontSize: 28, color: '#9ca3af' }}>{label}</span>
+      <span style={{ fontSize: 48 }}>{value}</span>
+    </div>
+  );
+}
+
+function ProgressBar({ done, total, color }: { done: number; total: number; color: string }) {
+  const percent = total > 0 ? Math.min(100, (done / total) * 100) : 0;
+  return (
+    <div style={{ display: 'flex', width: '100%', height: 24, borderRadius: 12, background: '#374151' }}>
+      <div style={{ display: 'flex', width: `${percent}%`, height: 24, borderRadius: 12, background: color }} />
+    </div>
+  );
+}
+
+function ChallengeCard({ card }: { card: ChallengeCardData }) {
+  const status = STATUS_STYLES[card.status];
+  const streak = card.daysVerified + card.daysFrozen;
+
+  return (
+    <Frame>
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <span style={{ fontSize: 32, color: status.color }}>{status.label}</span>
+        <span style={{ fontSize: 64, marginTop: 8 }}>
+          {card.username ? `@${card.username}` : shortAddress(card.address)}
+        </span>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <div style={{ display: 'flex', alignItems: 'baseline', marginBottom: 20 }}>
+          <span style={{ fontSize: 96 }}>{streak}</span>
+          <span style={{ fontSize: 40, color: '#9ca3af', marginLeft: 16 }}>/ {card.duration} day streak</span>
+        </div>
+        <ProgressBar done={streak} total={card.duration} color={status.color} />
+      </div>
+      <div style={{ display: 'flex' }}>
+        <Stat label="Stake" value={formatEth(card.stake)} />
+        <Stat label="Bonus" value={`+${formatEth(card.bonus)}`} />
+        <Stat label="Rate" value={`${(card.bonusRate / 100).toFixed(2).replace(/\.?0+$/, '')}%`} />
+      </div>
+    </Frame>
+  );
+}
+
+function UserCard({ card }: { card: UserCardData }) {
+  return (
+    <Frame>
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <span style={{ fontSize: 32, color: '#a5b4fc' }}>Streak profile</span>
+        <span style={{ fontSize: 64, marginTop: 8 }}>
+          {card.username ? `@${card.username}` : shortAddress(card.address)}
+        </span>
+      </div>
+      {card.active ? (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', alignItems: 'baseline', marginBottom: 20 }}>
+            <span style={{ fontSize: 96 }}>{card.active.daysVerified}</span>
+            <span style={{ fontSize: 40, color: '#9ca3af', marginLeft: 16 }}>
+              / {card.active.duration} days on the current streak
+            </span>
+          </div>
+          <ProgressBar done={card.active.daysVerified} total={card.active.duration} color="#6366f1" />
+        </div>
+      ) : (
+        <span style={{ fontSize: 40, color: '#9ca3af' }}>No active challenge</span>
+      )}
+      <div style={{ display: 'flex' }}>
+        <Stat label="Completed" value={`${card.completed}`} />
+        <Stat label="Success rate" value={card.successRate === null ? '—' : `${card.successRate}%`} />
+        <Stat label="Best run" value={`${card.bestRun}`} />
+        <Stat label="Staked" value={formatEth(card.totalStaked)} />
+      </div>
+    </Frame>
+  );
+}
+
+function MessageCard({ title, body }: { title: string; body: string }) {
+  return (
+    <Frame>
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <span style={{ fontSize: 72 }}>{title}</span>
+        <span style={{ fontSize: 40, color: '#9ca3af', marginTop: 24 }}>{body}</span>
+      </div>
+    </Frame>
+  );
+}
+
+/**
+ * Render a card element to PNG
+ * @param element Card JSX
+ */
+async function renderPng(element: React.ReactElement): Promise<Buffer> {
+  const svg = await satori(element, {
+    width: CARD_WIDTH,
+    height: CARD_HEIGHT,
+    fonts: [{ name: 'Noto Sans', data: await loadFont(), weight: 400, style: 'normal' }],
+  });
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Render a challenge share card
+ * @param card Challenge card data
+ */
+export function renderChallengeCard(card: ChallengeCardData): Promise<Buffer> {
+  return renderPng(<ChallengeCard card={card} />);
+}
+
+/**
+ * Render a profile share card
+ * @param card Profile card data
+ */
+export function renderUserCard(card: UserCardData): Promise<Buffer> {
+  return renderPng(<UserCard card={card} />);
+}
+
+/**
+ * Render a plain message card (titles and notices for frames)
+ * @param message Title and body text
+ */
+export function renderMessageCard(message: { title: string; body: string }): Promise<Buffer> {
+  return renderPng(<MessageCard title={message.title} body={message.body} />);
+}
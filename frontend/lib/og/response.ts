@@ -0,0 +1,67 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Share Card Responses
+ * PNGs are cached by card state key: a card that changes gets a new key, so a
+ * cached image is never stale and can be served until it's evicted. The key's
+ * hash doubles as the ETag, letting crawlers revalidate without a re-render.
+ */
+
+const MAX_CACHED_CARDS = 500;
+
+// Insertion order doubles as recency (entries are re-inserted on hit)
+const rendered = new Map<string, Promise<Buffer>>();
+
+function getRendered(stateKey: string, render: () => Promise<Buffer>): Promise<Buffer> {
+  const hit = rendered.get(stateKey);
+  if (hit) {
+    rendered.delete(stateKey);
+    rendered.set(stateKey, hit);
+    return hit;
+  }
+
+  const png = render();
+  rendered.set(stateKey, png);
+  // A failed render shouldn't be served from cache
+  png.catch(() => rendered.delete(stateKey));
+
+  if (rendered.size > MAX_CACHED_CARDS) {
+    rendered.delete(rendered.keys().next().value as string);
+  }
+
+  return png;
+}
+
+/**
+ * Respond with a share card PNG
+ * @param request Incoming request (for If-None-Match)
+ * @param stateKey Key that changes whenever the card's content does
+ * @param render Renders the card when it isn't cached
+ */
+export async function cardImageResponse(
+  request: NextRequest,
+  stateKey: string,
+  render: () => Promise<Buffer>
+): Promise<NextResponse> {
+  const etag = `"${createHash('sha1').update(stateKey).digest('hex')}"`;
+  const headers = {
+    ETag: etag,
+    // Short max-age: the state can change at any time, but the ETag makes revalidation cheap
+    'Cache-Control': 'public, max-age=60, s-maxage=300, stale-while-revalidate=86400',
+  };
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const png = await getRendered(stateKey, render);
+
+  return new NextResponse(new Uint8Array(png), {
+    headers: {
+      ...headers,
+      'Content-Type': 'image/png',
+      'Content-Length': png.length.toString(),
+    },
+  });
+}
@@ -0,0 +1,201 @@
+import { createPublicClient, http } from 'viem';
+import { supabase } from '../supabase/client';
+import { BONUS_RATES, CONTRACTS, MEGAETH_CHAIN, PLATFORM_FEE, PRICING } from '../contracts/config';
+import { BetItChallengesABI } from '../contracts/abis';
+import { getVaultLiability } from '../risk/liability';
+
+/**
+ * Bonus-rate Curve
+ * Quotes a bonus rate for any duration in the PRICING range. The standard
+ * BONUS_RATES are the prior; as challenges finish, the rate moves towards one
+ * priced from their observed success rate, and it is cut as vault utilization rises.
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+export interface SuccessHistory {
+  // Fitted probability of keeping the streak for one more day
+  dailySurvival: number;
+  // Finished challenges the fit is based on
+  sampleSize: number;
+}
+
+export interface BonusQuote {
+  duration: number;
+  // Quoted rate (basis points)
+  bonusRate: number;
+  // Rate from the standard BONUS_RATES curve (basis points)
+  baseRate: number;
+  // Rate priced from history alone, if there is any (basis points)
+  historicalRate: number | null;
+  // Chance of finishing a challenge of this duration, from history
+  successProbability: number | null;
+  sampleSize: number;
+  utilization: number;
+}
+
+/**
+ * Whether challenges can be quoted for a duration
+ * @param duration Duration in days
+ */
+export function isValidDuration(duration: number): boolean {
+  return Number.isInteger(duration) && duration >= PRICING.MIN_DURATION && duration <= PRICING.MAX_DURATION;
+}
+
+/**
+ * Interpolate the standard BONUS_RATES linearly between their durations
+ * @param duration Duration in days
+ * @returns Rate in basis points
+ */
+export function baseBonusRate(duration: number): number {
+  const anchors = Object.entries(BONUS_RATES)
+    .map(([days, percent]) => [Number(days), percent * 100] as const)
+    .sort((a, b) => a[0] - b[0]);
+
+  if (duration <= anchors[0][0]) return anchors[0][1];
+
+  for (let i = 1; i < anchors.length; i++) {
+    const [toDays, toRate] = anchors[i];
+    if (duration <= toDays) {
+      const [fromDays, fromRate] = anchors[i - 1];
+      return fromRate + ((toRate - fromRate) * (duration - fromDays)) / (toDays - fromDays);
+    }
+  }
+
+  // Past the last anchor, extend the last segment's slope
+  const [lastDays, lastRate] = anchors[anchors.length - 1];
+  const [prevDays, prevRate] = anchors[anchors.length - 2];
+  return lastRate + ((lastRate - prevRate) * (duration - lastDays)) / (lastDays - prevDays);
+}
+
+/**
+ * Fit a constant daily survival probability to finished challenges
+ * Success at duration d is modelled as p^d, so ln(successRate) = d * ln(p); each
+ * duration's observed rate is weighted by its sample size in a least-squares fit.
+ * @param outcomes Finished challenges
+ */
+export function fitDailySurvival(outcomes: Array<{ duration: number; completed: boolean }>): SuccessHistory | null {
+  const groups = new Map<number, { total: number; completed: number }>();
+  for (const { duration, completed } of outcomes) {
+    const group = groups.get(duration) || { total: 0, completed: 0 };
+    group.total++;
+    if (completed) group.completed++;
+    groups.set(duration, group);
+  }
+
+  let numerator = 0;
+  let denominator = 0;
+
+  groups.forEach(({ total, completed }, duration) => {
+    // Keep away from 0 and 1 so a small group can't dominate the log
+    const rate = Math.min(Math.max(completed / total, 0.5 / total), 1 - 0.5 / total);
+    numerator += total * duration * Math.log(rate);
+    denominator += total * duration * duration;
+  });
+
+  if (denominator === 0) return null;
+
+  return { dailySurvival: Math.exp(numerator / denominator), sampleSize: outcomes.length };
+}
+
+/**
+ * Bonus rate at which the vault keeps TARGET_EDGE of expected forfeits
+ * The vault gains the stake when a challenge fails and pays the bonus, net of
+ * the platform fee it gets back, when it succeeds.
+ * @param successProbability Chance of finishing the challenge
+ * @returns Rate in basis points
+ */
+export function fairBonusRate(successProbability: number): number {
+  if (successProbability <= 0) return PRICING.MAX_BONUS_RATE;
+
+  const netOfFee = 1 - PLATFORM_FEE / 100;
+  const rate = ((1 - successProbability) * (1 - PRICING.TARGET_EDGE)) / (successProbability * netOfFee);
+
+  return Math.min(rate * 10000, PRICING.MAX_BONUS_RATE);
+}
+
+/**
+ * Load finished challenges and fit their success rate
+ */
+export async function getSuccessHistory(): Promise<SuccessHistory | null> {
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('duration, status')
+    .in('status', ['completed', 'failed', 'forfeited']);
+
+  if (error) {
+    console.error('Error fetching challenge history:', error);
+    return null;
+  }
+
+  return fitDailySurvival(
+    (data || []).map(row => ({ duration: row.duration, completed: row.status === 'completed' }))
+  );
+}
+
+/**
+ * Quote every duration in the PRICING range
+ * Rates never decrease with duration, so a longer challenge always pays at least as much.
+ * @param inputs History and utilization, loaded when not given
+ */
+export async function quoteBonusRates(inputs: {
+  history?: SuccessHistory | null;
+  utilization?: number;
+} = {}): Promise<BonusQuote[]> {
+  const [history, utilization] = await Promise.all([
+    inputs.history !== undefined ? inputs.history : getSuccessHistory(),
+    inputs.utilization ?? getVaultLiability().then(vault => vault.utilization),
+  ]);
+
+  const historyWeight = history ? history.sampleSize / (history.sampleSize + PRICING.PRIOR_WEIGHT) : 0;
+  const utilizationFactor = 1 - PRICING.UTILIZATION_SENSITIVITY * Math.min(Math.max(utilization, 0), 1);
+
+  const quotes: BonusQuote[] = [];
+  let floor: number = PRICING.MIN_BONUS_RATE;
+
+  for (let duration = PRICING.MIN_DURATION; duration <= PRICING.MAX_DURATION; duration++) {
+    const baseRate = baseBonusRate(duration);
+    const successProbability = history ? history.dailySurvival ** duration : null;
+    const historicalRate = successProbability !== null ? fairBonusRate(successProbability) : null;
+
+    const blended = historicalRate !== null
+      ? historyWeight * historicalRate + (1 - historyWeight) * baseRate
+      : baseRate;
+
+    const rounded = Math.round((blended * utilizationFactor) / PRICING.RATE_STEP) * PRICING.RATE_STEP;
+    const bonusRate = Math.min(Math.max(rounded, floor), PRICING.MAX_BONUS_RATE);
+    floor = bonusRate;
+
+    quotes.push({
+      duration,
+      bonusRate,
+      baseRate: Math.round(baseRate),
+      historicalRate: historicalRate !== null ? Math.round(historicalRate) : null,
+      successProbability,
+      sampleSize: history?.sampleSize ?? 0,
+      utilization,
+    });
+  }
+
+  return quotes;
+}
+
+/**
+ * Read the rate BetItChallenges currently applies to a duration
+ * @param duration Duration in days
+ * @returns Rate in basis points (0 if the duration is not enabled)
+ */
+export async function getOnChainBonusRate(duration: number): Promise<number> {
+  const rate = await publicClient.readContract({
+    address: CONTRACTS.CHALLENGES,
+    abi: BetItChallengesABI,
+    functionName: 'bonusRates',
+    args: [BigInt(duration)],
+  });
+
+  return Number(rate);
+}
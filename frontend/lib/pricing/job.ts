@@ -0,0 +1,77 @@
+import { supabase } from '../supabase/client';
+import { PRICING, SETTLEMENT } from '../contracts/config';
+import { runLeasedJob } from '../jobs/leasedJob';
+import { updateBonusRate, type BonusRateUpdateOutcome } from '../settlement/settlement';
+import { getOnChainBonusRate, quoteBonusRates } from './bonusCurve';
+
+/**
+ * Bonus-rate Sync Job
+ * Quotes every duration and updates BetItChallenges.bonusRates where the
+ * on-chain rate has drifted from the quote by SYNC_TOLERANCE or more.
+ * Durations that are not enabled on-chain yet are always updated.
+ */
+
+export const BONUS_RATE_JOB = 'bonus_rate_sync';
+
+export interface BonusRateSyncResult {
+  status: 'completed' | 'locked' | 'failed';
+  quoted: number;
+  updates: BonusRateUpdateOutcome[];
+  errors: string[];
+}
+
+/**
+ * Quote all durations and push the ones that drifted on-chain
+ */
+export async function runBonusRateSyncJob(): Promise<BonusRateSyncResult> {
+  const result: BonusRateSyncResult = {
+    status: 'completed',
+    quoted: 0,
+    updates: [],
+    errors: [],
+  };
+
+  return runLeasedJob(BONUS_RATE_JOB, result, async job => {
+    const quotes = await quoteBonusRates();
+    result.quoted = quotes.length;
+
+    await job.forEach(quotes, quote => `${quote.duration} days`, async quote => {
+      const onChainRate = await getOnChainBonusRate(quote.duration);
+      const drifted = onChainRate === 0 || Math.abs(onChainRate - quote.bonusRate) >= PRICING.SYNC_TOLERANCE;
+
+      let outcome: BonusRateUpdateOutcome | null = null;
+      if (drifted && SETTLEMENT.OPERATOR_PRIVATE_KEY) {
+        outcome = await updateBonusRate({ duration: quote.duration, bonusRate: quote.bonusRate });
+        result.updates.push(outcome);
+      }
+
+      const { error } = await supabase
+        .from('bonus_rates')
+        .upsert({
+          duration: quote.duration,
+          quoted_rate: quote.bonusRate,
+          on_chain_rate: outcome?.status === 'confirmed' ? quote.bonusRate : onChainRate,
+          sample_size: quote.sampleSize,
+          utilization: Math.min(quote.utilization, 1),
+          quoted_at: new Date().toISOString(),
+          ...(outcome && outcome.status !== 'dry_run' && {
+            sync_tx_hash: outcome.txHash ?? null,
+            sync_error: outcome.status === 'failed' ? outcome.reason ?? null : null,
+            synced_at: outcome.status === 'confirmed' ? new Date().toISOString() : undefined,
+          }),
+        }, { onConflict: 'duration' });
+
+      if (error) {
+        throw new Error(`Failed to store quote: ${error.message}`);
+      }
+
+      if (outcome?.status === 'failed') {
+        result.errors.push(`${quote.duration} days: ${outcome.reason}`);
+      }
+    });
+
+    if (!SETTLEMENT.OPERATOR_PRIVATE_KEY) {
+      console.warn('SETTLEMENT_PRIVATE_KEY is not configured, quotes stored but not synced on-chain');
+    }
+  });
+}
@@ -0,0 +1,97 @@
+import { createPublicClient, http } from 'viem';
+import { supabase } from '../supabase/client';
+import { CONTRACTS, MEGAETH_CHAIN, PLATFORM_FEE, RISK } from '../contracts/config';
+import { BetItVaultABI } from '../contracts/abis';
+
+/**
+ * Vault Liability
+ * Worst-case payouts the vault owes if every active challenge is claimed,
+ * compared against BetItVault.totalAssets()
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+const BASIS_POINTS = BigInt(10000);
+const FEE_BASIS_POINTS = BigInt(PLATFORM_FEE * 100);
+
+export interface VaultLiability {
+  // Vault assets (wei)
+  totalAssets: bigint;
+  // Sum of worst-case payouts over active challenges (wei)
+  liability: bigint;
+  activeChallenges: number;
+  // liability / totalAssets, 1 when the vault is empty and owes something
+  utilization: number;
+  // Further liability the vault can take on before hitting RISK.MAX_UTILIZATION (wei)
+  headroom: bigint;
+}
+
+/**
+ * Payout BetItChallenges.claimReward sends from the vault: stake + bonus - fee
+ * @param stake Stake (wei)
+ * @param bonusRate Bonus rate (basis points)
+ */
+export function worstCasePayout(stake: bigint, bonusRate: number): bigint {
+  const bonus = (stake * BigInt(bonusRate)) / BASIS_POINTS;
+  return stake + bonus - (bonus * FEE_BASIS_POINTS) / BASIS_POINTS;
+}
+
+/**
+ * Largest stake whose worst-case payout fits in the vault's headroom
+ * @param headroom Liability the vault can still take on (wei)
+ * @param bonusRate Bonus rate (basis points)
+ */
+export function maxStakeFor(headroom: bigint, bonusRate: number): bigint {
+  if (headroom <= BigInt(0)) return BigInt(0);
+
+  // Payout per unit of stake, in basis points
+  const payoutRate = BASIS_POINTS + (BigInt(bonusRate) * (BASIS_POINTS - FEE_BASIS_POINTS)) / BASIS_POINTS;
+  let stake = (headroom * BASIS_POINTS) / payoutRate;
+
+  // Integer division in worstCasePayout can round up past the headroom by a few wei
+  while (stake > BigInt(0) && worstCasePayout(stake, bonusRate) > headroom) {
+    stake--;
+  }
+
+  return stake;
+}
+
+/**
+ * Sum the vault's worst-case liability over active challenges
+ * The sum runs in Postgres (vault_liability) with the same integer math as worstCasePayout.
+ */
+export async function getVaultLiability(): Promise<VaultLiability> {
+  const [assets, { data, error }] = await Promise.all([
+    publicClient.readContract({
+      address: CONTRACTS.VAULT,
+      abi: BetItVaultABI,
+      functionName: 'totalAssets',
+    }),
+    supabase.rpc('vault_liability', { platform_fee_bps: PLATFORM_FEE * 100 }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to sum vault liability: ${error.message}`);
+  }
+
+  const row = (data as Array<{ active_challenges: number; liability: string }> | null)?.[0];
+  const liability = BigInt(row?.liability ?? 0);
+
+  const utilization = assets > BigInt(0)
+    ? Number((liability * BASIS_POINTS) / assets) / 10000
+    : liability > BigInt(0) ? 1 : 0;
+
+  const cap = (assets * BigInt(Math.round(RISK.MAX_UTILIZATION * 10000))) / BASIS_POINTS;
+
+  return {
+    totalAssets: assets,
+    liability,
+    activeChallenges: Number(row?.active_challenges ?? 0),
+    utilization,
+    headroom: cap > liability ? cap - liability : BigInt(0),
+  };
+}
@@ -0,0 +1,160 @@
+import { supabase } from '../supabase/client';
+import { getSupabaseAdmin } from '../supabase/admin';
+import { type LeasedJob } from '../jobs/leasedJob';
+import { SETTLEMENT } from '../contracts/config';
+import {
+  getSettlementStatus,
+  settleChallenge,
+  type SettlementAction,
+  type SettlementOutcome,
+} from './settlement';
+
+/**
+ * Settlement Queue
+ * Persists owner-only calls so they survive a missing operator key, a failed
+ * send or a timed-out invocation, and retries them on the next run. The queue
+ * table is service-role only
+ */
+
+type QueueStatus = 'pending' | 'confirmed' | 'skipped' | 'failed';
+
+/**
+ * Why a queued call no longer matches the challenge's recorded state, if it doesn't
+ * Failing is irreversible, so it is only sent for a challenge the pipeline failed
+ * @param action Queued contract call
+ * @param challenge Challenge row, if it exists
+ */
+function staleReason(
+  action: SettlementAction,
+  challenge: { status: string; missed_date: string | null } | undefined
+): string | null {
+  if (!challenge) return 'Challenge not found';
+
+  if (action === 'markChallengeFailed' && (challenge.status !== 'failed' || !challenge.missed_date)) {
+    return `Challenge is ${challenge.status} without a missed day`;
+  }
+
+  if (action === 'verifyStreak' && challenge.status !== 'active') {
+    return `Challenge is ${challenge.status}`;
+  }
+
+  return null;
+}
+
+/**
+ * Queue a settlement call (no-op if the same failure is already queued)
+ * @param challengeId On-chain challenge ID
+ * @param action Contract call to make
+ */
+export async function enqueueSettlement(challengeId: number, action: SettlementAction): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('settlement_queue')
+    .insert({ challenge_id: challengeId, action });
+
+  // 23505 = already queued
+  if (error && error.code !== '23505') {
+    throw new Error(`Failed to queue ${action} for challenge ${challengeId}: ${error.message}`);
+  }
+}
+
+/**
+ * Send pending queued calls
+ * @param job The running job, renewed before each send
+ * @param limit Max calls to send this run
+ */
+export async function processSettlementQueue(job: LeasedJob, limit = 25): Promise<SettlementOutcome[]> {
+  if (!SETTLEMENT.OPERATOR_PRIVATE_KEY) {
+    console.warn('SETTLEMENT_PRIVATE_KEY is not configured, leaving settlement queue pending');
+    return [];
+  }
+
+  const queue = getSupabaseAdmin();
+
+  const { data: pending, error } = await queue
+    .from('settlement_queue')
+    .select('id, challenge_id, action, attempts, tx_hash')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading settlement queue:', error);
+    return [];
+  }
+
+  // Re-check every queued call against the challenge before sending it
+  const { data: challenges, error: challengesError } = await supabase
+    .from('challenges')
+    .select('challenge_id, status, missed_date')
+    .in('challenge_id', (pending || []).map(item => item.challenge_id));
+
+  if (challengesError) {
+    console.error('Error loading queued challenges:', challengesError);
+    return [];
+  }
+
+  const challengeById = new Map((challenges || []).map(challenge => [challenge.challenge_id, challenge]));
+  const outcomes: SettlementOutcome[] = [];
+
+  for (const item of pending || []) {
+    if (!(await job.renew())) break;
+
+    const action = item.action as SettlementAction;
+    const stale = staleReason(action, challengeById.get(item.challenge_id));
+
+    if (stale) {
+      console.warn(`Not sending ${action} for challenge ${item.challenge_id}: ${stale}`);
+
+      const { error: updateError } = await queue
+        .from('settlement_queue')
+        .update({ status: 'skipped', last_error: stale })
+        .eq('id', item.id);
+
+      if (updateError) {
+        console.error(`Error updating settlement queue item ${item.id}:`, updateError);
+      }
+      continue;
+    }
+
+    // A call already sent is looked up, never sent again
+    const outcome: SettlementOutcome = item.tx_hash
+      ? {
+          challengeId: item.challenge_id,
+          action,
+          ...await getSettlementStatus(item.tx_hash).catch(error => ({
+            status: 'pending' as const,
+            txHash: item.tx_hash,
+            reason: error instanceof Error ? error.message : 'Unknown error',
+          })),
+        }
+      : await settleChallenge({ challengeId: item.challenge_id, action });
+    outcomes.push(outcome);
+
+    const attempts = item.attempts + 1;
+    let status: QueueStatus = 'pending';
+
+    if (outcome.status === 'confirmed' || outcome.status === 'skipped') {
+      status = outcome.status;
+    } else if (outcome.status === 'failed' && attempts >= SETTLEMENT.QUEUE_MAX_ATTEMPTS) {
+      status = 'failed';
+    }
+
+    // Dry runs and sent calls stay pending without using an attempt; a failed call
+    // drops its hash so the next run sends it again
+    const { error: updateError } = await queue
+      .from('settlement_queue')
+      .update({
+        status,
+        attempts: outcome.status === 'failed' ? attempts : item.attempts,
+        tx_hash: outcome.status === 'failed' ? null : outcome.txHash ?? null,
+        last_error: outcome.status === 'failed' || outcome.status === 'skipped' ? outcome.reason ?? null : null,
+      })
+      .eq('id', item.id);
+
+    if (updateError) {
+      console.error(`Error updating settlement queue item ${item.id}:`, updateError);
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,404 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  type Address,
+  type Hash,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { CONTRACTS, MEGAETH_CHAIN, SETTLEMENT } from '../contracts/config';
+import { BetItChallengesABI, BetItHeadToHeadABI, BetItSquadsABI } from '../contracts/abis';
+
+/**
+ * On-chain Settlement Service
+ * Turns off-chain verification results into owner-only BetItChallenges, BetItHeadToHead
+ * and BetItSquads calls, and pushes quoted bonus rates to BetItChallenges
+ *
+ * Point SETTLEMENT_RPC_URL at an anvil node started with `--chain-id 4326`
+ * to exercise the full flow locally; test/settlement/settlement.test.ts does so
+ * when ANVIL_RPC_URL is set.
+ */
+
+export type SettlementAction = 'verifyStreak' | 'markChallengeFailed';
+
+export interface SettlementRequest {
+  challengeId: number;
+  action: SettlementAction;
+}
+
+export interface SettlementOutcome {
+  challengeId: number;
+  action: SettlementAction;
+  // pending: sent but not mined yet, look it up with getSettlementStatus instead of resending
+  status: 'confirmed' | 'skipped' | 'dry_run' | 'pending' | 'failed';
+  txHash?: Hash;
+  reason?: string;
+}
+
+export interface H2HSettlementRequest {
+  matchId: number;
+  challengerSurvived: boolean;
+  opponentSurvived: boolean;
+}
+
+export interface H2HSettlementOutcome extends H2HSettlementRequest {
+  status: SettlementOutcome['status'];
+  txHash?: Hash;
+  reason?: string;
+}
+
+export interface SquadSettlementRequest {
+  squadId: number;
+  survivors: Address[];
+}
+
+export interface SquadSettlementOutcome extends SquadSettlementRequest {
+  status: SettlementOutcome['status'];
+  txHash?: Hash;
+  reason?: string;
+}
+
+export interface BonusRateUpdateRequest {
+  duration: number;
+  bonusRate: number;
+}
+
+export interface BonusRateUpdateOutcome extends BonusRateUpdateRequest {
+  status: SettlementOutcome['status'];
+  txHash?: Hash;
+  reason?: string;
+}
+
+type SendResult = Pick<SettlementOutcome, 'status' | 'txHash' | 'reason'>;
+
+// Simulates a call and returns a function that sends it with a given nonce
+type PreparedCall = (wallet: OperatorWallet) => Promise<(nonce: number) => Promise<Hash>>;
+
+type OperatorWallet = ReturnType<typeof createOperatorWallet>;
+
+// Reverts that mean the call is already done (or cannot be done yet), not that it failed
+const IDEMPOTENT_REVERTS: Record<string, string> = {
+  TooEarlyToVerify: 'Already verified within the grace period',
+  ChallengeNotActive: 'Challenge is no longer active on-chain',
+};
+
+const H2H_IDEMPOTENT_REVERTS: Record<string, string> = {
+  MatchNotActive: 'Match is no longer active on-chain',
+};
+
+const SQUAD_IDEMPOTENT_REVERTS: Record<string, string> = {
+  SquadNotActive: 'Squad is no longer active on-chain',
+};
+
+const rpcUrl = SETTLEMENT.RPC_URL || MEGAETH_CHAIN.rpcUrls.default.http[0];
+
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(rpcUrl),
+});
+
+let walletClient: OperatorWallet | null = null;
+
+// Next nonce to use, tracked locally so back-to-back sends don't collide
+let nextNonce: number | null = null;
+
+// Serializes sends so nonces are assigned in order
+let sendQueue: Promise<unknown> = Promise.resolve();
+
+function createOperatorWallet(privateKey: `0x${string}`) {
+  return createWalletClient({
+    account: privateKeyToAccount(privateKey),
+    chain: MEGAETH_CHAIN,
+    transport: http(rpcUrl),
+  });
+}
+
+function getWalletClient() {
+  if (!walletClient) {
+    if (!SETTLEMENT.OPERATOR_PRIVATE_KEY) {
+      throw new Error('SETTLEMENT_PRIVATE_KEY is not configured');
+    }
+    walletClient = createOperatorWallet(SETTLEMENT.OPERATOR_PRIVATE_KEY);
+  }
+  return walletClient;
+}
+
+/**
+ * Reserve the next nonce for the operator account
+ */
+async function reserveNonce(): Promise<number> {
+  if (nextNonce === null) {
+    nextNonce = await publicClient.getTransactionCount({
+      address: getWalletClient().account.address,
+      blockTag: 'pending',
+    });
+  }
+  return nextNonce++;
+}
+
+/**
+ * Run a send after all previously queued sends have settled
+ */
+function enqueueSend<T>(send: () => Promise<T>): Promise<T> {
+  const result = sendQueue.then(send, send);
+  sendQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Extract the custom error name from a contract revert, if any
+ */
+function getRevertName(error: unknown): string | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+
+  const revert = error.walk(e => e instanceof ContractFunctionRevertedError);
+  return revert instanceof ContractFunctionRevertedError ? revert.data?.errorName : undefined;
+}
+
+/**
+ * Whether an error is worth retrying (transport problems, nonce races)
+ */
+function isRetryable(error: unknown): boolean {
+  if (getRevertName(error)) return false;
+
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return ['nonce', 'timeout', 'timed out', 'fetch failed', 'econnreset', 'rate limit', '429', 'underpriced']
+    .some(fragment => message.includes(fragment));
+}
+
+/**
+ * Simulate and broadcast a single owner call
+ * @param prepare Simulates the call and returns its sender
+ * @returns The broadcast hash, or null in dry-run mode
+ */
+async function broadcast(prepare: PreparedCall): Promise<Hash | null> {
+  const wallet = getWalletClient();
+
+  // Simulating first surfaces reverts (including the idempotent ones) without spending gas
+  const send = await prepare(wallet);
+
+  if (SETTLEMENT.DRY_RUN) {
+    return null;
+  }
+
+  return enqueueSend(async () => send(await reserveNonce()));
+}
+
+/**
+ * Look up a broadcast settlement transaction without resending it
+ * @param txHash Hash returned when the call was sent
+ */
+export async function getSettlementStatus(txHash: Hash): Promise<SendResult> {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+    return receipt.status === 'success'
+      ? { status: 'confirmed', txHash }
+      : { status: 'failed', txHash, reason: 'Transaction reverted' };
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+  }
+
+  try {
+    await publicClient.getTransaction({ hash: txHash });
+    return { status: 'pending', txHash, reason: 'Sent, not mined yet' };
+  } catch (error) {
+    // Neither mined nor in the mempool: the node dropped it, so it is safe to send again
+    if (error instanceof TransactionNotFoundError) {
+      return { status: 'failed', txHash, reason: 'Transaction dropped' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wait for a broadcast transaction, never resending it
+ * A timed-out wait keeps waiting on the same hash: a second send could apply the call twice
+ * @param label Subject of the call, for logs
+ * @param txHash Broadcast hash
+ */
+async function confirm(label: string, txHash: Hash): Promise<SendResult> {
+  for (let attempt = 0; attempt <= SETTLEMENT.MAX_RETRIES; attempt++) {
+    try {
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        timeout: SETTLEMENT.RECEIPT_TIMEOUT_MS,
+      });
+
+      return receipt.status === 'success'
+        ? { status: 'confirmed', txHash }
+        : { status: 'failed', txHash, reason: 'Transaction reverted' };
+    } catch (error) {
+      console.warn(`Still waiting for ${label} settlement ${txHash}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return getSettlementStatus(txHash).catch(() => ({
+    status: 'pending' as const,
+    txHash,
+    reason: 'Sent, receipt not found yet',
+  }));
+}
+
+/**
+ * Submit an owner call with retries
+ * Only failures before broadcast are retried; once sent, the call is only waited on
+ * @param label Subject of the call, for logs
+ * @param prepare Simulates the call and returns its sender
+ * @param idempotentReverts Reverts reported as `skipped`
+ */
+async function submitWithRetries(
+  label: string,
+  prepare: PreparedCall,
+  idempotentReverts: Record<string, string>
+): Promise<SendResult> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= SETTLEMENT.MAX_RETRIES; attempt++) {
+    let txHash: Hash | null;
+
+    try {
+      txHash = await broadcast(prepare);
+    } catch (error) {
+      lastError = error;
+
+      const revertName = getRevertName(error);
+      if (revertName && idempotentReverts[revertName]) {
+        return { status: 'skipped', reason: idempotentReverts[revertName] };
+      }
+
+      if (!isRetryable(error)) break;
+
+      // Resync the nonce from the node in case a send was dropped or raced
+      nextNonce = null;
+
+      const delay = 500 * 2 ** attempt;
+      console.warn(`Settlement retry ${attempt + 1} for ${label} in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      continue;
+    }
+
+    return txHash ? confirm(label, txHash) : { status: 'dry_run' };
+  }
+
+  const revertName = getRevertName(lastError);
+  console.error(`Settlement failed for ${label}:`, lastError);
+
+  return {
+    status: 'failed',
+    reason: revertName || (lastError instanceof BaseError ? lastError.shortMessage : 'Unknown error'),
+  };
+}
+
+/**
+ * Settle one challenge on-chain with retries
+ * Idempotent: calls that are already done report `skipped` instead of failing
+ * @param request Challenge and action to settle
+ */
+export async function settleChallenge(request: SettlementRequest): Promise<SettlementOutcome> {
+  const result = await submitWithRetries(`challenge ${request.challengeId}`, async wallet => {
+    const { request: call } = await publicClient.simulateContract({
+      account: wallet.account,
+      address: CONTRACTS.CHALLENGES,
+      abi: BetItChallengesABI,
+      functionName: request.action,
+      args: [BigInt(request.challengeId)],
+    });
+    return nonce => wallet.writeContract({ ...call, nonce });
+  }, IDEMPOTENT_REVERTS);
+
+  return { ...request, ...result };
+}
+
+/**
+ * Settle a head-to-head match on-chain with both participants' results
+ * Idempotent: a match that is already settled reports `skipped`
+ * @param request Match and results
+ */
+export async function settleHeadToHead(request: H2HSettlementRequest): Promise<H2HSettlementOutcome> {
+  const result = await submitWithRetries(`match ${request.matchId}`, async wallet => {
+    const { request: call } = await publicClient.simulateContract({
+      account: wallet.account,
+      address: CONTRACTS.H2H,
+      abi: BetItHeadToHeadABI,
+      functionName: 'settleH2H',
+      args: [BigInt(request.matchId), request.challengerSurvived, request.opponentSurvived],
+    });
+    return nonce => wallet.writeContract({ ...call, nonce });
+  }, H2H_IDEMPOTENT_REVERTS);
+
+  return { ...request, ...result };
+}
+
+/**
+ * Settle a squad on-chain with its surviving members
+ * Idempotent: a squad that is already settled reports `skipped`
+ * @param request Squad and survivors
+ */
+export async function settleSquad(request: SquadSettlementRequest): Promise<SquadSettlementOutcome> {
+  // The contract takes survivors in ascending address order
+  const survivors = [...new Set(request.survivors.map(a => a.toLowerCase() as Address))].sort();
+
+  const result = await submitWithRetries(`squad ${request.squadId}`, async wallet => {
+    const { request: call } = await publicClient.simulateContract({
+      account: wallet.account,
+      address: CONTRACTS.SQUADS,
+      abi: BetItSquadsABI,
+      functionName: 'settleSquad',
+      args: [BigInt(request.squadId), survivors],
+    });
+    return nonce => wallet.writeContract({ ...call, nonce });
+  }, SQUAD_IDEMPOTENT_REVERTS);
+
+  return { ...request, survivors, ...result };
+}
+
+/**
+ * Set the on-chain bonus rate for a duration
+ * @param request Duration and rate (basis points)
+ */
+export async function updateBonusRate(request: BonusRateUpdateRequest): Promise<BonusRateUpdateOutcome> {
+  const result = await submitWithRetries(`bonus rate for ${request.duration} days`, async wallet => {
+    const { request: call } = await publicClient.simulateContract({
+      account: wallet.account,
+      address: CONTRACTS.CHALLENGES,
+      abi: BetItChallengesABI,
+      functionName: 'updateBonusRate',
+      args: [BigInt(request.duration), BigInt(request.bonusRate)],
+    });
+    return nonce => wallet.writeContract({ ...call, nonce });
+  }, {});
+
+  return { ...request, ...result };
+}
+
+/**
+ * Settle a batch of challenges sequentially
+ * @param requests Challenges and actions to settle
+ */
+export async function settleChallenges(requests: SettlementRequest[]): Promise<SettlementOutcome[]> {
+  const outcomes: SettlementOutcome[] = [];
+
+  for (const request of requests) {
+    outcomes.push(await settleChallenge(request));
+  }
+
+  return outcomes;
+}
+
+/**
+ * Push verification results on-chain: verified days advance `lastVerified`
+ * @param results Verification results from the streak verifier
+ */
+export async function settleVerificationResults(
+  results: Array<{ challengeId: number; verified: boolean }>
+): Promise<SettlementOutcome[]> {
+  return settleChallenges(
+    results
+      .filter(result => result.verified)
+      .map(result => ({ challengeId: result.challengeId, action: 'verifyStreak' as const }))
+  );
+}
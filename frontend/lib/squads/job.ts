@@ -0,0 +1,219 @@
+import { type Address } from 'viem';
+import { supabase } from '../supabase/client';
+import { SETTLEMENT } from '../contracts/config';
+import { runLeasedJob, type LeasedJob } from '../jobs/leasedJob';
+import { settleSquad, type SquadSettlementOutcome } from '../settlement/settlement';
+import { checkParticipantStreaks } from '../verification/participantStreaks';
+import { getOnChainSquadMembers, type Squad } from './squads';
+import { calculateSquadPayout } from './standings';
+
+/**
+ * Squad Job
+ * Checks every member of every active squad, records the result once the
+ * squad has ended (or nobody is left) and settles it on-chain.
+ * A decided squad keeps retrying settlement on later runs until it confirms.
+ */
+
+export const SQUAD_JOB = 'squad_settlement';
+
+export interface SquadDecision {
+  squadId: number;
+  survivors: string[];
+  payoutPerSurvivor: string;
+  vaultAmount: string;
+}
+
+export interface SquadJobResult {
+  status: 'completed' | 'locked' | 'failed';
+  checked: number;
+  decided: SquadDecision[];
+  errors: string[];
+  settlement: SquadSettlementOutcome[];
+}
+
+/**
+ * Check a squad's members and store missed days and, once final, the result
+ * @returns The decision, if one was recorded
+ */
+async function checkSquad(squad: Squad, now: Date): Promise<SquadDecision | null> {
+  // Membership comes from the contract, a join missing from the database would
+  // otherwise be settled as a forfeit
+  const members = await getOnChainSquadMembers(squad);
+
+  const { participants, complete, error } = await checkParticipantStreaks({
+    activityTable: 'squad_daily_activity',
+    idColumn: 'squad_id',
+    id: squad.squad_id,
+    startDate: new Date(squad.start_date!),
+    duration: squad.duration,
+    timezone: squad.timezone,
+    participants: members.map(member => ({ address: member.user_address, missedDate: member.missed_date })),
+  }, now);
+
+  // Missed days found before an error are still worth keeping
+  for (const participant of participants) {
+    const member = members.find(m => m.user_address === participant.address);
+    if (!participant.missedDate || member?.missed_date) continue;
+
+    await supabase
+      .from('squad_members')
+      .update({ missed_date: participant.missedDate })
+      .eq('squad_id', squad.squad_id)
+      .eq('user_address', participant.address);
+  }
+
+  if (error) {
+    throw new Error(error);
+  }
+
+  const survivors = participants.filter(p => !p.missedDate).map(p => p.address);
+
+  // With nobody left the result can't change; otherwise survivors have to finish
+  if (!complete && survivors.length > 0) return null;
+
+  const payout = calculateSquadPayout(BigInt(squad.stake_amount), members.length, survivors.length);
+
+  // Guarded so a result is only ever decided once
+  const { data: decided, error: updateError } = await supabase
+    .from('squads')
+    .update({
+      decided_at: new Date().toISOString(),
+      payout_per_survivor: payout.payoutPerSurvivor.toString(),
+      vault_amount: payout.vaultAmount.toString(),
+    })
+    .eq('squad_id', squad.squad_id)
+    .eq('status', 'active')
+    .is('decided_at', null)
+    .select('squad_id');
+
+  if (updateError) {
+    throw new Error(`Failed to update squad ${squad.squad_id}: ${updateError.message}`);
+  }
+
+  if (!decided || decided.length === 0) return null;
+
+  for (const participant of participants) {
+    const survived = !participant.missedDate;
+
+    await supabase
+      .from('squad_members')
+      .update({
+        survived,
+        payout: survived ? payout.payoutPerSurvivor.toString() : '0',
+      })
+      .eq('squad_id', squad.squad_id)
+      .eq('user_address', participant.address);
+  }
+
+  return {
+    squadId: squad.squad_id,
+    survivors,
+    payoutPerSurvivor: payout.payoutPerSurvivor.toString(),
+    vaultAmount: payout.vaultAmount.toString(),
+  };
+}
+
+/**
+ * Send settleSquad for decided squads that are not settled yet
+ * @param job The running job, renewed before each send
+ */
+async function settleDecidedSquads(job: LeasedJob): Promise<SquadSettlementOutcome[]> {
+  if (!SETTLEMENT.OPERATOR_PRIVATE_KEY) {
+    console.warn('SETTLEMENT_PRIVATE_KEY is not configured, leaving squad results unsettled');
+    return [];
+  }
+
+  const { data: decided, error } = await supabase
+    .from('squads')
+    .select('squad_id, settle_attempts, squad_members(user_address, survived)')
+    .eq('status', 'active')
+    .not('decided_at', 'is', null)
+    .lt('settle_attempts', SETTLEMENT.QUEUE_MAX_ATTEMPTS)
+    .order('decided_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading decided squads:', error);
+    return [];
+  }
+
+  const outcomes: SquadSettlementOutcome[] = [];
+
+  for (const squad of decided || []) {
+    if (!(await job.renew())) break;
+
+    const members = (squad.squad_members || []) as Array<{ user_address: string; survived: boolean | null }>;
+
+    const outcome = await settleSquad({
+      squadId: squad.squad_id,
+      survivors: members.filter(member => member.survived).map(member => member.user_address as Address),
+    });
+    outcomes.push(outcome);
+
+    // Dry runs leave the squad unsettled so it is sent once dry-run mode is off
+    if (outcome.status === 'dry_run') continue;
+
+    const settled = outcome.status === 'confirmed' || outcome.status === 'skipped';
+
+    const { error: updateError } = await supabase
+      .from('squads')
+      .update(settled
+        ? {
+            status: 'settled',
+            settled_at: new Date().toISOString(),
+            settle_tx_hash: outcome.txHash ?? null,
+            settle_error: outcome.status === 'skipped' ? outcome.reason ?? null : null,
+          }
+        : {
+            settle_attempts: squad.settle_attempts + 1,
+            settle_tx_hash: outcome.txHash ?? null,
+            settle_error: outcome.reason ?? null,
+          })
+      .eq('squad_id', squad.squad_id);
+
+    if (updateError) {
+      console.error(`Error updating squad ${squad.squad_id}:`, updateError);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Check every active squad and settle the decided ones
+ * @param now Current time
+ */
+export async function runSquadJob(now: Date = new Date()): Promise<SquadJobResult> {
+  const result: SquadJobResult = {
+    status: 'completed',
+    checked: 0,
+    decided: [],
+    errors: [],
+    settlement: [],
+  };
+
+  return runLeasedJob(SQUAD_JOB, result, async job => {
+    const { data: squads, error } = await supabase
+      .from('squads')
+      .select('*')
+      .eq('status', 'active')
+      .is('decided_at', null)
+      .order('squad_id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load active squads: ${error.message}`);
+    }
+
+    await job.forEach((squads || []) as Squad[], squad => `Squad ${squad.squad_id}`, async squad => {
+      result.checked++;
+
+      const decision = await checkSquad(squad, now);
+      if (decision) {
+        result.decided.push(decision);
+        console.log(`Squad ${squad.squad_id} decided: ${decision.survivors.length} survivor(s)`);
+      }
+    });
+
+    // Includes results decided by earlier runs that could not be settled yet
+    result.settlement = await settleDecidedSquads(job);
+  });
+}
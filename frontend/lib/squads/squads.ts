@@ -0,0 +1,313 @@
+import { createPublicClient, http, parseEventLogs, type Address, type Hash } from 'viem';
+import { supabase, type Database } from '../supabase/client';
+import { CONTRACTS, MEGAETH_CHAIN, SQUADS } from '../contracts/config';
+import { BetItSquadsABI } from '../contracts/abis';
+import { DEFAULT_TIMEZONE } from '../verification/days';
+
+/**
+ * Squads
+ * Records BetItSquads creation, joins, starts and cancellations from their
+ * transaction receipts, so rows only ever reflect what happened on-chain
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+export type Squad = Database['public']['Tables']['squads']['Row'];
+export type SquadMember = Database['public']['Tables']['squad_members']['Row'];
+
+type SquadResult = { success: boolean; squad?: Squad; error?: string };
+
+// Every event but Withdrawn, which isn't tied to a squad
+type SquadLog = Exclude<ReturnType<typeof parseEventLogs<typeof BetItSquadsABI>>[number], { eventName: 'Withdrawn' }>;
+
+/**
+ * Load a transaction's BetItSquads events
+ * @param txHash Transaction hash
+ */
+async function getSquadEvents(txHash: Hash): Promise<{ logs?: SquadLog[]; timestamp?: Date; error?: string }> {
+  let receipt;
+  try {
+    receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+  } catch {
+    return { error: 'Transaction not found or not yet mined' };
+  }
+
+  if (receipt.status !== 'success') {
+    return { error: 'Transaction reverted' };
+  }
+
+  const logs = parseEventLogs({
+    abi: BetItSquadsABI,
+    logs: receipt.logs.filter(log => log.address.toLowerCase() === CONTRACTS.SQUADS.toLowerCase()),
+  }).filter((log): log is SquadLog => log.eventName !== 'Withdrawn');
+
+  const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+  return { logs, timestamp: new Date(Number(block.timestamp) * 1000) };
+}
+
+/**
+ * Apply a squad's join, start and cancel events from one transaction
+ * A join that fills the squad also starts it, in the same transaction
+ */
+async function applySquadEvents(squad: Squad, logs: SquadLog[], timestamp: Date, txHash: Hash): Promise<void> {
+  for (const log of logs) {
+    if (Number(log.args.squadId) !== squad.squad_id) continue;
+
+    if (log.eventName === 'SquadJoined') {
+      const { error } = await supabase
+        .from('squad_members')
+        .upsert({
+          squad_id: squad.squad_id,
+          user_address: log.args.member.toLowerCase(),
+          joined_at: timestamp.toISOString(),
+          join_tx_hash: txHash,
+        }, {
+          onConflict: 'squad_id,user_address',
+          ignoreDuplicates: true,
+        });
+
+      if (error) {
+        throw new Error(`Failed to record member of squad ${squad.squad_id}: ${error.message}`);
+      }
+    }
+
+    if (log.eventName === 'SquadStarted') {
+      const startDate = new Date(Number(log.args.startDate) * 1000);
+
+      await supabase
+        .from('squads')
+        .update({
+          status: 'active',
+          start_date: startDate.toISOString(),
+          end_date: new Date(startDate.getTime() + squad.duration * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        .eq('squad_id', squad.squad_id)
+        .eq('status', 'open');
+    }
+
+    if (log.eventName === 'SquadCancelled') {
+      await supabase
+        .from('squads')
+        .update({ status: 'cancelled' })
+        .eq('squad_id', squad.squad_id)
+        .eq('status', 'open');
+    }
+  }
+}
+
+/**
+ * Get a squad by its on-chain ID
+ * @param squadId Squad ID
+ */
+export async function getSquad(squadId: number): Promise<Squad | null> {
+  const { data, error } = await supabase
+    .from('squads')
+    .select('*')
+    .eq('squad_id', squadId)
+    .single();
+
+  if (error || !data) return null;
+  return data as Squad;
+}
+
+/**
+ * Get a squad's members in join order
+ * @param squadId Squad ID
+ */
+export async function getSquadMembers(squadId: number): Promise<SquadMember[]> {
+  const { data, error } = await supabase
+    .from('squad_members')
+    .select('*')
+    .eq('squad_id', squadId)
+    .order('joined_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching squad members:', error);
+    return [];
+  }
+
+  return (data || []) as SquadMember[];
+}
+
+/**
+ * Get a squad's members as the contract records them
+ * Joins the database hasn't seen yet (no receipt reported, indexer behind) are
+ * added first, so survivors are always computed over the full on-chain squad.
+ * @param squad Squad row
+ * @throws If the contract can't be read
+ */
+export async function getOnChainSquadMembers(squad: Squad): Promise<SquadMember[]> {
+  const onChain = await publicClient.readContract({
+    address: CONTRACTS.SQUADS,
+    abi: BetItSquadsABI,
+    functionName: 'getSquadMembers',
+    args: [BigInt(squad.squad_id)],
+  });
+
+  const addresses = onChain.map(address => address.toLowerCase());
+  const known = new Set((await getSquadMembers(squad.squad_id)).map(member => member.user_address));
+  const missing = addresses.filter(address => !known.has(address));
+
+  if (missing.length > 0) {
+    // Every join lands before the start, the indexer fills in the exact time and tx
+    const { error } = await supabase
+      .from('squad_members')
+      .upsert(missing.map(address => ({
+        squad_id: squad.squad_id,
+        user_address: address,
+        joined_at: squad.start_date ?? squad.opened_at,
+        join_tx_hash: null,
+      })), {
+        onConflict: 'squad_id,user_address',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      throw new Error(`Failed to add on-chain members of squad ${squad.squad_id}: ${error.message}`);
+    }
+  }
+
+  const members = await getSquadMembers(squad.squad_id);
+  return members.filter(member => addresses.includes(member.user_address));
+}
+
+/**
+ * List squads, newest first
+ * @param filters.status Only squads with this status
+ * @param filters.member Only squads this address is a member of
+ */
+export async function listSquads(filters: {
+  status?: Squad['status'];
+  member?: Address;
+  limit?: number;
+} = {}): Promise<Array<Squad & { member_count: number }>> {
+  let squadIds: number[] | undefined;
+
+  if (filters.member) {
+    const { data: memberships } = await supabase
+      .from('squad_members')
+      .select('squad_id')
+      .eq('user_address', filters.member.toLowerCase());
+
+    squadIds = (memberships || []).map(row => row.squad_id as number);
+    if (squadIds.length === 0) return [];
+  }
+
+  let query = supabase
+    .from('squads')
+    .select('*, squad_members(count)')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit ?? 50);
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  if (squadIds) {
+    query = query.in('squad_id', squadIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching squads:', error);
+    return [];
+  }
+
+  return (data || []).map(({ squad_members, ...squad }) => ({
+    ...(squad as Squad),
+    member_count: (squad_members as Array<{ count: number }>)?.[0]?.count ?? 0,
+  }));
+}
+
+/**
+ * Record a squad from its createSquad transaction
+ * Members share the creator's timezone
+ * @param txHash createSquad transaction hash
+ * @param name Optional display name
+ */
+export async function recordSquadCreated(txHash: Hash, name?: string): Promise<SquadResult> {
+  const events = await getSquadEvents(txHash);
+  if (events.error || !events.logs || !events.timestamp) {
+    return { success: false, error: events.error };
+  }
+
+  const created = events.logs.find(log => log.eventName === 'SquadCreated');
+  if (!created || created.eventName !== 'SquadCreated') {
+    return { success: false, error: 'Transaction did not create a squad' };
+  }
+
+  const creator = created.args.creator.toLowerCase();
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('timezone')
+    .eq('address', creator)
+    .single();
+
+  const { data, error } = await supabase
+    .from('squads')
+    .insert({
+      squad_id: Number(created.args.squadId),
+      name: name || null,
+      creator_address: creator,
+      stake_amount: created.args.stake.toString(),
+      duration: Number(created.args.duration),
+      max_members: Number(created.args.maxMembers),
+      timezone: profile?.timezone || DEFAULT_TIMEZONE,
+      status: 'open',
+      opened_at: events.timestamp.toISOString(),
+      join_deadline: new Date(events.timestamp.getTime() + SQUADS.JOIN_WINDOW_SECONDS * 1000).toISOString(),
+      tx_hash: txHash,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // The indexer got there first; only the name is ours to add
+    if (error.code === '23505') {
+      const squadId = Number(created.args.squadId);
+      if (name) {
+        await supabase.from('squads').update({ name }).eq('squad_id', squadId).is('name', null);
+      }
+      const existing = await getSquad(squadId);
+      return existing ? { success: true, squad: existing } : { success: false, error: 'Squad already recorded' };
+    }
+    console.error('Error recording squad:', error);
+    return { success: false, error: 'Failed to record squad' };
+  }
+
+  // The creator's own SquadJoined event
+  await applySquadEvents(data as Squad, events.logs, events.timestamp, txHash);
+
+  return { success: true, squad: (await getSquad(Number(created.args.squadId))) ?? (data as Squad) };
+}
+
+/**
+ * Record a joinSquad, startSquad or cancelSquad transaction
+ * @param squadId Squad ID
+ * @param txHash Transaction hash
+ */
+export async function recordSquadTransaction(squadId: number, txHash: Hash): Promise<SquadResult> {
+  const squad = await getSquad(squadId);
+  if (!squad) {
+    return { success: false, error: 'Squad not found' };
+  }
+
+  const events = await getSquadEvents(txHash);
+  if (events.error || !events.logs || !events.timestamp) {
+    return { success: false, error: events.error };
+  }
+
+  if (!events.logs.some(log => Number(log.args.squadId) === squadId)) {
+    return { success: false, error: 'Transaction has no events for this squad' };
+  }
+
+  await applySquadEvents(squad, events.logs, events.timestamp, txHash);
+
+  return { success: true, squad: (await getSquad(squadId)) ?? squad };
+}
@@ -0,0 +1,97 @@
+import { supabase } from '../supabase/client';
+import { SQUADS } from '../contracts/config';
+import { getSquad, getSquadMembers, type Squad } from './squads';
+
+/**
+ * Squad Standings
+ * Live member standings and the payout split, calculated the same way as
+ * BetItSquads.settleSquad
+ */
+
+export interface SquadPayout {
+  // Paid to each survivor, their own stake included (wei)
+  payoutPerSurvivor: bigint;
+  // Vault share of forfeited stakes plus rounding dust (wei)
+  vaultAmount: bigint;
+}
+
+export interface SquadStanding {
+  address: string;
+  rank: number;
+  status: 'alive' | 'failed';
+  verifiedDays: number;
+  missedDate: string | null;
+  // What this member gets if the squad ended with today's survivors (wei)
+  projectedPayout: string;
+}
+
+/**
+ * Split a squad's pool between its survivors and the vault
+ * @param stake Stake per member (wei)
+ * @param memberCount Members in the squad
+ * @param survivorCount Members who kept their streak
+ */
+export function calculateSquadPayout(stake: bigint, memberCount: number, survivorCount: number): SquadPayout {
+  const forfeited = stake * BigInt(memberCount - survivorCount);
+
+  if (survivorCount === 0) {
+    return { payoutPerSurvivor: BigInt(0), vaultAmount: forfeited };
+  }
+
+  const shared = forfeited - (forfeited * BigInt(SQUADS.VAULT_SHARE * 100)) / BigInt(10000);
+  const share = shared / BigInt(survivorCount);
+
+  return {
+    payoutPerSurvivor: stake + share,
+    vaultAmount: forfeited - share * BigInt(survivorCount),
+  };
+}
+
+/**
+ * Rank a squad's members: members still in first, then by verified days
+ * @param squadId Squad ID
+ */
+export async function getSquadStandings(squadId: number): Promise<{
+  squad: Squad;
+  standings: SquadStanding[];
+  payout: SquadPayout;
+} | null> {
+  const squad = await getSquad(squadId);
+  if (!squad) return null;
+
+  const [members, { data: activity }] = await Promise.all([
+    getSquadMembers(squadId),
+    supabase
+      .from('squad_daily_activity')
+      .select('user_address')
+      .eq('squad_id', squadId)
+      .eq('verified', true),
+  ]);
+
+  const verifiedDays = new Map<string, number>();
+  for (const row of activity || []) {
+    verifiedDays.set(row.user_address, (verifiedDays.get(row.user_address) || 0) + 1);
+  }
+
+  // Settled squads use the recorded result, live ones the missed days so far
+  const isAlive = (member: (typeof members)[number]) =>
+    member.survived ?? !member.missed_date;
+
+  const alive = members.filter(isAlive).length;
+  const payout = calculateSquadPayout(BigInt(squad.stake_amount), members.length, alive);
+
+  const standings = members
+    .map(member => ({
+      address: member.user_address,
+      status: isAlive(member) ? 'alive' as const : 'failed' as const,
+      verifiedDays: verifiedDays.get(member.user_address) || 0,
+      missedDate: member.missed_date,
+      projectedPayout: (member.payout ?? (isAlive(member) ? payout.payoutPerSurvivor : BigInt(0))).toString(),
+    }))
+    .sort((a, b) =>
+      (a.status === b.status ? 0 : a.status === 'alive' ? -1 : 1) || b.verifiedDays - a.verifiedDays
+    )
+    .map((standing, i) => ({ ...standing, rank: i + 1 }));
+
+  return { squad, standings, payout };
+}
@@ -0,0 +1,31 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Service-role Supabase client (server only)
+ * For the few calls anon must not be able to make, like functions with
+ * EXECUTE revoked from anon. Created on first use so importing this module
+ * never needs the key.
+ */
+
+let adminClient: SupabaseClient | null = null;
+
+export function getSupabaseAdmin(): SupabaseClient {
+  if (adminClient) {
+    return adminClient;
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+    },
+  });
+
+  return adminClient;
+}
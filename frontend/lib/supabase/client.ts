@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ActivityRules } from '../verification/activityRules';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -26,6 +27,7 @@ export type Database = {
           avatar_url: string | null;
           farcaster_fid: number | null;
           farcaster_username: string | null;
+          timezone: string;
         };
         Insert: Omit<Database['public']['Tables']['users']['Row'], 'created_at' | 'updated_at'>;
         Update: Partial<Database['public']['Tables']['users']['Insert']>;
@@ -44,10 +46,84 @@ export type Database = {
           status: 'active' | 'completed' | 'failed' | 'forfeited';
           tx_hash: string;
           claim_tx_hash: string | null;
+          activity_rules: ActivityRules;
+          timezone: string;
+          missed_date: string | null;
+          failed_at: string | null;
           created_at: string;
           updated_at: string;
         };
       };
+      h2h_challenges: {
+        Row: {
+          id: number;
+          match_id: number;
+          challenger_address: string;
+          opponent_address: string;
+          stake_amount: string;
+          duration: number;
+          timezone: string;
+          status: 'pending' | 'active' | 'settled' | 'cancelled' | 'expired';
+          invited_at: string;
+          expires_at: string;
+          start_date: string | null;
+          end_date: string | null;
+          tx_hash: string;
+          accept_tx_hash: string | null;
+          challenger_missed_date: string | null;
+          opponent_missed_date: string | null;
+          challenger_survived: boolean | null;
+          opponent_survived: boolean | null;
+          winner_address: string | null;
+          decided_at: string | null;
+          settle_tx_hash: string | null;
+          settle_attempts: number;
+          settle_error: string | null;
+          settled_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      squads: {
+        Row: {
+          id: number;
+          squad_id: number;
+          name: string | null;
+          creator_address: string;
+          stake_amount: string;
+          duration: number;
+          max_members: number;
+          timezone: string;
+          status: 'open' | 'active' | 'settled' | 'cancelled';
+          opened_at: string;
+          join_deadline: string;
+          start_date: string | null;
+          end_date: string | null;
+          tx_hash: string;
+          decided_at: string | null;
+          payout_per_survivor: string | null;
+          vault_amount: string | null;
+          settle_tx_hash: string | null;
+          settle_attempts: number;
+          settle_error: string | null;
+          settled_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      squad_members: {
+        Row: {
+          id: number;
+          squad_id: number;
+          user_address: string;
+          joined_at: string;
+          join_tx_hash: string | null;
+          missed_date: string | null;
+          survived: boolean | null;
+          payout: string | null;
+          created_at: string;
+        };
+      };
       lp_positions: {
         Row: {
           address: string;
@@ -0,0 +1,140 @@
+import { type Address } from 'viem';
+
+/**
+ * Activity Rules
+ * Per-challenge requirements a day's activity must meet to count toward the streak
+ */
+
+export type ContractCategory = 'defi' | 'nft' | 'social' | 'gaming' | 'other';
+
+export const CONTRACT_CATEGORIES: ContractCategory[] = ['defi', 'nft', 'social', 'gaming', 'other'];
+
+// Stored as-is in challenges.activity_rules
+export interface ActivityRules {
+  min_tx_count?: number;
+  min_spent_wei?: string; // value + gas fees over qualifying txs (wei)
+  required_categories?: ContractCategory[];
+  min_distinct_contracts?: number;
+}
+
+export type ActivityRuleName = keyof ActivityRules;
+
+// What every challenge without custom rules requires
+export const DEFAULT_ACTIVITY_RULES: ActivityRules = {
+  min_tx_count: 1,
+};
+
+export interface DayActivitySummary {
+  txCount: number;
+  spentWei: bigint;
+  contracts: Address[];
+  categories: ContractCategory[];
+}
+
+export interface RuleEvaluation {
+  passed: boolean;
+  failedRule?: ActivityRuleName;
+  reason?: string;
+}
+
+/**
+ * Validate user-supplied rules (e.g. from a request body)
+ * @param raw Untrusted rules object
+ * @returns Normalized rules, or an error message
+ */
+export function parseActivityRules(raw: unknown): { rules?: ActivityRules; error?: string } {
+  if (raw === undefined || raw === null) {
+    return { rules: DEFAULT_ACTIVITY_RULES };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'activityRules must be an object' };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const rules: ActivityRules = {};
+
+  for (const key of ['min_tx_count', 'min_distinct_contracts'] as const) {
+    if (input[key] === undefined) continue;
+
+    const value = input[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      return { error: `${key} must be a positive integer` };
+    }
+    rules[key] = value;
+  }
+
+  if (input.min_spent_wei !== undefined) {
+    if (typeof input.min_spent_wei !== 'string' || !/^\d+$/.test(input.min_spent_wei)) {
+      return { error: 'min_spent_wei must be a wei amount string' };
+    }
+    rules.min_spent_wei = input.min_spent_wei;
+  }
+
+  if (input.required_categories !== undefined) {
+    const categories = input.required_categories;
+    if (
+      !Array.isArray(categories) ||
+      categories.some(c => !CONTRACT_CATEGORIES.includes(c as ContractCategory))
+    ) {
+      return { error: `required_categories must only contain: ${CONTRACT_CATEGORIES.join(', ')}` };
+    }
+    rules.required_categories = [...new Set(categories as ContractCategory[])];
+  }
+
+  const unknownKeys = Object.keys(input).filter(key => !(key in rules) && input[key] !== undefined);
+  if (unknownKeys.length > 0) {
+    return { error: `Unknown activity rule(s): ${unknownKeys.join(', ')}` };
+  }
+
+  return { rules: Object.keys(rules).length > 0 ? rules : DEFAULT_ACTIVITY_RULES };
+}
+
+/**
+ * Check a day's activity against a challenge's rules
+ * Rules are checked in a fixed order and the first failure is reported
+ * @param rules Challenge rules
+ * @param activity Summary of the day's qualifying activity
+ */
+export function evaluateActivityRules(rules: ActivityRules, activity: DayActivitySummary): RuleEvaluation {
+  const minTxCount = rules.min_tx_count ?? 1;
+  if (activity.txCount < minTxCount) {
+    return {
+      passed: false,
+      failedRule: 'min_tx_count',
+      reason: `${activity.txCount} of ${minTxCount} qualifying transaction(s)`,
+    };
+  }
+
+  if (rules.min_distinct_contracts !== undefined) {
+    const distinct = new Set(activity.contracts.map(c => c.toLowerCase())).size;
+    if (distinct < rules.min_distinct_contracts) {
+      return {
+        passed: false,
+        failedRule: 'min_distinct_contracts',
+        reason: `${distinct} of ${rules.min_distinct_contracts} distinct contract(s)`,
+      };
+    }
+  }
+
+  if (rules.required_categories !== undefined) {
+    const missing = rules.required_categories.filter(c => !activity.categories.includes(c));
+    if (missing.length > 0) {
+      return {
+        passed: false,
+        failedRule: 'required_categories',
+        reason: `Missing ${missing.join(', ')} activity`,
+      };
+    }
+  }
+
+  if (rules.min_spent_wei !== undefined && activity.spentWei < BigInt(rules.min_spent_wei)) {
+    return {
+      passed: false,
+      failedRule: 'min_spent_wei',
+      reason: `Spent ${activity.spentWei} of ${rules.min_spent_wei} wei`,
+    };
+  }
+
+  return { passed: true };
+}
@@ -0,0 +1,117 @@
+import { createPublicClient, http } from 'viem';
+import { MEGAETH_CHAIN } from '../contracts/config';
+import { getDayWindow } from './days';
+
+/**
+ * Block Resolver
+ * Maps timestamps to block numbers so verification can scan exact day windows
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+// Block number -> block timestamp (seconds)
+const blockTimestampCache = new Map<bigint, bigint>();
+
+// Timestamp (seconds) -> first block mined at or after it
+const resolvedBlockCache = new Map<bigint, bigint>();
+
+export interface BlockRange {
+  fromBlock: bigint;
+  toBlock: bigint;
+  // False while the window is still open (toBlock is the current head)
+  complete: boolean;
+}
+
+/**
+ * Get a block's timestamp, using the cache when possible
+ * @param blockNumber Block number
+ */
+async function getBlockTimestamp(blockNumber: bigint): Promise<bigint> {
+  const cached = blockTimestampCache.get(blockNumber);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const block = await publicClient.getBlock({ blockNumber });
+  blockTimestampCache.set(blockNumber, block.timestamp);
+  return block.timestamp;
+}
+
+/**
+ * Find the first block whose timestamp is >= the given timestamp
+ * Binary searches between genesis and `latestBlock`
+ * @param timestamp Unix timestamp in seconds
+ * @param latestBlock Current head block number
+ * @returns Block number, or null if no such block has been mined yet
+ */
+export async function findBlockAtOrAfter(
+  timestamp: bigint,
+  latestBlock: bigint
+): Promise<bigint | null> {
+  const cached = resolvedBlockCache.get(timestamp);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  if ((await getBlockTimestamp(latestBlock)) < timestamp) {
+    return null;
+  }
+
+  let low = BigInt(0);
+  let high = latestBlock;
+
+  while (low < high) {
+    const mid = (low + high) / BigInt(2);
+
+    if ((await getBlockTimestamp(mid)) < timestamp) {
+      low = mid + BigInt(1);
+    } else {
+      high = mid;
+    }
+  }
+
+  resolvedBlockCache.set(timestamp, low);
+  return low;
+}
+
+/**
+ * Resolve the inclusive block range mined within [start, end)
+ * @param start Window start
+ * @param end Window end (exclusive)
+ * @returns Block range, or null if the window has not started yet
+ */
+export async function getBlockRangeForWindow(
+  start: Date,
+  end: Date
+): Promise<BlockRange | null> {
+  const startTimestamp = BigInt(Math.floor(start.getTime() / 1000));
+  const endTimestamp = BigInt(Math.floor(end.getTime() / 1000));
+
+  const latestBlock = await publicClient.getBlockNumber();
+
+  const fromBlock = await findBlockAtOrAfter(startTimestamp, latestBlock);
+  if (fromBlock === null) {
+    return null;
+  }
+
+  const nextWindowBlock = await findBlockAtOrAfter(endTimestamp, latestBlock);
+  if (nextWindowBlock === null) {
+    return { fromBlock, toBlock: latestBlock, complete: false };
+  }
+
+  return { fromBlock, toBlock: nextWindowBlock - BigInt(1), complete: true };
+}
+
+/**
+ * Resolve the inclusive block range for a streak day
+ * @param dayKey Day key (YYYY-MM-DD)
+ * @param timeZone Timezone the day is defined in
+ */
+export async function getBlockRangeForDay(dayKey: string, timeZone: string): Promise<BlockRange | null> {
+  const { start, end } = getDayWindow(dayKey, timeZone);
+  return getBlockRangeForWindow(start, end);
+}
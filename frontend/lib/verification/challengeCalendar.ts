@@ -0,0 +1,123 @@
+import { supabase } from '../supabase/client';
+import { GRACE_PERIOD } from '../contracts/config';
+import { type ActivityRuleName } from './activityRules';
+import { DEFAULT_TIMEZONE, getChallengeDays, getDayWindow } from './days';
+import { type ContractUsage } from './streakVerifier';
+
+/**
+ * Challenge Calendar
+ * Every day of a challenge with its outcome and the activity behind it, from
+ * daily_activity. A day stays pending until its grace period ends.
+ */
+
+// void: after a challenge ended early (failed or forfeited)
+export type DayStatus = 'verified' | 'missed' | 'pending' | 'frozen' | 'void';
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD in the challenge's timezone
+  status: DayStatus;
+  txCount: number;
+  contractsUsed: ContractUsage[];
+  // Rule the day's activity fell short of, if any
+  failedRule: ActivityRuleName | null;
+  verifiedAt: string | null;
+  // End of the day plus the grace period: the last moment activity can still count
+  closesAt: string;
+}
+
+export interface ChallengeCalendar {
+  challengeId: number;
+  userAddress: string;
+  status: 'active' | 'completed' | 'failed' | 'forfeited';
+  timezone: string;
+  duration: number;
+  days: CalendarDay[];
+  summary: Record<DayStatus, number>;
+}
+
+/**
+ * Build a challenge's calendar
+ * @param challengeId On-chain challenge ID
+ * @param now Current time
+ * @returns Calendar, or null if the challenge doesn't exist
+ */
+export async function getChallengeCalendar(
+  challengeId: number,
+  now: Date = new Date()
+): Promise<ChallengeCalendar | null> {
+  const { data: challenge, error } = await supabase
+    .from('challenges')
+    .select('challenge_id, user_address, status, start_date, duration, timezone, missed_date, failed_at, updated_at')
+    .eq('challenge_id', challengeId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load challenge: ${error.message}`);
+  }
+
+  if (!challenge) return null;
+
+  const { data: activity, error: activityError } = await supabase
+    .from('daily_activity')
+    .select('date, tx_count, contracts_used, verified, frozen, failed_rule, verified_at')
+    .eq('challenge_id', challengeId);
+
+  if (activityError) {
+    throw new Error(`Failed to load daily activity: ${activityError.message}`);
+  }
+
+  const rows = new Map((activity || []).map(row => [row.date as string, row]));
+  const timezone = challenge.timezone || DEFAULT_TIMEZONE;
+
+  // A challenge that ended early has no days after the one it failed on (or after it was forfeited)
+  const endedAt = challenge.status === 'forfeited'
+    ? new Date(challenge.updated_at).getTime()
+    : challenge.status === 'failed' && !challenge.missed_date
+      ? new Date(challenge.failed_at || challenge.updated_at).getTime()
+      : null;
+
+  const summary: Record<DayStatus, number> = { verified: 0, missed: 0, pending: 0, frozen: 0, void: 0 };
+
+  const days = getChallengeDays(new Date(challenge.start_date), challenge.duration, timezone).map(date => {
+    const row = rows.get(date);
+    const window = getDayWindow(date, timezone);
+    const closesAt = window.end.getTime() + GRACE_PERIOD * 1000;
+
+    let status: DayStatus;
+    if (row?.verified) {
+      status = 'verified';
+    } else if (row?.frozen) {
+      status = 'frozen';
+    } else if (challenge.missed_date && date > challenge.missed_date) {
+      status = 'void';
+    } else if (endedAt !== null && window.start.getTime() >= endedAt) {
+      status = 'void';
+    } else if (date === challenge.missed_date || closesAt <= now.getTime()) {
+      status = 'missed';
+    } else {
+      status = 'pending';
+    }
+
+    summary[status]++;
+
+    return {
+      date,
+      status,
+      txCount: row?.tx_count ?? 0,
+      contractsUsed: (row?.contracts_used as ContractUsage[] | null) ?? [],
+      failedRule: (row?.failed_rule as ActivityRuleName | null) ?? null,
+      verifiedAt: row?.verified_at ?? null,
+      closesAt: new Date(closesAt).toISOString(),
+    };
+  });
+
+  return {
+    challengeId,
+    userAddress: challenge.user_address,
+    status: challenge.status,
+    timezone,
+    duration: challenge.duration,
+    days,
+    summary,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Streak Days
+ * The single definition of a "day" for streaks. A day is a calendar date in the
+ * challenge's IANA timezone (frozen at creation), identified by its YYYY-MM-DD
+ * key as stored in daily_activity.date. Days are not always 24 hours long:
+ * windows are computed from local midnights, so DST transitions are handled.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Intl formatters are expensive to build, keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }));
+  }
+  return formatters.get(timeZone)!;
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+function getLocalParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+}
+
+/**
+ * Offset of a timezone from UTC at an instant (ms, positive east of UTC)
+ */
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getLocalParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Whether a string is an IANA timezone this runtime knows (e.g. "Europe/Berlin")
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a string is a YYYY-MM-DD day key
+ */
+export function isDayKey(value: unknown): value is string {
+  return typeof value === 'string' && DAY_KEY_PATTERN.test(value);
+}
+
+/**
+ * Key of the day containing `date` in `timeZone`
+ * @param date Any instant
+ * @param timeZone IANA timezone
+ */
+export function getDayKey(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const p = getLocalParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Calendar arithmetic on day keys
+ * @param dayKey YYYY-MM-DD
+ * @param days Days to add (may be negative)
+ */
+export function addDays(dayKey: string, days: number): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Instant of local midnight starting a day
+ */
+function startOfDay(dayKey: string, timeZone: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day);
+
+  // The offset at midnight can differ from the offset at the first guess around DST changes
+  const guess = wallClock - getOffsetMs(new Date(wallClock), timeZone);
+  const instant = wallClock - getOffsetMs(new Date(guess), timeZone);
+
+  // Where a DST change skips midnight, the day starts at the end of the gap
+  return new Date(getDayKey(new Date(instant), timeZone) === dayKey ? instant : guess);
+}
+
+/**
+ * Half-open [start, end) window of a day in a timezone
+ * @param dayKey YYYY-MM-DD
+ * @param timeZone IANA timezone
+ */
+export function getDayWindow(dayKey: string, timeZone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } {
+  return {
+    start: startOfDay(dayKey, timeZone),
+    end: startOfDay(addDays(dayKey, 1), timeZone),
+  };
+}
+
+/**
+ * Resolve a day from either a key or an instant
+ * @param day YYYY-MM-DD key, or any instant within the day
+ * @param timeZone IANA timezone
+ */
+export function resolveDayKey(day: Date | string, timeZone: string = DEFAULT_TIMEZONE): string {
+  return typeof day === 'string' && isDayKey(day) ? day : getDayKey(new Date(day), timeZone);
+}
+
+/**
+ * The days a challenge requires activity on: the start day and each day after it,
+ * one per day of the challenge's duration
+ * @param startDate Challenge start
+ * @param duration Duration in days
+ * @param timeZone Challenge timezone
+ */
+export function getChallengeDays(startDate: Date, duration: number, timeZone: string = DEFAULT_TIMEZONE): string[] {
+  const firstDay = getDayKey(startDate, timeZone);
+  return Array.from({ length: duration }, (_, i) => addDays(firstDay, i));
+}
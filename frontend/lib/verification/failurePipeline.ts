@@ -0,0 +1,128 @@
+import { supabase } from '../supabase/client';
+import { CONTRACTS } from '../contracts/config';
+import { runLeasedJob } from '../jobs/leasedJob';
+import { enqueueSettlement, processSettlementQueue } from '../settlement/queue';
+import { type SettlementOutcome } from '../settlement/settlement';
+import { checkChallengeStatus } from './streakVerifier';
+
+/**
+ * Streak Failure Pipeline
+ * Finds active challenges with a missed day not covered by a streak freeze and fails them end to end:
+ * database status, transactions_log record and the on-chain markChallengeFailed call
+ */
+
+export const FAILURE_JOB = 'streak_failures';
+
+export interface FailedChallenge {
+  challengeId: number;
+  missedDate: string;
+  reason: string;
+}
+
+export interface FailurePipelineResult {
+  status: 'completed' | 'locked' | 'failed';
+  checked: number;
+  failed: FailedChallenge[];
+  // Missed days covered by a streak freeze instead
+  frozen: Array<{ challengeId: number; dates: string[] }>;
+  errors: string[];
+  settlement: SettlementOutcome[];
+}
+
+/**
+ * Fail a challenge in the database and queue its on-chain settlement
+ * @returns False if the challenge was no longer active
+ */
+async function failChallenge(
+  challenge: { challenge_id: number; user_address: string; stake_amount: string },
+  missedDate: string,
+  reason: string
+): Promise<boolean> {
+  const failedAt = new Date().toISOString();
+
+  // Guarded on status so a concurrent claim or forfeit wins
+  const { data: updated, error } = await supabase
+    .from('challenges')
+    .update({ status: 'failed', missed_date: missedDate, failed_at: failedAt })
+    .eq('challenge_id', challenge.challenge_id)
+    .eq('status', 'active')
+    .select('challenge_id');
+
+  if (error) {
+    throw new Error(`Failed to update challenge ${challenge.challenge_id}: ${error.message}`);
+  }
+
+  if (!updated || updated.length === 0) return false;
+
+  // Off-chain record of the decision; the indexer adds the on-chain ChallengeForfeit row later
+  const { error: logError } = await supabase
+    .from('transactions_log')
+    .insert({
+      tx_hash: null,
+      log_index: null,
+      timestamp: failedAt,
+      from_address: challenge.user_address,
+      to_address: CONTRACTS.CHALLENGES.toLowerCase(),
+      type: 'challenge_failed',
+      challenge_id: challenge.challenge_id,
+      amount: challenge.stake_amount,
+      metadata: { missed_date: missedDate, reason },
+    });
+
+  // 23505 = already logged by an earlier attempt
+  if (logError && logError.code !== '23505') {
+    console.error(`Error logging failure of challenge ${challenge.challenge_id}:`, logError);
+  }
+
+  await enqueueSettlement(challenge.challenge_id, 'markChallengeFailed');
+  return true;
+}
+
+/**
+ * Check every active challenge for a missed day, fail the ones that broke their
+ * streak and send queued markChallengeFailed calls
+ * @param now Current time
+ */
+export async function runFailurePipeline(now: Date = new Date()): Promise<FailurePipelineResult> {
+  const result: FailurePipelineResult = {
+    status: 'completed',
+    checked: 0,
+    failed: [],
+    frozen: [],
+    errors: [],
+    settlement: [],
+  };
+
+  return runLeasedJob(FAILURE_JOB, result, async job => {
+    const { data: challenges, error } = await supabase
+      .from('challenges')
+      .select('challenge_id, user_address, stake_amount')
+      .eq('status', 'active')
+      .order('challenge_id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load active challenges: ${error.message}`);
+    }
+
+    await job.forEach(challenges || [], challenge => `Challenge ${challenge.challenge_id}`, async challenge => {
+      result.checked++;
+
+      const status = await checkChallengeStatus(challenge.challenge_id, now);
+
+      if (status.frozenDates && status.frozenDates.length > 0) {
+        result.frozen.push({ challengeId: challenge.challenge_id, dates: status.frozenDates });
+      }
+
+      if (!status.shouldFail || !status.missedDate) return;
+
+      const reason = status.reason || `Missed ${status.missedDate}`;
+      if (await failChallenge(challenge, status.missedDate, reason)) {
+        result.failed.push({ challengeId: challenge.challenge_id, missedDate: status.missedDate, reason });
+        console.log(`✗ Challenge ${challenge.challenge_id} failed: ${reason}`);
+      }
+    });
+
+    // Includes calls queued by earlier runs that could not be sent yet
+    result.settlement = await processSettlementQueue(job);
+  });
+}
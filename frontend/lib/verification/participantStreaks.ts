@@ -0,0 +1,144 @@
+import { type Address } from 'viem';
+import { supabase } from '../supabase/client';
+import { GRACE_PERIOD } from '../contracts/config';
+import { DEFAULT_ACTIVITY_RULES } from './activityRules';
+import { getChallengeDays, getDayWindow } from './days';
+import { evaluateDailyActivity } from './streakVerifier';
+
+/**
+ * Participant Streaks
+ * Day-by-day tracking for challenges with several participants (head-to-head
+ * matches and squads), with the same activity evaluation as solo challenges.
+ * These use the default activity rules and have no streak freezes: the first
+ * missed day breaks a participant's streak.
+ */
+
+export interface ParticipantStreak {
+  address: string;
+  verifiedDays: number;
+  missedDate?: string; // YYYY-MM-DD
+}
+
+export interface ParticipantStreaksStatus {
+  participants: ParticipantStreak[];
+  // Every day of the challenge has closed (ended plus GRACE_PERIOD)
+  complete: boolean;
+  error?: string;
+}
+
+export interface MultiParticipantChallenge {
+  // Per-participant activity table and the column holding the challenge's ID
+  activityTable: 'h2h_daily_activity' | 'squad_daily_activity';
+  idColumn: 'match_id' | 'squad_id';
+  id: number;
+  startDate: Date;
+  duration: number;
+  timezone: string;
+  // Missed dates already recorded are not checked again
+  participants: Array<{ address: string; missedDate?: string | null }>;
+}
+
+/**
+ * Verify one participant's day and store it in the challenge's activity table
+ * @returns Whether the day verified, or an error when it could not be checked
+ */
+async function verifyParticipantDay(
+  challenge: MultiParticipantChallenge,
+  address: string,
+  dayKey: string
+): Promise<{ verified: boolean; error?: string }> {
+  const result = await evaluateDailyActivity(address as Address, dayKey, {
+    rules: DEFAULT_ACTIVITY_RULES,
+    timezone: challenge.timezone,
+  });
+
+  if (!result.success) {
+    return { verified: false, error: result.error };
+  }
+
+  const { error } = await supabase
+    .from(challenge.activityTable)
+    .upsert({
+      [challenge.idColumn]: challenge.id,
+      user_address: address,
+      date: dayKey,
+      tx_count: result.txCount,
+      contracts_used: result.contractsUsed,
+      verified: result.verified,
+      failed_rule: result.failedRule ?? null,
+      verified_at: result.verified ? new Date().toISOString() : null,
+    }, {
+      onConflict: `${challenge.idColumn},user_address,date`
+    });
+
+  if (error) {
+    console.error(`Error updating ${challenge.activityTable}:`, error);
+  }
+
+  return { verified: result.verified };
+}
+
+/**
+ * Walk the closed days of a challenge for every participant still in it
+ * @param challenge Challenge and its participants
+ * @param now Current time
+ */
+export async function checkParticipantStreaks(
+  challenge: MultiParticipantChallenge,
+  now: Date = new Date()
+): Promise<ParticipantStreaksStatus> {
+  const { data: activity, error } = await supabase
+    .from(challenge.activityTable)
+    .select('user_address, date, verified')
+    .eq(challenge.idColumn, challenge.id);
+
+  if (error) {
+    throw new Error(`Failed to load activity for ${challenge.idColumn} ${challenge.id}: ${error.message}`);
+  }
+
+  const verified = new Set(
+    (activity || []).filter(row => row.verified).map(row => `${row.user_address}:${row.date}`)
+  );
+
+  const participants: ParticipantStreak[] = challenge.participants.map(participant => ({
+    address: participant.address,
+    verifiedDays: 0,
+    missedDate: participant.missedDate ?? undefined,
+  }));
+
+  const days = getChallengeDays(challenge.startDate, challenge.duration, challenge.timezone);
+  let closedDays = 0;
+
+  for (const dateKey of days) {
+    const closesAt = getDayWindow(dateKey, challenge.timezone).end.getTime() + GRACE_PERIOD * 1000;
+    if (closesAt > now.getTime()) break;
+    closedDays++;
+
+    for (const participant of participants) {
+      if (participant.missedDate) continue;
+
+      if (verified.has(`${participant.address}:${dateKey}`)) {
+        participant.verifiedDays++;
+        continue;
+      }
+
+      const result = await verifyParticipantDay(challenge, participant.address, dateKey);
+
+      if (result.error) {
+        return {
+          participants,
+          complete: false,
+          error: `Could not verify ${participant.address} on ${dateKey}: ${result.error}`,
+        };
+      }
+
+      if (result.verified) {
+        participant.verifiedDays++;
+      } else {
+        participant.missedDate = dateKey;
+      }
+    }
+  }
+
+  return { participants, complete: closedDays === days.length };
+}
@@ -0,0 +1,241 @@
+import { type Address, type Hash } from 'viem';
+import {
+  TransactionSourceError,
+  type ContractInteraction,
+  type FetchOptions,
+  type SourceTransaction,
+  type TransactionFetchResult,
+  type TransactionSource,
+} from './types';
+
+/**
+ * Blockscout Transaction Source
+ * Reads a user's activity from the Etherscan-compatible account API
+ * (`txlist`, `txlistinternal`, `tokentx`)
+ */
+
+interface BlockscoutOptions {
+  apiUrl: string;
+  apiKey?: string;
+  // Rows requested per page
+  pageSize?: number;
+  // Max user transactions whose internal calls are looked up one by one
+  maxInternalLookups?: number;
+}
+
+// Blockscout answers an empty result with status '0' and this message
+const NO_RESULTS_MESSAGES = ['No transactions found', 'No internal transactions found', 'No token transfers found'];
+
+const DEFAULT_PAGE_SIZE = 1000;
+const DEFAULT_MAX_INTERNAL_LOOKUPS = 50;
+
+interface BlockscoutRow {
+  hash: Hash;
+  from: Address;
+  to: Address | null;
+  contractAddress: Address | null;
+  blockNumber: bigint;
+  value: bigint;
+  fee: bigint | null;
+}
+
+export function createBlockscoutSource({
+  apiUrl,
+  apiKey,
+  pageSize = DEFAULT_PAGE_SIZE,
+  maxInternalLookups = DEFAULT_MAX_INTERNAL_LOOKUPS,
+}: BlockscoutOptions): TransactionSource {
+  /**
+   * Call an account API action and return its rows
+   */
+  async function request(params: Record<string, string>): Promise<BlockscoutRow[]> {
+    const query = new URLSearchParams({ module: 'account', ...params });
+
+    if (apiKey) {
+      query.set('apikey', apiKey);
+    }
+
+    let data: any;
+    try {
+      const response = await fetch(`${apiUrl}?${query}`);
+
+      if (!response.ok) {
+        throw new TransactionSourceError('blockscout', `HTTP ${response.status}`);
+      }
+
+      data = await response.json();
+    } catch (error) {
+      if (error instanceof TransactionSourceError) throw error;
+      throw new TransactionSourceError(
+        'blockscout',
+        error instanceof Error ? error.message : 'Request failed'
+      );
+    }
+
+    if (data.status !== '1') {
+      if (NO_RESULTS_MESSAGES.includes(data.message)) {
+        return [];
+      }
+      throw new TransactionSourceError('blockscout', data.message || 'Unexpected API response');
+    }
+
+    if (!Array.isArray(data.result)) {
+      throw new TransactionSourceError('blockscout', `Malformed ${params.action} result`);
+    }
+
+    return data.result.map((row: any) => ({
+      // Internal transaction rows name the parent hash `transactionHash`
+      hash: (row.hash || row.transactionHash) as Hash,
+      from: row.from as Address,
+      to: row.to ? (row.to as Address) : null,
+      contractAddress: row.contractAddress ? (row.contractAddress as Address) : null,
+      blockNumber: BigInt(row.blockNumber),
+      value: BigInt(row.value || 0),
+      fee: row.gasUsed && row.gasPrice ? BigInt(row.gasUsed) * BigInt(row.gasPrice) : null,
+    }));
+  }
+
+  /**
+   * Page through an address-scoped action over an inclusive block window
+   * Walks forward by block, only paging within a block that fills a whole page
+   */
+  async function fetchAll(
+    action: string,
+    address: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    maxRows?: number
+  ): Promise<{ rows: BlockscoutRow[]; truncated: boolean }> {
+    const rows: BlockscoutRow[] = [];
+    // Rows from the cursor block repeat across requests
+    const seen = new Set<string>();
+
+    let cursorBlock = fromBlock;
+    let page = 1;
+
+    while (cursorBlock <= toBlock) {
+      const pageRows = await request({
+        action,
+        address,
+        startblock: cursorBlock.toString(),
+        endblock: toBlock.toString(),
+        page: page.toString(),
+        offset: pageSize.toString(),
+        sort: 'asc',
+      });
+
+      for (const row of pageRows) {
+        const key = `${row.hash}:${row.from}:${row.to}:${row.contractAddress}`;
+        if (seen.has(key) || row.blockNumber > toBlock) continue;
+
+        seen.add(key);
+        rows.push(row);
+
+        if (maxRows !== undefined && rows.length >= maxRows) {
+          return { rows, truncated: true };
+        }
+      }
+
+      // A short page means the window is exhausted
+      if (pageRows.length < pageSize) break;
+
+      const lastBlock = pageRows[pageRows.length - 1].blockNumber;
+      if (lastBlock > cursorBlock) {
+        cursorBlock = lastBlock;
+        page = 1;
+      } else {
+        page++;
+      }
+    }
+
+    return { rows, truncated: false };
+  }
+
+  return {
+    name: 'blockscout',
+
+    async getTransactions(
+      address: Address,
+      fromBlock: bigint,
+      toBlock: bigint,
+      { maxTransactions }: FetchOptions = {}
+    ): Promise<TransactionFetchResult> {
+      const { rows, truncated } = await fetchAll('txlist', address, fromBlock, toBlock, maxTransactions);
+
+      return {
+        transactions: rows.map(({ hash, from, to, blockNumber, value, fee }) => ({
+          hash,
+          from,
+          to,
+          blockNumber,
+          value,
+          fee,
+        })),
+        truncated,
+      };
+    },
+
+    async getIndirectInteractions(
+      address: Address,
+      fromBlock: bigint,
+      toBlock: bigint,
+      transactions: SourceTransaction[],
+      contracts: Address[]
+    ): Promise<ContractInteraction[]> {
+      const verified = new Set(contracts.map(c => c.toLowerCase()));
+      const user = address.toLowerCase();
+      const userTxHashes = new Set(transactions.map(tx => tx.hash.toLowerCase()));
+      const interactions: ContractInteraction[] = [];
+
+      // Internal calls made by the user's own account (smart accounts, ERC-4337)
+      const { rows: ownInternal } = await fetchAll('txlistinternal', address, fromBlock, toBlock);
+      for (const row of ownInternal) {
+        if (row.from.toLowerCase() === user && row.to && verified.has(row.to.toLowerCase())) {
+          interactions.push({ txHash: row.hash, contract: row.to, kind: 'internal', blockNumber: row.blockNumber });
+        }
+      }
+
+      // Internal calls nested under transactions the user sent through routers or multicalls
+      const routed = transactions
+        .filter(tx => tx.from.toLowerCase() === user && !(tx.to && verified.has(tx.to.toLowerCase())))
+        .slice(0, maxInternalLookups);
+
+      for (const tx of routed) {
+        const calls = await request({ action: 'txlistinternal', txhash: tx.hash });
+        for (const call of calls) {
+          if (call.to && verified.has(call.to.toLowerCase())) {
+            interactions.push({ txHash: tx.hash, contract: call.to, kind: 'internal', blockNumber: tx.blockNumber });
+          }
+        }
+      }
+
+      // ERC-20 transfers out of the wallet (e.g. Permit2 pulls), or into it from a
+      // transaction the user sent. Anyone can send the wallet tokens, so an
+      // incoming transfer alone is not the user's activity
+      const { rows: transfers } = await fetchAll('tokentx', address, fromBlock, toBlock);
+      for (const transfer of transfers) {
+        if (transfer.from.toLowerCase() !== user && !userTxHashes.has(transfer.hash.toLowerCase())) continue;
+
+        const counterparty = transfer.from.toLowerCase() === user ? transfer.to : transfer.from;
+
+        if (transfer.contractAddress && verified.has(transfer.contractAddress.toLowerCase())) {
+          interactions.push({
+            txHash: transfer.hash,
+            contract: transfer.contractAddress,
+            kind: 'token_transfer',
+            blockNumber: transfer.blockNumber,
+          });
+        } else if (counterparty && verified.has(counterparty.toLowerCase())) {
+          interactions.push({
+            txHash: transfer.hash,
+            contract: counterparty,
+            kind: 'token_transfer',
+            blockNumber: transfer.blockNumber,
+          });
+        }
+      }
+
+      return interactions;
+    },
+  };
+}
@@ -0,0 +1,263 @@
+import { readFileSync } from 'fs';
+import { isAddress, isHash, type Address, type Hash } from 'viem';
+import {
+  TransactionSourceError,
+  type ContractInteraction,
+  type FetchOptions,
+  type SourceTransaction,
+  type TransactionFetchResult,
+  type TransactionSource,
+} from './types';
+
+/**
+ * Fixture Transaction Source
+ * Serves transactions from memory so the verifier can run fully offline
+ */
+
+export interface FixtureInternalCall {
+  txHash: Hash;
+  from: Address;
+  to: Address;
+  blockNumber: bigint;
+}
+
+export interface FixtureTokenTransfer {
+  txHash: Hash;
+  token: Address;
+  from: Address;
+  to: Address;
+  blockNumber: bigint;
+}
+
+export interface FixtureData {
+  transactions: SourceTransaction[];
+  internalCalls?: FixtureInternalCall[];
+  tokenTransfers?: FixtureTokenTransfer[];
+}
+
+// JSON shape of a fixture file: block numbers and wei amounts are numbers or decimal strings
+type JsonBigInt = number | string;
+
+interface FixtureFile {
+  transactions?: Array<{
+    hash: Hash;
+    from: Address;
+    to?: Address | null;
+    blockNumber: JsonBigInt;
+    value?: JsonBigInt | null;
+    fee?: JsonBigInt | null;
+  }>;
+  internalCalls?: Array<Omit<FixtureInternalCall, 'blockNumber'> & { blockNumber: JsonBigInt }>;
+  tokenTransfers?: Array<Omit<FixtureTokenTransfer, 'blockNumber'> & { blockNumber: JsonBigInt }>;
+}
+
+type FieldKind = 'hash' | 'address' | 'bigint';
+
+const FIELD_KIND_NAMES: Record<FieldKind, string> = {
+  hash: 'a transaction hash',
+  address: 'an address',
+  bigint: 'a non-negative integer',
+};
+
+// Fields of each FixtureFile list; optional fields may also be null
+const FIXTURE_FIELDS: Record<keyof FixtureFile, Record<string, { kind: FieldKind; optional?: boolean }>> = {
+  transactions: {
+    hash: { kind: 'hash' },
+    from: { kind: 'address' },
+    to: { kind: 'address', optional: true },
+    blockNumber: { kind: 'bigint' },
+    value: { kind: 'bigint', optional: true },
+    fee: { kind: 'bigint', optional: true },
+  },
+  internalCalls: {
+    txHash: { kind: 'hash' },
+    from: { kind: 'address' },
+    to: { kind: 'address' },
+    blockNumber: { kind: 'bigint' },
+  },
+  tokenTransfers: {
+    txHash: { kind: 'hash' },
+    token: { kind: 'address' },
+    from: { kind: 'address' },
+    to: { kind: 'address' },
+    blockNumber: { kind: 'bigint' },
+  },
+};
+
+function isFieldKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'hash':
+      return typeof value === 'string' && isHash(value);
+    case 'address':
+      return typeof value === 'string' && isAddress(value);
+    case 'bigint':
+      return (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) ||
+        (typeof value === 'string' && /^\d+$/.test(value));
+  }
+}
+
+/**
+ * Check parsed JSON against FixtureFile
+ * @param raw Parsed fixture file
+ * @returns An error message, or null when it is a valid fixture
+ */
+function validateFixtureFile(raw: unknown): string | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return 'fixture must be an object';
+  }
+
+  const input = raw as Record<string, unknown>;
+
+  const unknownKeys = Object.keys(input).filter(key => !(key in FIXTURE_FIELDS));
+  if (unknownKeys.length > 0) {
+    return `unknown key(s): ${unknownKeys.join(', ')}`;
+  }
+
+  for (const [list, fields] of Object.entries(FIXTURE_FIELDS)) {
+    const entries = input[list];
+    if (entries === undefined) continue;
+    if (!Array.isArray(entries)) return `${list} must be an array`;
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        return `${list}[${i}] must be an object`;
+      }
+
+      for (const [field, { kind, optional }] of Object.entries(fields)) {
+        const value = (entry as Record<string, unknown>)[field];
+        if (optional && (value === undefined || value === null)) continue;
+        if (!isFieldKind(value, kind)) return `${list}[${i}].${field} must be ${FIELD_KIND_NAMES[kind]}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function createFixtureSource({
+  transactions,
+  internalCalls = [],
+  tokenTransfers = [],
+}: FixtureData): TransactionSource {
+  const inWindow = (blockNumber: bigint, fromBlock: bigint, toBlock: bigint) =>
+    blockNumber >= fromBlock && blockNumber <= toBlock;
+
+  return {
+    name: 'fixture',
+
+    async getTransactions(
+      address: Address,
+      fromBlock: bigint,
+      toBlock: bigint,
+      { maxTransactions }: FetchOptions = {}
+    ): Promise<TransactionFetchResult> {
+      const matching = transactions.filter(tx =>
+        tx.from.toLowerCase() === address.toLowerCase() &&
+        inWindow(tx.blockNumber, fromBlock, toBlock)
+      );
+
+      if (maxTransactions !== undefined && matching.length > maxTransactions) {
+        return { transactions: matching.slice(0, maxTransactions), truncated: true };
+      }
+
+      return { transactions: matching, truncated: false };
+    },
+
+    async getIndirectInteractions(
+      address: Address,
+      fromBlock: bigint,
+      toBlock: bigint,
+      userTransactions: SourceTransaction[],
+      contracts: Address[]
+    ): Promise<ContractInteraction[]> {
+      const verified = new Set(contracts.map(c => c.toLowerCase()));
+      const user = address.toLowerCase();
+      const userTxHashes = new Set(userTransactions.map(tx => tx.hash.toLowerCase()));
+      const interactions: ContractInteraction[] = [];
+
+      for (const call of internalCalls) {
+        if (!inWindow(call.blockNumber, fromBlock, toBlock) || !verified.has(call.to.toLowerCase())) continue;
+
+        if (userTxHashes.has(call.txHash.toLowerCase()) || call.from.toLowerCase() === user) {
+          interactions.push({ txHash: call.txHash, contract: call.to, kind: 'internal', blockNumber: call.blockNumber });
+        }
+      }
+
+      for (const transfer of tokenTransfers) {
+        if (!inWindow(transfer.blockNumber, fromBlock, toBlock)) continue;
+
+        const from = transfer.from.toLowerCase();
+        const to = transfer.to.toLowerCase();
+        if (from !== user && to !== user) continue;
+
+        // Anyone can send the wallet tokens; only its own transfers count
+        if (from !== user && !userTxHashes.has(transfer.txHash.toLowerCase())) continue;
+
+        const counterparty = from === user ? transfer.to : transfer.from;
+        const contract = verified.has(transfer.token.toLowerCase())
+          ? transfer.token
+          : verified.has(counterparty.toLowerCase()) ? counterparty : null;
+
+        if (contract) {
+          interactions.push({
+            txHash: transfer.txHash,
+            contract,
+            kind: 'token_transfer',
+            blockNumber: transfer.blockNumber,
+          });
+        }
+      }
+
+      return interactions;
+    },
+  };
+}
+
+/**
+ * Load a fixture source from a JSON file shaped like FixtureData
+ * Block numbers and wei amounts may be given as numbers or decimal strings
+ * @param path Path to the JSON fixture file
+ */
+export function loadFixtureSource(path: string): TransactionSource {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new TransactionSourceError(
+      'fixture',
+      `Cannot read ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const invalid = validateFixtureFile(raw);
+  if (invalid) {
+    throw new TransactionSourceError('fixture', `Invalid ${path}: ${invalid}`);
+  }
+
+  const fixture = raw as FixtureFile;
+
+  return createFixtureSource({
+    transactions: (fixture.transactions || []).map(tx => ({
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to ?? null,
+      blockNumber: BigInt(tx.blockNumber),
+      value: BigInt(tx.value ?? 0),
+      fee: tx.fee !== undefined && tx.fee !== null ? BigInt(tx.fee) : null,
+    })),
+    internalCalls: (fixture.internalCalls || []).map(call => ({
+      txHash: call.txHash,
+      from: call.from,
+      to: call.to,
+      blockNumber: BigInt(call.blockNumber),
+    })),
+    tokenTransfers: (fixture.tokenTransfers || []).map(transfer => ({
+      txHash: transfer.txHash,
+      token: transfer.token,
+      from: transfer.from,
+      to: transfer.to,
+      blockNumber: BigInt(transfer.blockNumber),
+    })),
+  });
+}
@@ -0,0 +1,51 @@
+import { MEGAETH_CHAIN, VERIFICATION } from '../../contracts/config';
+import { createBlockscoutSource } from './blockscout';
+import { createRpcSource } from './rpc';
+import { loadFixtureSource } from './fixture';
+import { type TransactionSource } from './types';
+
+export { createBlockscoutSource } from './blockscout';
+export { createRpcSource } from './rpc';
+export { createFixtureSource, loadFixtureSource, type FixtureData } from './fixture';
+export {
+  TransactionSourceError,
+  type ContractInteraction,
+  type FetchOptions,
+  type MatchKind,
+  type SourceTransaction,
+  type TransactionFetchResult,
+  type TransactionSource,
+} from './types';
+
+let configuredSource: TransactionSource | null = null;
+
+/**
+ * Get the transaction source selected by VERIFICATION.TX_SOURCE
+ */
+export function getTransactionSource(): TransactionSource {
+  if (configuredSource) {
+    return configuredSource;
+  }
+
+  switch (VERIFICATION.TX_SOURCE) {
+    case 'rpc':
+      configuredSource = createRpcSource({
+        rpcUrl: VERIFICATION.TRACE_RPC_URL || MEGAETH_CHAIN.rpcUrls.default.http[0],
+      });
+      break;
+    case 'fixture':
+      if (!VERIFICATION.FIXTURE_FILE) {
+        throw new Error('VERIFICATION_FIXTURE_FILE is required for the fixture source');
+      }
+      configuredSource = loadFixtureSource(VERIFICATION.FIXTURE_FILE);
+      break;
+    default:
+      configuredSource = createBlockscoutSource({
+        apiUrl: VERIFICATION.BLOCKSCOUT_API_URL,
+        apiKey: VERIFICATION.BLOCKSCOUT_API_KEY,
+        pageSize: VERIFICATION.BLOCKSCOUT_PAGE_SIZE,
+      });
+  }
+
+  return configuredSource;
+}
@@ -0,0 +1,296 @@
+import {
+  createPublicClient,
+  getAddress,
+  http,
+  numberToHex,
+  parseAbiItem,
+  rpcSchema,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { MEGAETH_CHAIN } from '../../contracts/config';
+import {
+  TransactionSourceError,
+  type ContractInteraction,
+  type FetchOptions,
+  type SourceTransaction,
+  type TransactionFetchResult,
+  type TransactionSource,
+} from './types';
+
+/**
+ * RPC Transaction Source
+ * Reads a user's activity straight from a tracing node via `trace_filter`,
+ * `trace_transaction` and `eth_getLogs`, with no dependency on an explorer indexer
+ */
+
+interface RpcOptions {
+  rpcUrl: string;
+  // Max blocks per trace_filter request
+  blockChunkSize?: bigint;
+}
+
+export interface CallTrace {
+  action: {
+    from: Address;
+    to?: Address;
+    callType?: string;
+    value?: Hex;
+    input?: Hex;
+  };
+  blockNumber: number;
+  transactionHash: Hash;
+  traceAddress: number[];
+  type: 'call' | 'create' | 'suicide' | 'reward';
+  error?: string;
+}
+
+type TraceRpcSchema = [
+  {
+    Method: 'trace_filter';
+    Parameters: [{
+      fromBlock: Hex;
+      toBlock: Hex;
+      fromAddress?: Address[];
+      toAddress?: Address[];
+    }];
+    ReturnType: CallTrace[];
+  },
+  {
+    Method: 'trace_transaction';
+    Parameters: [Hash];
+    ReturnType: CallTrace[];
+  },
+];
+
+const DEFAULT_BLOCK_CHUNK_SIZE = BigInt(10000);
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+/**
+ * Split an inclusive block range into inclusive chunks
+ */
+function chunkRange(fromBlock: bigint, toBlock: bigint, size: bigint): Array<[bigint, bigint]> {
+  const chunks: Array<[bigint, bigint]> = [];
+
+  for (let start = fromBlock; start <= toBlock; start += size) {
+    const end = start + size - BigInt(1);
+    chunks.push([start, end < toBlock ? end : toBlock]);
+  }
+
+  return chunks;
+}
+
+/**
+ * Decode an address stored in an indexed topic
+ */
+function topicToAddress(topic: Hex): Address {
+  return getAddress(`0x${topic.slice(26)}`);
+}
+
+export function createRpcTraceClient(rpcUrl: string) {
+  return createPublicClient({
+    chain: MEGAETH_CHAIN,
+    transport: http(rpcUrl),
+    rpcSchema: rpcSchema<TraceRpcSchema>(),
+  });
+}
+
+/**
+ * Run trace_filter over a block range in fixed-size chunks
+ * @param client Client created by createRpcTraceClient
+ * @param filter Address filter applied to every chunk
+ * @param maxTraces Stop requesting further chunks once this many traces are collected
+ * @param keep Only collect (and count toward maxTraces) traces it accepts
+ */
+export async function filterTraces(
+  client: ReturnType<typeof createRpcTraceClient>,
+  filter: { fromAddress?: Address[]; toAddress?: Address[] },
+  fromBlock: bigint,
+  toBlock: bigint,
+  blockChunkSize: bigint = DEFAULT_BLOCK_CHUNK_SIZE,
+  maxTraces?: number,
+  keep: (trace: CallTrace) => boolean = () => true
+): Promise<CallTrace[]> {
+  const traces: CallTrace[] = [];
+
+  for (const [start, end] of chunkRange(fromBlock, toBlock, blockChunkSize)) {
+    if (maxTraces !== undefined && traces.length >= maxTraces) break;
+
+    try {
+      const chunk = await client.request({
+        method: 'trace_filter',
+        params: [{
+          fromBlock: numberToHex(start),
+          toBlock: numberToHex(end),
+          ...filter,
+        }],
+      });
+      traces.push(...chunk.filter(keep));
+    } catch (error) {
+      throw new TransactionSourceError(
+        'rpc',
+        error instanceof Error ? error.message : 'trace_filter failed'
+      );
+    }
+  }
+
+  return traces;
+}
+
+/**
+ * Fetch every trace of one transaction
+ * @param client Client created by createRpcTraceClient
+ * @param txHash Transaction hash
+ */
+async function transactionTraces(
+  client: ReturnType<typeof createRpcTraceClient>,
+  txHash: Hash
+): Promise<CallTrace[]> {
+  try {
+    return await client.request({ method: 'trace_transaction', params: [txHash] });
+  } catch (error) {
+    throw new TransactionSourceError(
+      'rpc',
+      error instanceof Error ? error.message : 'trace_transaction failed'
+    );
+  }
+}
+
+export function createRpcSource({
+  rpcUrl,
+  blockChunkSize = DEFAULT_BLOCK_CHUNK_SIZE,
+}: RpcOptions): TransactionSource {
+  const client = createRpcTraceClient(rpcUrl);
+
+  return {
+    name: 'rpc',
+
+    async getTransactions(
+      address: Address,
+      fromBlock: bigint,
+      toBlock: bigint,
+      { maxTransactions }: FetchOptions = {}
+    ): Promise<TransactionFetchResult> {
+      // Only top-level calls that didn't revert are transactions the user actually
+      // sent. One past the limit is fetched to tell a full window from a cut-off one
+      const traces = await filterTraces(
+        client,
+        { fromAddress: [address] },
+        fromBlock,
+        toBlock,
+        blockChunkSize,
+        maxTransactions === undefined ? undefined : maxTransactions + 1,
+        trace => trace.traceAddress.length === 0 && !trace.error
+      );
+
+      const transactions = traces
+        .map(trace => ({
+          hash: trace.transactionHash,
+          from: trace.action.from,
+          to: trace.action.to ?? null,
+          blockNumber: BigInt(trace.blockNumber),
+          value: BigInt(trace.action.value ?? 0),
+          // Traces carry no gas accounting
+          fee: null,
+        }));
+
+      if (maxTransactions !== undefined && transactions.length > maxTransactions) {
+        return { transactions: transactions.slice(0, maxTransactions), truncated: true };
+      }
+
+      return { transactions, truncated: false };
+    },
+
+    async getIndirectInteractions(
+      address: Address,
+      fromBlock: bigint,
+      toBlock: bigint,
+      transactions: SourceTransaction[],
+      contracts: Address[]
+    ): Promise<ContractInteraction[]> {
+      const verified = new Set(contracts.map(c => c.toLowerCase()));
+      const user = address.toLowerCase();
+      const userTxHashes = new Set(transactions.map(tx => tx.hash.toLowerCase()));
+      const interactions: ContractInteraction[] = [];
+
+      // Nested calls into verified contracts within the user's own transactions, and
+      // those their (smart) account made inside transactions someone else sent.
+      // Both lookups are scoped to the user rather than to every call into the contracts
+      const traces = [
+        ...(await Promise.all(transactions.map(tx => transactionTraces(client, tx.hash)))).flat(),
+        ...(await filterTraces(
+          client,
+          { fromAddress: [address] },
+          fromBlock,
+          toBlock,
+          blockChunkSize,
+          undefined,
+          trace => trace.traceAddress.length > 0
+        )),
+      ];
+
+      const seen = new Set<string>();
+      for (const trace of traces) {
+        if (trace.traceAddress.length === 0 || !trace.action.to || trace.error) continue;
+        if (!verified.has(trace.action.to.toLowerCase())) continue;
+
+        // A smart-account call inside one of the user's own transactions shows up in both lookups
+        const key = `${trace.transactionHash.toLowerCase()}:${trace.traceAddress.join('.')}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        interactions.push({
+          txHash: trace.transactionHash,
+          contract: trace.action.to,
+          kind: 'internal',
+          blockNumber: BigInt(trace.blockNumber),
+        });
+      }
+
+      // ERC-20 transfers out of the wallet (e.g. Permit2 pulls), or into it from a
+      // transaction the user sent. Anyone can send the wallet tokens, so an
+      // incoming transfer alone is not the user's activity
+      for (const [start, end] of chunkRange(fromBlock, toBlock, blockChunkSize)) {
+        let logs;
+        try {
+          logs = (await Promise.all([
+            client.getLogs({ event: TRANSFER_EVENT, args: { from: address }, fromBlock: start, toBlock: end }),
+            client.getLogs({ event: TRANSFER_EVENT, args: { to: address }, fromBlock: start, toBlock: end }),
+          ])).flat();
+        } catch (error) {
+          throw new TransactionSourceError(
+            'rpc',
+            error instanceof Error ? error.message : 'eth_getLogs failed'
+          );
+        }
+
+        for (const log of logs) {
+          if (!log.transactionHash || log.blockNumber === null || log.topics.length < 3) continue;
+
+          const from = topicToAddress(log.topics[1]!);
+          const to = topicToAddress(log.topics[2]!);
+          if (from.toLowerCase() !== user && !userTxHashes.has(log.transactionHash.toLowerCase())) continue;
+
+          const counterparty = from.toLowerCase() === user ? to : from;
+
+          const contract = verified.has(log.address.toLowerCase())
+            ? log.address
+            : verified.has(counterparty.toLowerCase()) ? counterparty : null;
+
+          if (contract) {
+            interactions.push({
+              txHash: log.transactionHash,
+              contract,
+              kind: 'token_transfer',
+              blockNumber: log.blockNumber,
+            });
+          }
+        }
+      }
+
+      return interactions;
+    },
+  };
+}
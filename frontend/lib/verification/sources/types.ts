@@ -0,0 +1,78 @@
+import { type Address, type Hash } from 'viem';
+
+/**
+ * Transaction Source Types
+ * Shared shapes for everything the streak verifier can read user activity from
+ */
+
+export interface SourceTransaction {
+  hash: Hash;
+  from: Address;
+  to: Address | null;
+  blockNumber: bigint;
+  // ETH sent with the transaction (wei)
+  value: bigint;
+  // Gas fee paid (wei), null when the source cannot report it
+  fee: bigint | null;
+}
+
+// How an interaction with a verified contract qualified
+export type MatchKind = 'direct' | 'internal' | 'token_transfer';
+
+export interface ContractInteraction {
+  txHash: Hash;
+  contract: Address;
+  kind: MatchKind;
+  blockNumber: bigint;
+}
+
+export interface FetchOptions {
+  // Stop once this many transactions have been collected
+  maxTransactions?: number;
+}
+
+export interface TransactionFetchResult {
+  transactions: SourceTransaction[];
+  // True when maxTransactions was hit before the window was exhausted
+  truncated: boolean;
+}
+
+export interface TransactionSource {
+  name: string;
+
+  /**
+   * Fetch transactions sent by `address` within an inclusive block range
+   * Must throw TransactionSourceError when the data could not be fetched,
+   * an empty result means the user genuinely had no activity
+   */
+  getTransactions(
+    address: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    options?: FetchOptions
+  ): Promise<TransactionFetchResult>;
+
+  /**
+   * Find interactions with `contracts` that are not visible as the top-level `to`
+   * of a user transaction: internal calls (routers, multicalls, smart accounts)
+   * and ERC-20 transfers out of the user's wallet, or into it from a transaction they sent
+   * @param transactions The user's transactions already fetched for the window
+   */
+  getIndirectInteractions(
+    address: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    transactions: SourceTransaction[],
+    contracts: Address[]
+  ): Promise<ContractInteraction[]>;
+}
+
+/**
+ * Thrown when a source cannot answer, as opposed to answering "no activity"
+ */
+export class TransactionSourceError extends Error {
+  constructor(public readonly source: string, message: string) {
+    super(`${source}: ${message}`);
+    this.name = 'TransactionSourceError';
+  }
+}
@@ -0,0 +1,204 @@
+import { createPublicClient, http, parseEventLogs, type Hash } from 'viem';
+import { supabase } from '../supabase/client';
+import { CONTRACTS, MEGAETH_CHAIN, STREAK_FREEZES } from '../contracts/config';
+import { BetItVaultABI } from '../contracts/abis';
+
+/**
+ * Streak Freezes
+ * A freeze covers one missed day instead of failing the challenge. Challengers
+ * earn one per EARN_EVERY_DAYS verified days or buy one by paying the vault,
+ * up to MAX_PER_CHALLENGE per challenge. Used freezes are the challenge's
+ * frozen rows in daily_activity.
+ */
+
+// Create viem client for MegaETH
+const publicClient = createPublicClient({
+  chain: MEGAETH_CHAIN,
+  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
+});
+
+export interface FreezeBalance {
+  earned: number;
+  purchased: number;
+  used: number;
+  // earned + purchased, capped at max
+  total: number;
+  remaining: number;
+  max: number;
+}
+
+/**
+ * Work out a challenge's freezes from its day counts
+ * @param counts Verified days, frozen days and purchased freezes so far
+ */
+export function computeFreezeBalance(counts: {
+  verifiedDays: number;
+  frozenDays: number;
+  purchased: number;
+}): FreezeBalance {
+  const earned = Math.floor(counts.verifiedDays / STREAK_FREEZES.EARN_EVERY_DAYS);
+  const total = Math.min(STREAK_FREEZES.MAX_PER_CHALLENGE, earned + counts.purchased);
+
+  return {
+    earned,
+    purchased: counts.purchased,
+    used: counts.frozenDays,
+    total,
+    remaining: Math.max(0, total - counts.frozenDays),
+    max: STREAK_FREEZES.MAX_PER_CHALLENGE,
+  };
+}
+
+/**
+ * Count freezes purchased for a challenge
+ */
+export async function getPurchasedFreezes(challengeId: number): Promise<number> {
+  const { count, error } = await supabase
+    .from('streak_freeze_purchases')
+    .select('*', { count: 'exact', head: true })
+    .eq('challenge_id', challengeId);
+
+  if (error) {
+    console.error('Error counting freeze purchases:', error);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Get a challenge's current freeze balance
+ * @param challengeId Challenge ID
+ */
+export async function getFreezeBalance(challengeId: number): Promise<FreezeBalance> {
+  const [{ data: days }, purchased] = await Promise.all([
+    supabase
+      .from('daily_activity')
+      .select('verified, frozen')
+      .eq('challenge_id', challengeId),
+    getPurchasedFreezes(challengeId),
+  ]);
+
+  return computeFreezeBalance({
+    verifiedDays: (days || []).filter(day => day.verified).length,
+    frozenDays: (days || []).filter(day => day.frozen).length,
+    purchased,
+  });
+}
+
+/**
+ * Spend a freeze on a missed day
+ * @param userAddress Challenger address
+ * @param challengeId Challenge ID
+ * @param dayKey Missed day (YYYY-MM-DD in the challenge's timezone)
+ */
+export async function applyFreeze(userAddress: string, challengeId: number, dayKey: string): Promise<void> {
+  const { error } = await supabase
+    .from('daily_activity')
+    .upsert({
+      user_address: userAddress.toLowerCase(),
+      challenge_id: challengeId,
+      date: dayKey,
+      verified: false,
+      frozen: true,
+      frozen_at: new Date().toISOString(),
+    }, {
+      onConflict: 'user_address,challenge_id,date'
+    });
+
+  if (error) {
+    throw new Error(`Failed to freeze ${dayKey} for challenge ${challengeId}: ${error.message}`);
+  }
+}
+
+/**
+ * Record a freeze bought with a BetItVault.addRevenue payment from the challenger
+ * The payment must be made after the challenge started and can only be redeemed once
+ * @param challengeId Challenge ID
+ * @param txHash Payment transaction hash
+ */
+export async function recordFreezePurchase(challengeId: number, txHash: Hash): Promise<{
+  success: boolean;
+  balance?: FreezeBalance;
+  error?: string;
+}> {
+  const hash = txHash.toLowerCase() as Hash;
+
+  const { data: challenge, error } = await supabase
+    .from('challenges')
+    .select('user_address, status, start_date')
+    .eq('challenge_id', challengeId)
+    .single();
+
+  if (error || !challenge) {
+    return { success: false, error: 'Challenge not found' };
+  }
+
+  if (challenge.status !== 'active') {
+    return { success: false, error: 'Freezes can only be bought for an active challenge' };
+  }
+
+  const balance = await getFreezeBalance(challengeId);
+  if (balance.earned + balance.purchased >= balance.max) {
+    return { success: false, error: `Freeze limit of ${balance.max} reached for this challenge` };
+  }
+
+  const { data: redeemed } = await supabase
+    .from('streak_freeze_purchases')
+    .select('id')
+    .eq('tx_hash', hash)
+    .maybeSingle();
+
+  if (redeemed) {
+    return { success: false, error: 'Payment already used for a freeze' };
+  }
+
+  let receipt;
+  try {
+    receipt = await publicClient.getTransactionReceipt({ hash });
+  } catch {
+    return { success: false, error: 'Transaction not found or not yet mined' };
+  }
+
+  if (receipt.status !== 'success') {
+    return { success: false, error: 'Transaction reverted' };
+  }
+
+  const payment = parseEventLogs({
+    abi: BetItVaultABI,
+    eventName: 'RevenueAdded',
+    logs: receipt.logs.filter(log => log.address.toLowerCase() === CONTRACTS.VAULT.toLowerCase()),
+  }).find(log => log.args.source.toLowerCase() === challenge.user_address);
+
+  if (!payment) {
+    return { success: false, error: 'Transaction is not a vault payment from the challenger' };
+  }
+
+  if (payment.args.amount < STREAK_FREEZES.PRICE_WEI) {
+    return { success: false, error: `A freeze costs ${STREAK_FREEZES.PRICE_WEI} wei` };
+  }
+
+  // An older payment (e.g. for a previous challenge) doesn't buy a freeze for this one
+  const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+  if (Number(block.timestamp) * 1000 < new Date(challenge.start_date).getTime()) {
+    return { success: false, error: 'Payment was made before the challenge started' };
+  }
+
+  const { error: insertError } = await supabase
+    .from('streak_freeze_purchases')
+    .insert({
+      challenge_id: challengeId,
+      user_address: challenge.user_address,
+      tx_hash: hash,
+      amount: payment.args.amount.toString(),
+    });
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      return { success: false, error: 'Payment already used for a freeze' };
+    }
+    console.error('Error recording freeze purchase:', insertError);
+    return { success: false, error: 'Failed to record purchase' };
+  }
+
+  return { success: true, balance: await getFreezeBalance(challengeId) };
+}
@@ -1,33 +1,66 @@
-import { createPublicClient, http, type Address, type Hash } from 'viem';
+import { type Address, type Hash } from 'viem';
 import { supabase } from '../supabase/client';
-import { CONTRACTS, MEGAETH_CHAIN } from '../contracts/config';
+import { GRACE_PERIOD, VERIFICATION } from '../contracts/config';
+import { getBlockRangeForDay } from './blockResolver';
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getChallengeDays,
+  getDayKey,
+  getDayWindow,
+  resolveDayKey,
+} from './days';
+import {
+  DEFAULT_ACTIVITY_RULES,
+  evaluateActivityRules,
+  type ActivityRuleName,
+  type ActivityRules,
+  type ContractCategory,
+} from './activityRules';
+import { applyFreeze, computeFreezeBalance, getPurchasedFreezes, type FreezeBalance } from './streakFreezes';
+import {
+  getTransactionSource,
+  TransactionSourceError,
+  type ContractInteraction,
+  type MatchKind,
+  type TransactionSource,
+} from './sources';
 
 /**
  * Streak Verification Service
  * Checks if users have maintained their daily MegaETH transaction streaks
  */
 
-// Create viem client for MegaETH
-const publicClient = createPublicClient({
-  chain: MEGAETH_CHAIN,
-  transport: http(MEGAETH_CHAIN.rpcUrls.default.http[0]),
-});
+// Stored in daily_activity.contracts_used
+export interface ContractUsage {
+  address: Address;
+  via: MatchKind;
+}
 
-interface VerificationResult {
+export interface VerificationResult {
   success: boolean;
   verified: boolean;
   txCount: number;
-  contractsUsed: Address[];
+  contractsUsed: ContractUsage[];
+  // Streak day that was checked (YYYY-MM-DD in the challenge's timezone)
+  day?: string;
+  // True when the user's activity exceeded the per-day fetch cap
+  truncated?: boolean;
+  // Activity rule the day failed, if any
+  failedRule?: ActivityRuleName;
   error?: string;
 }
 
 /**
- * Get list of verified contracts from database
+ * Get active verified contracts with their categories from database
  */
-export async function getVerifiedContracts(): Promise<Address[]> {
+export async function getVerifiedContractDetails(): Promise<Array<{
+  address: Address;
+  category: ContractCategory | null;
+}>> {
   const { data, error } = await supabase
     .from('verified_contracts')
-    .select('address')
+    .select('address, category')
     .eq('is_active', true);
 
   if (error) {
@@ -35,67 +68,78 @@ export async function getVerifiedContracts(): Promise<Address[]> {
     return [];
   }
 
-  return (data || []).map(row => row.address as Address);
+  return (data || []).map(row => ({
+    address: row.address as Address,
+    category: row.category as ContractCategory | null,
+  }));
 }
 
 /**
- * Fetch transactions for a user address from Blockscout API
- * @param address User wallet address
- * @param fromBlock Starting block number
- * @param toBlock Ending block number (optional, defaults to latest)
+ * Get list of verified contracts from database
  */
-async function fetchTransactionsFromBlockscout(
-  address: Address,
-  fromBlock: bigint,
-  toBlock?: bigint
-): Promise<Array<{ hash: Hash; to: Address | null; blockNumber: bigint }>> {
-  const explorerUrl = 'https://explorer.megaeth.systems/api';
-  const module = 'account';
-  const action = 'txlist';
-
-  const params = new URLSearchParams({
-    module,
-    action,
-    address,
-    startblock: fromBlock.toString(),
-    endblock: toBlock?.toString() || 'latest',
-    sort: 'desc',
-  });
+export async function getVerifiedContracts(): Promise<Address[]> {
+  return (await getVerifiedContractDetails()).map(contract => contract.address);
+}
 
-  try {
-    const response = await fetch(`${explorerUrl}?${params}`);
-    const data = await response.json();
+/**
+ * Get the activity rules and streak timezone frozen into a challenge
+ * @param challengeId Challenge ID
+ */
+export async function getChallengeVerificationSettings(challengeId: number): Promise<{
+  rules: ActivityRules;
+  timezone: string;
+}> {
+  const { data, error } = await supabase
+    .from('challenges')
+    .select('activity_rules, timezone')
+    .eq('challenge_id', challengeId)
+    .single();
 
-    if (data.status !== '1' || !data.result) {
-      console.error('Blockscout API error:', data.message);
-      return [];
-    }
+  if (error || !data) {
+    return { rules: DEFAULT_ACTIVITY_RULES, timezone: DEFAULT_TIMEZONE };
+  }
 
-    return data.result.map((tx: any) => ({
-      hash: tx.hash as Hash,
-      to: tx.to as Address,
-      blockNumber: BigInt(tx.blockNumber),
-    }));
-  } catch (error) {
-    console.error('Error fetching from Blockscout:', error);
-    return [];
+  return {
+    rules: (data.activity_rules as ActivityRules | null) || DEFAULT_ACTIVITY_RULES,
+    timezone: data.timezone || DEFAULT_TIMEZONE,
+  };
+}
+
+/**
+ * Collapse matches into one entry per (contract, qualification) pair
+ * @param matches Interactions with verified contracts
+ */
+function uniqueContractUsage(matches: ContractInteraction[]): ContractUsage[] {
+  const usage = new Map<string, ContractUsage>();
+
+  for (const match of matches) {
+    const address = match.contract.toLowerCase() as Address;
+    usage.set(`${address}:${match.kind}`, { address, via: match.kind });
   }
+
+  return [...usage.values()];
 }
 
 /**
- * Verify if user has made transactions to verified contracts in the last 24 hours
- * @param userAddress User wallet address
- * @param challengeId Challenge ID
- * @param date Date to verify (defaults to today)
+ * Evaluate a wallet's activity with verified contracts during one streak day against activity rules
+ * Read-only: callers persist the result for their own kind of challenge
+ * @param userAddress Wallet address
+ * @param day Streak day (YYYY-MM-DD in the given timezone)
+ * @param settings Activity rules and the timezone the day is measured in
+ * @param source Transaction source (defaults to the configured one)
  */
-export async function verifyDailyActivity(
+export async function evaluateDailyActivity(
   userAddress: Address,
-  challengeId: number,
-  date: Date = new Date()
+  day: string,
+  settings: { rules: ActivityRules; timezone: string },
+  source?: TransactionSource
 ): Promise<VerificationResult> {
   try {
-    // Get verified contracts list
-    const verifiedContracts = await getVerifiedContracts();
+    const txSource = source ?? getTransactionSource();
+    const { rules, timezone } = settings;
+
+    const contractDetails = await getVerifiedContractDetails();
+    const verifiedContracts = contractDetails.map(contract => contract.address);
 
     if (verifiedContracts.length === 0) {
       return {
@@ -107,35 +151,131 @@ export async function verifyDailyActivity(
       };
     }
 
-    // Calculate block range for the day
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
+    // Resolve the exact blocks mined during that day in its timezone
+    const blockRange = await getBlockRangeForDay(day, timezone);
 
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    if (!blockRange) {
+      return {
+        success: false,
+        verified: false,
+        txCount: 0,
+        contractsUsed: [],
+        error: 'Cannot verify a day that has not started yet',
+      };
+    }
 
-    // Get current block number
-    const currentBlock = await publicClient.getBlockNumber();
+    // Fetch user's transactions for the day (a day with no blocks has nothing to fetch)
+    const { transactions, truncated } = blockRange.toBlock >= blockRange.fromBlock
+      ? await txSource.getTransactions(userAddress, blockRange.fromBlock, blockRange.toBlock, {
+          maxTransactions: VERIFICATION.MAX_TXS_PER_USER_DAY,
+        })
+      : { transactions: [], truncated: false };
+
+    const verifiedSet = new Set(verifiedContracts.map(c => c.toLowerCase()));
+    const categoryOf = new Map(contractDetails.map(c => [c.address.toLowerCase(), c.category]));
+
+    // Transactions sent straight to a verified contract
+    const directMatches: ContractInteraction[] = transactions
+      .filter(tx => tx.to && verifiedSet.has(tx.to.toLowerCase()))
+      .map(tx => ({ txHash: tx.hash, contract: tx.to!, kind: 'direct', blockNumber: tx.blockNumber }));
+
+    // Calls routed through other contracts and token transfers touching verified contracts
+    const indirectMatches = blockRange.toBlock >= blockRange.fromBlock
+      ? await txSource.getIndirectInteractions(
+          userAddress,
+          blockRange.fromBlock,
+          blockRange.toBlock,
+          transactions,
+          verifiedContracts
+        )
+      : [];
+
+    const matches = [...directMatches, ...indirectMatches];
+
+    const qualifyingTxs = new Set<Hash>(matches.map(m => m.txHash.toLowerCase() as Hash));
+    const contractsUsed = uniqueContractUsage(matches);
+
+    // Value and gas spent by the user's own qualifying transactions
+    const spentWei = transactions
+      .filter(tx => qualifyingTxs.has(tx.hash.toLowerCase() as Hash))
+      .reduce((sum, tx) => sum + tx.value + (tx.fee ?? BigInt(0)), BigInt(0));
+
+    const evaluation = evaluateActivityRules(rules, {
+      txCount: qualifyingTxs.size,
+      spentWei,
+      contracts: contractsUsed.map(usage => usage.address),
+      categories: contractsUsed
+        .map(usage => categoryOf.get(usage.address))
+        .filter((category): category is ContractCategory => !!category),
+    });
+    const verified = evaluation.passed;
+
+    // A capped fetch that fails the rules is inconclusive, the rest of the day may satisfy them
+    if (truncated && !verified) {
+      console.warn(`Transaction fetch truncated for ${userAddress} at ${VERIFICATION.MAX_TXS_PER_USER_DAY} txs`);
+      return {
+        success: false,
+        verified: false,
+        txCount: 0,
+        contractsUsed: [],
+        truncated,
+        error: 'Transaction history truncated before a qualifying transaction was found',
+      };
+    }
 
-    // Estimate blocks for the day (MegaETH: ~4 blocks/sec = 345,600 blocks/day)
-    // This is a rough estimate; ideally we'd query by timestamp
-    const blocksPerDay = 345600n;
-    const estimatedStartBlock = currentBlock - blocksPerDay;
+    return {
+      success: true,
+      verified,
+      txCount: qualifyingTxs.size,
+      contractsUsed,
+      day,
+      truncated,
+      failedRule: evaluation.failedRule,
+    };
+  } catch (error) {
+    // A failed source must not be recorded as a day without activity
+    if (error instanceof TransactionSourceError) {
+      console.error('Transaction source failed:', error.message);
+      return {
+        success: false,
+        verified: false,
+        txCount: 0,
+        contractsUsed: [],
+        error: `Transaction source failed (${error.source})`,
+      };
+    }
 
-    // Fetch user's transactions for the day
-    const transactions = await fetchTransactionsFromBlockscout(
-      userAddress,
-      estimatedStartBlock,
-      currentBlock
-    );
+    console.error('Error in evaluateDailyActivity:', error);
+    return {
+      success: false,
+      verified: false,
+      txCount: 0,
+      contractsUsed: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
 
-    // Filter transactions to verified contracts
-    const verifiedTxs = transactions.filter(tx =>
-      tx.to && verifiedContracts.includes(tx.to.toLowerCase() as Address)
-    );
+/**
+ * Verify if user's activity with verified contracts during a streak day meets the challenge's rules
+ * Days are calendar days in the challenge's timezone
+ * @param userAddress User wallet address
+ * @param challengeId Challenge ID
+ * @param date Day to verify: a YYYY-MM-DD key, or any instant within the day (defaults to today, past days can be re-verified)
+ * @param source Transaction source (defaults to the configured one)
+ */
+export async function verifyDailyActivity(
+  userAddress: Address,
+  challengeId: number,
+  date: Date | string = new Date(),
+  source?: TransactionSource
+): Promise<VerificationResult> {
+  try {
+    const settings = await getChallengeVerificationSettings(challengeId);
+    const day = resolveDayKey(date, settings.timezone);
 
-    const contractsUsed = [...new Set(verifiedTxs.map(tx => tx.to!))];
-    const verified = verifiedTxs.length > 0;
+    const result = await evaluateDailyActivity(userAddress, day, settings, source);
+    if (!result.success) return result;
 
     // Update database
     const { error: dbError } = await supabase
@@ -143,11 +283,14 @@ export async function verifyDailyActivity(
       .upsert({
         user_address: userAddress.toLowerCase(),
         challenge_id: challengeId,
-        date: startOfDay.toISOString().split('T')[0], // YYYY-MM-DD
-        tx_count: verifiedTxs.length,
-        contracts_used: contractsUsed,
-        verified,
-        verified_at: verified ? new Date().toISOString() : null,
+        date: day, // YYYY-MM-DD in the challenge's timezone
+        tx_count: result.txCount,
+        contracts_used: result.contractsUsed,
+        verified: result.verified,
+        failed_rule: result.failedRule ?? null,
+        verified_at: result.verified ? new Date().toISOString() : null,
+        // Real activity on a frozen day gives the freeze back
+        ...(result.verified ? { frozen: false, frozen_at: null } : {}),
       }, {
         onConflict: 'user_address,challenge_id,date'
       });
@@ -156,12 +299,7 @@ export async function verifyDailyActivity(
       console.error('Error updating daily_activity:', dbError);
     }
 
-    return {
-      success: true,
-      verified,
-      txCount: verifiedTxs.length,
-      contractsUsed,
-    };
+    return result;
   } catch (error) {
     console.error('Error in verifyDailyActivity:', error);
     return {
@@ -175,92 +313,42 @@ export async function verifyDailyActivity(
 }
 
 /**
- * Batch verify all active challenges
- * This should be called by a cron job every 6 hours
+ * Whether a challenge is due for its next daily verification
+ * Allows some flexibility: 20 hours since the last verification (or the start)
+ * @param challenge Challenge row with start_date and last_verified
+ * @param now Current time
  */
-export async function batchVerifyActiveChallenges(): Promise<{
-  verified: number;
-  failed: number;
-  errors: string[];
-}> {
-  const results = {
-    verified: 0,
-    failed: 0,
-    errors: [] as string[],
-  };
-
-  try {
-    // Get all active challenges
-    const { data: challenges, error } = await supabase
-      .from('challenges')
-      .select('challenge_id, user_address, start_date, last_verified')
-      .eq('status', 'active');
-
-    if (error) {
-      results.errors.push(`Database error: ${error.message}`);
-      return results;
-    }
-
-    if (!challenges || challenges.length === 0) {
-      console.log('No active challenges to verify');
-      return results;
-    }
-
-    console.log(`Verifying ${challenges.length} active challenges...`);
-
-    // Verify each challenge
-    for (const challenge of challenges) {
-      const lastVerified = challenge.last_verified
-        ? new Date(challenge.last_verified)
-        : new Date(challenge.start_date);
-
-      const now = new Date();
-      const hoursSinceVerification = (now.getTime() - lastVerified.getTime()) / (1000 * 60 * 60);
-
-      // Only verify if more than 20 hours have passed (allows some flexibility)
-      if (hoursSinceVerification >= 20) {
-        const result = await verifyDailyActivity(
-          challenge.user_address as Address,
-          challenge.challenge_id,
-          now
-        );
-
-        if (result.success && result.verified) {
-          results.verified++;
-          console.log(`✓ Verified challenge ${challenge.challenge_id} for ${challenge.user_address}`);
-        } else if (result.success && !result.verified) {
-          results.failed++;
-          console.log(`✗ No verified transactions for challenge ${challenge.challenge_id}`);
-        } else {
-          results.errors.push(`Challenge ${challenge.challenge_id}: ${result.error}`);
-        }
-
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    }
-
-    console.log(`Batch verification complete: ${results.verified} verified, ${results.failed} failed`);
-  } catch (error) {
-    results.errors.push(`Batch verification error: ${error instanceof Error ? error.message : 'Unknown'}`);
-  }
-
-  return results;
+export function isDueForVerification(
+  challenge: { start_date: string; last_verified: string | null },
+  now: Date = new Date()
+): boolean {
+  const lastVerified = challenge.last_verified
+    ? new Date(challenge.last_verified)
+    : new Date(challenge.start_date);
+
+  const hoursSinceVerification = (now.getTime() - lastVerified.getTime()) / (1000 * 60 * 60);
+  return hoursSinceVerification >= 20;
 }
 
 /**
- * Check if a challenge should be marked as failed due to missed days
+ * Check if a challenge should be marked as failed due to a missed day
+ * Walks the challenge's days in order; a day can only be missed once it has
+ * ended and GRACE_PERIOD has passed, so late activity still gets verified.
+ * Missed days are covered by streak freezes while any remain.
  * @param challengeId Challenge ID
+ * @param now Current time
  */
-export async function checkChallengeStatus(challengeId: number): Promise<{
+export async function checkChallengeStatus(challengeId: number, now: Date = new Date()): Promise<{
   shouldFail: boolean;
   reason?: string;
+  missedDate?: string; // YYYY-MM-DD
+  frozenDates?: string[]; // days covered by a freeze during this check
 }> {
   try {
     // Get challenge details
     const { data: challenge, error } = await supabase
       .from('challenges')
-      .select('*')
+      .select('challenge_id, user_address, start_date, duration, timezone')
       .eq('challenge_id', challengeId)
       .eq('status', 'active')
       .single();
@@ -269,35 +357,71 @@ export async function checkChallengeStatus(challengeId: number): Promise<{
       return { shouldFail: false, reason: 'Challenge not found or not active' };
     }
 
-    const now = new Date();
-    const startDate = new Date(challenge.start_date);
-    const daysSinceStart = Math.floor((now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    const [{ data: activity, error: activityError }, purchased] = await Promise.all([
+      supabase
+        .from('daily_activity')
+        .select('date, verified, frozen')
+        .eq('challenge_id', challengeId),
+      getPurchasedFreezes(challengeId),
+    ]);
 
-    // Get verified days count
-    const { count, error: countError } = await supabase
-      .from('daily_activity')
-      .select('*', { count: 'exact', head: true })
-      .eq('challenge_id', challengeId)
-      .eq('verified', true);
-
-    if (countError) {
-      console.error('Error counting verified days:', countError);
+    if (activityError) {
+      console.error('Error loading verified days:', activityError);
       return { shouldFail: false };
     }
 
-    const verifiedDays = count || 0;
+    const verifiedDays = new Set((activity || []).filter(row => row.verified).map(row => row.date as string));
+    const frozenDays = new Set((activity || []).filter(row => row.frozen).map(row => row.date as string));
+    const frozenDates: string[] = [];
+    const timezone = challenge.timezone || DEFAULT_TIMEZONE;
+
+    for (const dateKey of getChallengeDays(new Date(challenge.start_date), challenge.duration, timezone)) {
+      const closesAt = getDayWindow(dateKey, timezone).end.getTime() + GRACE_PERIOD * 1000;
+      if (closesAt > now.getTime()) break;
+
+      if (verifiedDays.has(dateKey) || frozenDays.has(dateKey)) continue;
+
+      // The batch job only looks at the current day, so give late activity one more check
+      const result = await verifyDailyActivity(
+        challenge.user_address as Address,
+        challengeId,
+        dateKey
+      );
+
+      if (!result.success) {
+        return { shouldFail: false, reason: `Could not verify ${dateKey}: ${result.error}`, frozenDates };
+      }
+
+      if (result.verified) {
+        verifiedDays.add(dateKey);
+        continue;
+      }
+
+      const freezes = computeFreezeBalance({
+        verifiedDays: verifiedDays.size,
+        frozenDays: frozenDays.size,
+        purchased,
+      });
+
+      if (freezes.remaining > 0) {
+        await applyFreeze(challenge.user_address, challengeId, dateKey);
+        frozenDays.add(dateKey);
+        frozenDates.push(dateKey);
+        console.log(`❄ Froze ${dateKey} for challenge ${challengeId} (${freezes.remaining - 1} left)`);
+        continue;
+      }
 
-    // Check if user has missed a day
-    // If they've been active for N days, they should have N verifications
-    if (daysSinceStart > 0 && verifiedDays < daysSinceStart) {
-      const missedDays = daysSinceStart - verifiedDays;
       return {
         shouldFail: true,
-        reason: `Missed ${missedDays} day(s) of activity`,
+        reason: result.txCount > 0
+          ? `Activity on ${dateKey} did not meet ${result.failedRule} (no freezes left)`
+          : `No qualifying activity on ${dateKey} (no freezes left)`,
+        missedDate: dateKey,
+        frozenDates,
       };
     }
 
-    return { shouldFail: false };
+    return { shouldFail: false, frozenDates };
   } catch (error) {
     console.error('Error checking challenge status:', error);
     return { shouldFail: false };
@@ -316,6 +440,11 @@ export async function getUserVerificationStatus(userAddress: Address): Promise<{
   lastVerified?: Date;
   nextVerificationDue?: Date;
   atRisk: boolean;
+  timezone?: string;
+  today?: string; // current streak day (YYYY-MM-DD)
+  freezes?: FreezeBalance;
+  // A missed (or at-risk) day a freeze will cover once its grace period ends
+  freezeAlert?: { date: string; usesAt: Date };
 }> {
   try {
     // Get user's active challenge
@@ -335,28 +464,56 @@ export async function getUserVerificationStatus(userAddress: Address): Promise<{
       };
     }
 
-    // Get verified days count
-    const { count } = await supabase
-      .from('daily_activity')
-      .select('*', { count: 'exact', head: true })
-      .eq('challenge_id', challenge.challenge_id)
-      .eq('verified', true);
+    // Get the challenge's verified and frozen days
+    const [{ data: activity }, purchased] = await Promise.all([
+      supabase
+        .from('daily_activity')
+        .select('date, verified, frozen')
+        .eq('challenge_id', challenge.challenge_id),
+      getPurchasedFreezes(challenge.challenge_id),
+    ]);
 
-    const daysVerified = count || 0;
+    const verifiedDays = new Set((activity || []).filter(row => row.verified).map(row => row.date as string));
+    const frozenDays = new Set((activity || []).filter(row => row.frozen).map(row => row.date as string));
+
+    const daysVerified = verifiedDays.size;
     const lastVerified = challenge.last_verified ? new Date(challenge.last_verified) : null;
     const now = new Date();
 
-    // Calculate if user is at risk (>20 hours since last verification)
-    const hoursSinceVerification = lastVerified
-      ? (now.getTime() - lastVerified.getTime()) / (1000 * 60 * 60)
-      : 24;
-
-    const atRisk = hoursSinceVerification >= 20;
+    const freezes = computeFreezeBalance({
+      verifiedDays: verifiedDays.size,
+      frozenDays: frozenDays.size,
+      purchased,
+    });
+
+    // Streak days are calendar days in the challenge's timezone
+    const timezone = challenge.timezone || DEFAULT_TIMEZONE;
+    const today = getDayKey(now, timezone);
+    const todayVerified = verifiedDays.has(today);
+    const todayEnds = getDayWindow(today, timezone).end;
+
+    // An earlier day that ended without activity but is still inside its grace period
+    const missedDay = getChallengeDays(new Date(challenge.start_date), challenge.duration, timezone)
+      .filter(day => day < today && !verifiedDays.has(day) && !frozenDays.has(day))
+      .find(day => getDayWindow(day, timezone).end.getTime() + GRACE_PERIOD * 1000 > now.getTime());
+
+    // Today is at risk when it has no verified activity and fewer than 4 hours are left in it
+    const todayAtRisk = !todayVerified && todayEnds.getTime() - now.getTime() <= 4 * 60 * 60 * 1000;
+    const riskyDay = missedDay || (todayAtRisk ? today : undefined);
+
+    // A freeze will cover the risky day, otherwise the challenge is at risk of failing
+    const freezeAlert = riskyDay && freezes.remaining > 0
+      ? {
+          date: riskyDay,
+          usesAt: new Date(getDayWindow(riskyDay, timezone).end.getTime() + GRACE_PERIOD * 1000),
+        }
+      : undefined;
+    const atRisk = !!riskyDay && !freezeAlert;
 
-    // Next verification due in 24 hours from last verification
-    const nextVerificationDue = lastVerified
-      ? new Date(lastVerified.getTime() + 24 * 60 * 60 * 1000)
-      : new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    // Activity is due by the end of today, or of tomorrow once today is verified
+    const nextVerificationDue = todayVerified
+      ? getDayWindow(addDays(today, 1), timezone).end
+      : todayEnds;
 
     return {
       hasActiveChallenge: true,
@@ -366,6 +523,10 @@ export async function getUserVerificationStatus(userAddress: Address): Promise<{
       lastVerified: lastVerified || undefined,
       nextVerificationDue,
       atRisk,
+      timezone,
+      today,
+      freezes,
+      freezeAlert,
     };
   } catch (error) {
     console.error('Error getting verification status:', error);
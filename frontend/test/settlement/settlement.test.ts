@@ -0,0 +1,176 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  parseEther,
+  parseEventLogs,
+  type Abi,
+  type Address,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { MEGAETH_CHAIN } from '@/lib/contracts/config';
+import { BetItChallengesABI } from '@/lib/contracts/abis';
+
+/**
+ * Settlement against a local anvil node
+ * Needs the Foundry artifacts and a node on the MegaETH chain id:
+ *   forge build && anvil --chain-id 4326
+ *   ANVIL_RPC_URL=http://127.0.0.1:8545 npm test
+ */
+
+const ANVIL_RPC_URL = process.env.ANVIL_RPC_URL;
+
+// anvil's first default account, which deploys the contracts and so owns them
+const OPERATOR_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const ARTIFACTS_DIR = path.resolve(__dirname, '../../../out');
+
+function loadArtifact(contract: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(readFileSync(path.join(ARTIFACTS_DIR, `${contract}.sol`, `${contract}.json`), 'utf8'));
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!ANVIL_RPC_URL)('settlement against anvil', { timeout: 30000 }, () => {
+  const transport = http(ANVIL_RPC_URL);
+  const publicClient = createPublicClient({ chain: MEGAETH_CHAIN, transport });
+  const testClient = createTestClient({ chain: MEGAETH_CHAIN, mode: 'anvil', transport });
+  const operator = createWalletClient({ account: privateKeyToAccount(OPERATOR_KEY), chain: MEGAETH_CHAIN, transport });
+
+  let challengesAddress: Address;
+  let user: Address;
+  let snapshot: Hex;
+
+  async function deploy(contract: string, args: unknown[]): Promise<Address> {
+    const { abi, bytecode } = loadArtifact(contract);
+    const hash = await operator.deployContract({ abi, bytecode, args });
+    const { contractAddress } = await publicClient.waitForTransactionReceipt({ hash });
+    return contractAddress!;
+  }
+
+  async function createChallenge(): Promise<number> {
+    const wallet = createWalletClient({ account: user, chain: MEGAETH_CHAIN, transport });
+    const hash = await wallet.writeContract({
+      address: challengesAddress,
+      abi: BetItChallengesABI,
+      functionName: 'createChallenge',
+      args: [BigInt(7)],
+      value: parseEther('0.1'),
+    });
+    const { logs } = await publicClient.waitForTransactionReceipt({ hash });
+
+    const [created] = parseEventLogs({ abi: BetItChallengesABI, logs, eventName: 'ChallengeCreated' });
+    return Number(created.args.challengeId);
+  }
+
+  // Config is read from the environment when the settlement module loads
+  async function loadSettlement(env: Record<string, string> = {}) {
+    vi.resetModules();
+    vi.stubEnv('SETTLEMENT_RPC_URL', ANVIL_RPC_URL!);
+    vi.stubEnv('SETTLEMENT_PRIVATE_KEY', OPERATOR_KEY);
+    vi.stubEnv('SETTLEMENT_MAX_RETRIES', '0');
+    vi.stubEnv('NEXT_PUBLIC_CHALLENGES_ADDRESS', challengesAddress);
+    for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value);
+    return import('@/lib/settlement/settlement');
+  }
+
+  async function getChallenge(challengeId: number) {
+    return publicClient.readContract({
+      address: challengesAddress,
+      abi: BetItChallengesABI,
+      functionName: 'getChallenge',
+      args: [BigInt(challengeId)],
+    });
+  }
+
+  beforeAll(async () => {
+    const chainId = await publicClient.getChainId();
+    if (chainId !== MEGAETH_CHAIN.id) {
+      throw new Error(`Start anvil with --chain-id ${MEGAETH_CHAIN.id} (got ${chainId})`);
+    }
+
+    const vault = await deploy('BetItVault', []);
+    challengesAddress = await deploy('BetItChallenges', [vault]);
+
+    // anvil's other default accounts are unlocked, the second one takes on challenges
+    user = (await createWalletClient({ chain: MEGAETH_CHAIN, transport }).getAddresses())[1];
+
+    snapshot = await testClient.snapshot();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await testClient.revert({ id: snapshot });
+    snapshot = await testClient.snapshot();
+  });
+
+  it('skips verifyStreak within the grace period instead of failing', async () => {
+    const challengeId = await createChallenge();
+    const { settleChallenge } = await loadSettlement();
+
+    const outcome = await settleChallenge({ challengeId, action: 'verifyStreak' });
+
+    expect(outcome.status).toBe('skipped');
+    expect(outcome.txHash).toBeUndefined();
+  });
+
+  it('advances lastVerified once the grace period has passed', async () => {
+    const challengeId = await createChallenge();
+    const before = await getChallenge(challengeId);
+    await testClient.increaseTime({ seconds: 24 * 60 * 60 });
+    await testClient.mine({ blocks: 1 });
+    const { settleChallenge } = await loadSettlement();
+
+    const outcome = await settleChallenge({ challengeId, action: 'verifyStreak' });
+
+    expect(outcome.status).toBe('confirmed');
+    expect(outcome.txHash).toBeDefined();
+    expect((await getChallenge(challengeId)).lastVerified).toBeGreaterThan(before.lastVerified);
+
+    // Running the same settlement again is a no-op
+    const repeat = await settleChallenge({ challengeId, action: 'verifyStreak' });
+    expect(repeat.status).toBe('skipped');
+  });
+
+  it('marks a challenge failed once and skips it afterwards', async () => {
+    const challengeId = await createChallenge();
+    const { settleChallenge } = await loadSettlement();
+
+    const outcome = await settleChallenge({ challengeId, action: 'markChallengeFailed' });
+    expect(outcome.status).toBe('confirmed');
+    expect((await getChallenge(challengeId)).active).toBe(false);
+
+    const repeat = await settleChallenge({ challengeId, action: 'markChallengeFailed' });
+    expect(repeat).toMatchObject({ status: 'skipped', reason: 'Challenge is no longer active on-chain' });
+  });
+
+  it('sends back-to-back settlements with distinct nonces', async () => {
+    const first = await createChallenge();
+    await testClient.increaseTime({ seconds: 24 * 60 * 60 });
+    await testClient.mine({ blocks: 1 });
+    const { settleChallenge } = await loadSettlement();
+
+    const [verified, failed] = await Promise.all([
+      settleChallenge({ challengeId: first, action: 'verifyStreak' }),
+      settleChallenge({ challengeId: first, action: 'markChallengeFailed' }),
+    ]);
+
+    expect(verified.status).toBe('confirmed');
+    expect(failed.status).toBe('confirmed');
+    expect(verified.txHash).not.toBe(failed.txHash);
+  });
+
+  it('only simulates in dry-run mode', async () => {
+    const challengeId = await createChallenge();
+    const { settleChallenge } = await loadSettlement({ SETTLEMENT_DRY_RUN: 'true' });
+
+    const outcome = await settleChallenge({ challengeId, action: 'markChallengeFailed' });
+
+    expect(outcome.status).toBe('dry_run');
+    expect((await getChallenge(challengeId)).active).toBe(true);
+  });
+});
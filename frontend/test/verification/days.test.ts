@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  getChallengeDays,
+  getDayKey,
+  getDayWindow,
+  isDayKey,
+  isValidTimeZone,
+  resolveDayKey,
+} from '@/lib/verification/days';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('getDayWindow', () => {
+  it('spans 24 hours from UTC midnight by default', () => {
+    const { start, end } = getDayWindow('2026-06-15');
+
+    expect(start.toISOString()).toBe('2026-06-15T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-06-16T00:00:00.000Z');
+  });
+
+  it('starts at local midnight in the challenge timezone', () => {
+    const { start, end } = getDayWindow('2026-06-15', 'Asia/Tokyo');
+
+    expect(start.toISOString()).toBe('2026-06-14T15:00:00.000Z');
+    expect(end.getTime() - start.getTime()).toBe(24 * HOUR);
+  });
+
+  it('is 23 hours long on the spring-forward day', () => {
+    const { start, end } = getDayWindow('2026-03-08', 'America/New_York');
+
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(end.getTime() - start.getTime()).toBe(23 * HOUR);
+  });
+
+  it('is 25 hours long on the fall-back day', () => {
+    const { start, end } = getDayWindow('2026-11-01', 'America/New_York');
+
+    expect(start.toISOString()).toBe('2026-11-01T04:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-11-02T05:00:00.000Z');
+    expect(end.getTime() - start.getTime()).toBe(25 * HOUR);
+  });
+
+  it('handles a transition at local midnight', () => {
+    // Santiago springs forward from 00:00 to 01:00, so the day starts at 01:00 local
+    const { start, end } = getDayWindow('2026-09-06', 'America/Santiago');
+
+    expect(start.toISOString()).toBe('2026-09-06T04:00:00.000Z');
+    expect(end.getTime() - start.getTime()).toBe(23 * HOUR);
+  });
+
+  it('tiles consecutive days without gaps or overlap across a transition', () => {
+    let day = '2026-10-30';
+    for (let i = 0; i < 5; i++) {
+      const next = addDays(day, 1);
+      expect(getDayWindow(day, 'Europe/Berlin').end.getTime())
+        .toBe(getDayWindow(next, 'Europe/Berlin').start.getTime());
+      day = next;
+    }
+  });
+});
+
+describe('getDayKey', () => {
+  it('uses the calendar date in the given timezone', () => {
+    const instant = new Date('2026-03-08T03:30:00Z');
+
+    expect(getDayKey(instant)).toBe('2026-03-08');
+    expect(getDayKey(instant, 'America/New_York')).toBe('2026-03-07');
+    expect(getDayKey(instant, 'Asia/Kolkata')).toBe('2026-03-08');
+  });
+
+  it('puts both repeated 1am hours of the fall-back day on the same day', () => {
+    const firstOneAm = new Date('2026-11-01T05:30:00Z');
+    const secondOneAm = new Date('2026-11-01T06:30:00Z');
+
+    expect(getDayKey(firstOneAm, 'America/New_York')).toBe('2026-11-01');
+    expect(getDayKey(secondOneAm, 'America/New_York')).toBe('2026-11-01');
+  });
+
+  it('agrees with the window boundaries', () => {
+    const { start, end } = getDayWindow('2026-03-08', 'America/New_York');
+
+    expect(getDayKey(start, 'America/New_York')).toBe('2026-03-08');
+    expect(getDayKey(new Date(end.getTime() - 1), 'America/New_York')).toBe('2026-03-08');
+    expect(getDayKey(end, 'America/New_York')).toBe('2026-03-09');
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2026-01-31', 1)).toBe('2026-02-01');
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+  });
+
+  it('goes backwards', () => {
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('counts calendar days across DST transitions', () => {
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09');
+    expect(addDays('2026-11-01', 1)).toBe('2026-11-02');
+  });
+});
+
+describe('getChallengeDays', () => {
+  it('lists one day per day of the duration from the start day', () => {
+    expect(getChallengeDays(new Date('2026-03-06T12:00:00Z'), 4, 'America/New_York'))
+      .toEqual(['2026-03-06', '2026-03-07', '2026-03-08', '2026-03-09']);
+  });
+
+  it('starts on the local day of the start instant', () => {
+    // 02:00 UTC on Nov 1 is still Oct 31 in New York
+    expect(getChallengeDays(new Date('2026-11-01T02:00:00Z'), 2, 'America/New_York'))
+      .toEqual(['2026-10-31', '2026-11-01']);
+  });
+});
+
+describe('resolveDayKey', () => {
+  it('keeps day keys as they are', () => {
+    expect(resolveDayKey('2026-03-08', 'Asia/Tokyo')).toBe('2026-03-08');
+  });
+
+  it('maps instants to their day in the timezone', () => {
+    expect(resolveDayKey(new Date('2026-03-08T20:00:00Z'), 'Asia/Tokyo')).toBe('2026-03-09');
+  });
+});
+
+describe('validation', () => {
+  it('accepts IANA timezones only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+    expect(isValidTimeZone(42)).toBe(false);
+  });
+
+  it('accepts YYYY-MM-DD day keys only', () => {
+    expect(isDayKey('2026-03-08')).toBe(true);
+    expect(isDayKey('2026-3-8')).toBe(false);
+    expect(isDayKey('2026-03-08T00:00:00Z')).toBe(false);
+  });
+});
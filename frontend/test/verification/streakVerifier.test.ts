@@ -0,0 +1,256 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type Address, type Hash } from 'viem';
+import { evaluateDailyActivity } from '@/lib/verification/streakVerifier';
+import { DEFAULT_ACTIVITY_RULES } from '@/lib/verification/activityRules';
+import {
+  createFixtureSource,
+  loadFixtureSource,
+  TransactionSourceError,
+  type SourceTransaction,
+  type TransactionSource,
+} from '@/lib/verification/sources';
+
+const { verifiedContracts } = vi.hoisted(() => ({
+  verifiedContracts: [] as Array<{ address: string; category: string | null }>,
+}));
+
+// The verifier reads verified contracts from Supabase and the day's blocks from the chain
+vi.mock('@/lib/supabase/client', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: async () => ({ data: verifiedContracts, error: null }),
+      }),
+    }),
+  },
+}));
+
+vi.mock('@/lib/verification/blockResolver', () => ({
+  getBlockRangeForDay: async () => ({ fromBlock: BigInt(100), toBlock: BigInt(199), complete: true }),
+}));
+
+vi.mock('@/lib/contracts/config', async importOriginal => {
+  const config = await importOriginal<typeof import('@/lib/contracts/config')>();
+  return { ...config, VERIFICATION: { ...config.VERIFICATION, MAX_TXS_PER_USER_DAY: 3 } };
+});
+
+const USER = '0x1111111111111111111111111111111111111111' as Address;
+const STRANGER = '0x2222222222222222222222222222222222222222' as Address;
+const DEX = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' as Address;
+const ROUTER = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' as Address;
+const TOKEN = '0xcccccccccccccccccccccccccccccccccccccccc' as Address;
+const OTHER = '0xdddddddddddddddddddddddddddddddddddddddd' as Address;
+
+const DAY = '2026-03-08';
+const SETTINGS = { rules: DEFAULT_ACTIVITY_RULES, timezone: 'America/New_York' };
+
+function hash(n: number): Hash {
+  return `0x${n.toString(16).padStart(64, '0')}` as Hash;
+}
+
+function tx(n: number, overrides: Partial<SourceTransaction> = {}): SourceTransaction {
+  return {
+    hash: hash(n),
+    from: USER,
+    to: OTHER,
+    blockNumber: BigInt(150),
+    value: BigInt(0),
+    fee: BigInt(0),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  verifiedContracts.splice(0, verifiedContracts.length,
+    { address: DEX, category: 'defi' },
+    { address: TOKEN, category: 'defi' },
+  );
+});
+
+describe('evaluateDailyActivity with the fixture source', () => {
+  it('verifies a day with a transaction sent straight to a verified contract', async () => {
+    const source = createFixtureSource({ transactions: [tx(1, { to: DEX })] });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: true, txCount: 1, day: DAY });
+    expect(result.contractsUsed).toEqual([{ address: DEX, via: 'direct' }]);
+  });
+
+  it('records a day without qualifying activity as unverified', async () => {
+    const source = createFixtureSource({ transactions: [tx(1)] });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: false, txCount: 0, failedRule: 'min_tx_count' });
+  });
+
+  it('ignores transactions outside the day\'s blocks', async () => {
+    const source = createFixtureSource({ transactions: [tx(1, { to: DEX, blockNumber: BigInt(200) })] });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: false });
+  });
+
+  it('counts calls routed to a verified contract through another contract', async () => {
+    const source = createFixtureSource({
+      transactions: [tx(1, { to: ROUTER })],
+      internalCalls: [{ txHash: hash(1), from: ROUTER, to: DEX, blockNumber: BigInt(150) }],
+    });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: true, txCount: 1 });
+    expect(result.contractsUsed).toEqual([{ address: DEX, via: 'internal' }]);
+  });
+
+  it('counts token transfers out of the wallet', async () => {
+    const source = createFixtureSource({
+      transactions: [],
+      tokenTransfers: [{ txHash: hash(7), token: TOKEN, from: USER, to: STRANGER, blockNumber: BigInt(150) }],
+    });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: true });
+    expect(result.contractsUsed).toEqual([{ address: TOKEN, via: 'token_transfer' }]);
+  });
+
+  it('counts token transfers into the wallet from a transaction the user sent', async () => {
+    const source = createFixtureSource({
+      transactions: [tx(1, { to: ROUTER })],
+      tokenTransfers: [{ txHash: hash(1), token: TOKEN, from: ROUTER, to: USER, blockNumber: BigInt(150) }],
+    });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: true });
+  });
+
+  it('does not count tokens someone else sent to the wallet', async () => {
+    const source = createFixtureSource({
+      transactions: [],
+      tokenTransfers: [{ txHash: hash(9), token: TOKEN, from: STRANGER, to: USER, blockNumber: BigInt(150) }],
+    });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: false });
+  });
+
+  it('applies the challenge\'s activity rules', async () => {
+    const source = createFixtureSource({ transactions: [tx(1, { to: DEX }), tx(2, { to: DEX })] });
+
+    const result = await evaluateDailyActivity(USER, DAY, {
+      ...SETTINGS,
+      rules: { min_tx_count: 1, min_distinct_contracts: 2 },
+    }, source);
+
+    expect(result).toMatchObject({ success: true, verified: false, failedRule: 'min_distinct_contracts' });
+  });
+
+  it('reports a truncated fetch that fails the rules as inconclusive', async () => {
+    const source = createFixtureSource({
+      transactions: [tx(1), tx(2), tx(3), tx(4, { to: DEX })],
+    });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: false, verified: false, truncated: true });
+  });
+
+  it('verifies a truncated fetch that already satisfies the rules', async () => {
+    const source = createFixtureSource({
+      transactions: [tx(1, { to: DEX }), tx(2), tx(3), tx(4)],
+    });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: true, verified: true, truncated: true });
+  });
+
+  it('tells a failed source apart from a day without activity', async () => {
+    const source: TransactionSource = {
+      ...createFixtureSource({ transactions: [] }),
+      async getTransactions() {
+        throw new TransactionSourceError('fixture', 'unreachable');
+      },
+    };
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: false, verified: false, error: 'Transaction source failed (fixture)' });
+  });
+
+  it('refuses to verify without verified contracts', async () => {
+    verifiedContracts.splice(0, verifiedContracts.length);
+    const source = createFixtureSource({ transactions: [tx(1, { to: DEX })] });
+
+    const result = await evaluateDailyActivity(USER, DAY, SETTINGS, source);
+
+    expect(result).toMatchObject({ success: false, error: 'No verified contracts configured' });
+  });
+});
+
+describe('createFixtureSource', () => {
+  it('flags truncation only when more transactions exist than the cap', async () => {
+    const source = createFixtureSource({ transactions: [tx(1), tx(2), tx(3)] });
+
+    const capped = await source.getTransactions(USER, BigInt(100), BigInt(199), { maxTransactions: 2 });
+    expect(capped.transactions).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+
+    const exact = await source.getTransactions(USER, BigInt(100), BigInt(199), { maxTransactions: 3 });
+    expect(exact.transactions).toHaveLength(3);
+    expect(exact.truncated).toBe(false);
+  });
+
+  it('only returns transactions sent by the address', async () => {
+    const source = createFixtureSource({ transactions: [tx(1), tx(2, { from: STRANGER })] });
+
+    const { transactions } = await source.getTransactions(USER, BigInt(100), BigInt(199));
+
+    expect(transactions.map(t => t.hash)).toEqual([hash(1)]);
+  });
+});
+
+describe('loadFixtureSource', () => {
+  function writeFixture(content: unknown): string {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'fixture-')), 'fixture.json');
+    writeFileSync(file, JSON.stringify(content));
+    return file;
+  }
+
+  it('reads block numbers and wei amounts given as numbers or decimal strings', async () => {
+    const source = loadFixtureSource(writeFixture({
+      transactions: [
+        { hash: hash(1), from: USER, to: DEX, blockNumber: 150, value: '1000000000000000000' },
+        { hash: hash(2), from: USER, blockNumber: '160', fee: 21000 },
+      ],
+    }));
+
+    const { transactions } = await source.getTransactions(USER, BigInt(100), BigInt(199));
+
+    expect(transactions).toEqual([
+      { hash: hash(1), from: USER, to: DEX, blockNumber: BigInt(150), value: BigInt('1000000000000000000'), fee: null },
+      { hash: hash(2), from: USER, to: null, blockNumber: BigInt(160), value: BigInt(0), fee: BigInt(21000) },
+    ]);
+  });
+
+  it('rejects entries that do not match the fixture shape', () => {
+    const file = writeFixture({
+      transactions: [tx(1, { to: DEX })].map(t => ({ ...t, blockNumber: '150', value: '0', fee: null })),
+      internalCalls: [{ txHash: hash(1), from: ROUTER, to: 'not-an-address', blockNumber: 150 }],
+    });
+
+    expect(() => loadFixtureSource(file)).toThrow('internalCalls[0].to must be an address');
+  });
+
+  it('rejects unknown top-level keys', () => {
+    expect(() => loadFixtureSource(writeFixture({ transactions: [], traces: [] }))).toThrow(TransactionSourceError);
+  });
+});
@@ -4,6 +4,8 @@ pragma solidity 0.8.24;
 import "forge-std/Script.sol";
 import "../src/BetItVault.sol";
 import "../src/BetItChallenges.sol";
+import "../src/BetItHeadToHead.sol";
+import "../src/BetItSquads.sol";
 
 /**
  * @title Deploy Script
@@ -34,6 +36,14 @@ contract DeployScript is Script {
         vault.setAuthorizedPayer(address(challenges));
         console.log("Set BetItChallenges as authorized payer");
 
+        // Step 3b: Deploy BetItHeadToHead (pays fees into the vault, never draws from it)
+        BetItHeadToHead headToHead = new BetItHeadToHead(address(vault));
+        console.log("BetItHeadToHead deployed at:", address(headToHead));
+
+        // Step 3c: Deploy BetItSquads (pays its share into the vault, never draws from it)
+        BetItSquads squads = new BetItSquads(address(vault));
+        console.log("BetItSquads deployed at:", address(squads));
+
         // Step 4: Add initial verified contracts
         // TODO: Replace these addresses with actual MegaETH contract addresses
         address[] memory verifiedContracts = getInitialVerifiedContracts();
@@ -48,6 +58,8 @@ contract DeployScript is Script {
         // Step 5: Transfer ownership to multisig
         vault.transferOwnership(multisig);
         challenges.transferOwnership(multisig);
+        headToHead.transferOwnership(multisig);
+        squads.transferOwnership(multisig);
         console.log("Transferred ownership to multisig");
 
         vm.stopBroadcast();
@@ -55,11 +67,15 @@ contract DeployScript is Script {
         console.log("\n=== Deployment Summary ===");
         console.log("BetItVault:", address(vault));
         console.log("BetItChallenges:", address(challenges));
+        console.log("BetItHeadToHead:", address(headToHead));
+        console.log("BetItSquads:", address(squads));
         console.log("Owner (Multisig):", multisig);
         console.log("\nNext steps:");
         console.log("1. Verify contracts on Blockscout:");
         console.log("   forge verify-contract", address(vault), "BetItVault --chain-id 4326");
         console.log("   forge verify-contract", address(challenges), "BetItChallenges --chain-id 4326 --constructor-args $(cast abi-encode \"constructor(address)\"", address(vault), ")");
+        console.log("   forge verify-contract", address(headToHead), "BetItHeadToHead --chain-id 4326 --constructor-args $(cast abi-encode \"constructor(address)\"", address(vault), ")");
+        console.log("   forge verify-contract", address(squads), "BetItSquads --chain-id 4326 --constructor-args $(cast abi-encode \"constructor(address)\"", address(vault), ")");
         console.log("2. Fund vault with initial LP capital (1-2 ETH)");
         console.log("3. Update frontend environment variables with contract addresses");
     }
@@ -102,7 +102,7 @@ contract BetItChallenges is Ownable, ReentrancyGuard {
 
     /**
      * @notice Create a new challenge
-     * @param duration Challenge duration in days (7, 14, 30, 60, or 90)
+     * @param duration Challenge duration in days (any duration with a bonus rate set)
      */
     function createChallenge(uint256 duration) external payable nonReentrant {
         if (msg.value < MIN_STAKE || msg.value > MAX_STAKE) revert InvalidStakeAmount();
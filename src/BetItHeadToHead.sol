@@ -0,0 +1,293 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/IBetItVault.sol";
+
+/**
+ * @title BetItHeadToHead
+ * @notice Head-to-head streak challenges between two wallets with matched stakes
+ * @dev Streaks are verified off-chain (same as BetItChallenges); the owner settles
+ *      each match with both participants' results and the pot is credited to the
+ *      participants, who pull it with withdraw() so neither can block the other.
+ *      A match the owner never settles can be refunded by either participant once
+ *      SETTLEMENT_TIMEOUT has passed after it ended, so stakes are never locked.
+ */
+contract BetItHeadToHead is Ownable, ReentrancyGuard {
+    enum Status {
+        None,
+        Pending,
+        Active,
+        Settled,
+        Cancelled
+    }
+
+    /// @notice Head-to-head match data structure
+    struct HeadToHead {
+        address challenger;
+        address opponent;
+        uint256 stake; // per participant
+        uint256 duration; // in days
+        uint256 createdAt;
+        uint256 startDate;
+        Status status;
+        address winner; // address(0) unless exactly one participant kept their streak
+    }
+
+    /// @notice Reference to the LP vault contract (receives fees and forfeited stakes)
+    IBetItVault public immutable vault;
+
+    /// @notice Mapping of match ID to HeadToHead struct
+    mapping(uint256 => HeadToHead) public matches;
+
+    /// @notice Payouts and refunds waiting to be withdrawn
+    mapping(address => uint256) public pendingWithdrawals;
+
+    /// @notice Counter for match IDs
+    uint256 private _nextMatchId = 1;
+
+    /// @notice Platform fee on the winner's pot (5% = 500 basis points)
+    uint256 public constant PLATFORM_FEE = 500;
+    uint256 public constant BASIS_POINTS = 10000;
+
+    /// @notice Stake limits per participant
+    uint256 public constant MIN_STAKE = 0.01 ether;
+    uint256 public constant MAX_STAKE = 100 ether;
+
+    /// @notice How long an invite can be accepted for
+    uint256 public constant INVITE_TTL = 7 days;
+
+    /// @notice How long after a match ends the owner has to settle it before either participant can refund it
+    uint256 public constant SETTLEMENT_TIMEOUT = 7 days;
+
+    /// @notice Allowed durations (the owner keeps these in line with BetItChallenges' bonus rates)
+    mapping(uint256 => bool) public validDurations;
+
+    event H2HCreated(
+        uint256 indexed matchId,
+        address indexed challenger,
+        address indexed opponent,
+        uint256 stake,
+        uint256 duration
+    );
+
+    event H2HAccepted(uint256 indexed matchId, address indexed opponent, uint256 startDate);
+
+    event H2HCancelled(uint256 indexed matchId, address indexed challenger);
+
+    event H2HRefunded(uint256 indexed matchId, address indexed caller);
+
+    /// @param winner address(0) when both kept or both broke their streaks
+    event H2HSettled(
+        uint256 indexed matchId,
+        address indexed winner,
+        bool challengerSurvived,
+        bool opponentSurvived,
+        uint256 payout,
+        uint256 fee
+    );
+
+    event Withdrawn(address indexed account, uint256 amount);
+
+    error InvalidDuration();
+    error InvalidStakeAmount();
+    error InvalidOpponent();
+    error NotOpponent();
+    error NotChallenger();
+    error NotParticipant();
+    error StakeMismatch();
+    error InviteExpired();
+    error MatchNotPending();
+    error MatchNotActive();
+    error MatchNotComplete();
+    error SettlementPending();
+    error NothingToWithdraw();
+    error TransferFailed();
+
+    constructor(address vaultAddress) Ownable(msg.sender) {
+        vault = IBetItVault(vaultAddress);
+
+        validDurations[7] = true;
+        validDurations[14] = true;
+        validDurations[30] = true;
+        validDurations[60] = true;
+        validDurations[90] = true;
+    }
+
+    /**
+     * @notice Invite an opponent to a head-to-head challenge
+     * @param opponent Address that can accept the invite
+     * @param duration Shared duration in days (any duration marked valid)
+     * @return matchId ID of the new match
+     */
+    function createH2H(address opponent, uint256 duration) external payable nonReentrant returns (uint256 matchId) {
+        if (msg.value < MIN_STAKE || msg.value > MAX_STAKE) revert InvalidStakeAmount();
+        if (!validDurations[duration]) revert InvalidDuration();
+        if (opponent == address(0) || opponent == msg.sender) revert InvalidOpponent();
+
+        matchId = _nextMatchId++;
+
+        matches[matchId] = HeadToHead({
+            challenger: msg.sender,
+            opponent: opponent,
+            stake: msg.value,
+            duration: duration,
+            createdAt: block.timestamp,
+            startDate: 0,
+            status: Status.Pending,
+            winner: address(0)
+        });
+
+        emit H2HCreated(matchId, msg.sender, opponent, msg.value, duration);
+    }
+
+    /**
+     * @notice Accept an invite by matching the stake; the match starts now
+     * @param matchId Match ID to accept
+     */
+    function acceptH2H(uint256 matchId) external payable nonReentrant {
+        HeadToHead storage h = matches[matchId];
+
+        if (h.status != Status.Pending) revert MatchNotPending();
+        if (msg.sender != h.opponent) revert NotOpponent();
+        if (block.timestamp > h.createdAt + INVITE_TTL) revert InviteExpired();
+        if (msg.value != h.stake) revert StakeMismatch();
+
+        h.status = Status.Active;
+        h.startDate = block.timestamp;
+
+        emit H2HAccepted(matchId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @notice Withdraw an invite that has not been accepted and refund the stake
+     * @param matchId Match ID to cancel
+     */
+    function cancelH2H(uint256 matchId) external nonReentrant {
+        HeadToHead storage h = matches[matchId];
+
+        if (h.status != Status.Pending) revert MatchNotPending();
+        if (msg.sender != h.challenger) revert NotChallenger();
+
+        h.status = Status.Cancelled;
+
+        emit H2HCancelled(matchId, msg.sender);
+
+        _send(h.challenger, h.stake);
+    }
+
+    /**
+     * @notice Credit both stakes back when a match was never settled
+     * @dev Either participant can call once SETTLEMENT_TIMEOUT has passed after the match
+     *      ended, so a backend that stops settling never locks the stakes.
+     * @param matchId Match ID to refund
+     */
+    function refundH2H(uint256 matchId) external nonReentrant {
+        HeadToHead storage h = matches[matchId];
+
+        if (h.status != Status.Active) revert MatchNotActive();
+        if (msg.sender != h.challenger && msg.sender != h.opponent) revert NotParticipant();
+        if (block.timestamp <= h.startDate + (h.duration * 1 days) + SETTLEMENT_TIMEOUT) {
+            revert SettlementPending();
+        }
+
+        h.status = Status.Cancelled;
+
+        emit H2HRefunded(matchId, msg.sender);
+
+        pendingWithdrawals[h.challenger] += h.stake;
+        pendingWithdrawals[h.opponent] += h.stake;
+    }
+
+    /**
+     * @notice Settle a match with both participants' streak results (called by backend service)
+     * @dev One survivor is credited the pot minus the platform fee. Both surviving are
+     *      credited their stakes back. Both failing forfeits both stakes to the vault, as in solo challenges.
+     *      A match can only be settled early when both participants have already failed.
+     * @param matchId Match ID to settle
+     * @param challengerSurvived Whether the challenger kept their streak
+     * @param opponentSurvived Whether the opponent kept their streak
+     */
+    function settleH2H(uint256 matchId, bool challengerSurvived, bool opponentSurvived)
+        external
+        onlyOwner
+        nonReentrant
+    {
+        HeadToHead storage h = matches[matchId];
+
+        if (h.status != Status.Active) revert MatchNotActive();
+
+        bool bothFailed = !challengerSurvived && !opponentSurvived;
+        if (!bothFailed && block.timestamp < h.startDate + (h.duration * 1 days)) {
+            revert MatchNotComplete();
+        }
+
+        h.status = Status.Settled;
+
+        uint256 pot = h.stake * 2;
+        uint256 payout;
+        uint256 fee;
+
+        if (challengerSurvived != opponentSurvived) {
+            h.winner = challengerSurvived ? h.challenger : h.opponent;
+            fee = (pot * PLATFORM_FEE) / BASIS_POINTS;
+            payout = pot - fee;
+        } else if (!bothFailed) {
+            payout = h.stake; // each
+        } else {
+            fee = pot;
+        }
+
+        emit H2HSettled(matchId, h.winner, challengerSurvived, opponentSurvived, payout, fee);
+
+        if (fee > 0) {
+            vault.addRevenue{value: fee}();
+        }
+
+        if (h.winner != address(0)) {
+            pendingWithdrawals[h.winner] += payout;
+        } else if (!bothFailed) {
+            pendingWithdrawals[h.challenger] += payout;
+            pendingWithdrawals[h.opponent] += payout;
+        }
+    }
+
+    /**
+     * @notice Withdraw every payout credited to the caller
+     * @return amount Amount sent
+     */
+    function withdraw() external nonReentrant returns (uint256 amount) {
+        amount = pendingWithdrawals[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+
+        pendingWithdrawals[msg.sender] = 0;
+
+        emit Withdrawn(msg.sender, amount);
+
+        _send(msg.sender, amount);
+    }
+
+    /**
+     * @notice Get match details
+     * @param matchId Match ID
+     * @return HeadToHead struct
+     */
+    function getH2H(uint256 matchId) external view returns (HeadToHead memory) {
+        return matches[matchId];
+    }
+
+    /**
+     * @notice Allow or disallow a duration for new matches
+     * @param duration Duration in days
+     * @param valid Whether new matches can use it
+     */
+    function updateValidDuration(uint256 duration, bool valid) external onlyOwner {
+        validDurations[duration] = valid;
+    }
+
+    function _send(address to, uint256 amount) private {
+        (bool success, ) = payable(to).call{value: amount}("");
+        if (!success) revert TransferFailed();
+    }
+}
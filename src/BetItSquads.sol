@@ -0,0 +1,308 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/IBetItVault.sol";
+
+/**
+ * @title BetItSquads
+ * @notice Squad streak challenges where members stake the same amount into a shared pool
+ * @dev Streaks are verified off-chain (same as BetItChallenges); the owner settles each
+ *      squad with its surviving members. Failed members' stakes are split between the
+ *      survivors and the vault. Refunds and payouts are credited and pulled with
+ *      withdraw(), so one member that can't receive ETH can't block the others.
+ */
+contract BetItSquads is Ownable, ReentrancyGuard {
+    enum Status {
+        None,
+        Open,
+        Active,
+        Settled,
+        Cancelled
+    }
+
+    /// @notice Squad data structure
+    struct Squad {
+        address creator;
+        uint256 stake; // per member
+        uint256 duration; // in days
+        uint256 maxMembers;
+        uint256 memberCount;
+        uint256 createdAt;
+        uint256 startDate;
+        Status status;
+    }
+
+    /// @notice Reference to the LP vault contract
+    IBetItVault public immutable vault;
+
+    /// @notice Mapping of squad ID to Squad struct
+    mapping(uint256 => Squad) public squads;
+
+    /// @notice Members of each squad, in join order
+    mapping(uint256 => address[]) private _members;
+
+    /// @notice Whether an address is a member of a squad
+    mapping(uint256 => mapping(address => bool)) public isMember;
+
+    /// @notice Refunds and payouts waiting to be withdrawn
+    mapping(address => uint256) public pendingWithdrawals;
+
+    /// @notice Counter for squad IDs
+    uint256 private _nextSquadId = 1;
+
+    /// @notice Vault share of forfeited stakes (10% = 1000 basis points)
+    uint256 public constant VAULT_SHARE = 1000;
+    uint256 public constant BASIS_POINTS = 10000;
+
+    /// @notice Stake limits per member
+    uint256 public constant MIN_STAKE = 0.01 ether;
+    uint256 public constant MAX_STAKE = 100 ether;
+
+    /// @notice Squad size limits
+    uint256 public constant MIN_MEMBERS = 2;
+    uint256 public constant MAX_MEMBERS = 20;
+
+    /// @notice How long a squad stays open for joining
+    uint256 public constant JOIN_WINDOW = 7 days;
+
+    /// @notice Allowed durations (matches BetItChallenges)
+    mapping(uint256 => bool) public validDurations;
+
+    event SquadCreated(
+        uint256 indexed squadId,
+        address indexed creator,
+        uint256 stake,
+        uint256 duration,
+        uint256 maxMembers
+    );
+
+    event SquadJoined(uint256 indexed squadId, address indexed member, uint256 memberCount);
+
+    event SquadStarted(uint256 indexed squadId, uint256 startDate, uint256 memberCount);
+
+    event SquadCancelled(uint256 indexed squadId);
+
+    event SquadSettled(
+        uint256 indexed squadId,
+        uint256 survivorCount,
+        uint256 payoutPerSurvivor,
+        uint256 vaultAmount
+    );
+
+    event Withdrawn(address indexed account, uint256 amount);
+
+    error InvalidDuration();
+    error InvalidStakeAmount();
+    error InvalidSquadSize();
+    error SquadNotOpen();
+    error SquadNotActive();
+    error SquadFull();
+    error AlreadyMember();
+    error NotCreator();
+    error NotEnoughMembers();
+    error JoinWindowClosed();
+    error StakeMismatch();
+    error InvalidSurvivors();
+    error SquadNotComplete();
+    error NothingToWithdraw();
+    error TransferFailed();
+
+    constructor(address vaultAddress) Ownable(msg.sender) {
+        vault = IBetItVault(vaultAddress);
+
+        validDurations[7] = true;
+        validDurations[14] = true;
+        validDurations[30] = true;
+        validDurations[60] = true;
+        validDurations[90] = true;
+    }
+
+    /**
+     * @notice Create a squad and join it with the stake every member must match
+     * @param duration Duration in days (7, 14, 30, 60, or 90)
+     * @param maxMembers Squad size cap (2 to 20); the squad starts once it is full
+     * @return squadId ID of the new squad
+     */
+    function createSquad(uint256 duration, uint256 maxMembers)
+        external
+        payable
+        nonReentrant
+        returns (uint256 squadId)
+    {
+        if (msg.value < MIN_STAKE || msg.value > MAX_STAKE) revert InvalidStakeAmount();
+        if (!validDurations[duration]) revert InvalidDuration();
+        if (maxMembers < MIN_MEMBERS || maxMembers > MAX_MEMBERS) revert InvalidSquadSize();
+
+        squadId = _nextSquadId++;
+
+        squads[squadId] = Squad({
+            creator: msg.sender,
+            stake: msg.value,
+            duration: duration,
+            maxMembers: maxMembers,
+            memberCount: 1,
+            createdAt: block.timestamp,
+            startDate: 0,
+            status: Status.Open
+        });
+
+        _members[squadId].push(msg.sender);
+        isMember[squadId][msg.sender] = true;
+
+        emit SquadCreated(squadId, msg.sender, msg.value, duration, maxMembers);
+        emit SquadJoined(squadId, msg.sender, 1);
+    }
+
+    /**
+     * @notice Join an open squad by matching its stake
+     * @param squadId Squad ID to join
+     */
+    function joinSquad(uint256 squadId) external payable nonReentrant {
+        Squad storage s = squads[squadId];
+
+        if (s.status != Status.Open) revert SquadNotOpen();
+        if (block.timestamp > s.createdAt + JOIN_WINDOW) revert JoinWindowClosed();
+        if (isMember[squadId][msg.sender]) revert AlreadyMember();
+        if (s.memberCount >= s.maxMembers) revert SquadFull();
+        if (msg.value != s.stake) revert StakeMismatch();
+
+        _members[squadId].push(msg.sender);
+        isMember[squadId][msg.sender] = true;
+        s.memberCount++;
+
+        emit SquadJoined(squadId, msg.sender, s.memberCount);
+
+        if (s.memberCount == s.maxMembers) {
+            _start(squadId, s);
+        }
+    }
+
+    /**
+     * @notice Start a squad before it is full
+     * @param squadId Squad ID to start
+     */
+    function startSquad(uint256 squadId) external nonReentrant {
+        Squad storage s = squads[squadId];
+
+        if (s.status != Status.Open) revert SquadNotOpen();
+        if (msg.sender != s.creator) revert NotCreator();
+        if (s.memberCount < MIN_MEMBERS) revert NotEnoughMembers();
+
+        _start(squadId, s);
+    }
+
+    /**
+     * @notice Cancel a squad that has not started and credit every member's refund
+     * @dev The creator can cancel at any time; once the join window has passed anyone
+     *      can, so an abandoned squad never locks its members' stakes.
+     * @param squadId Squad ID to cancel
+     */
+    function cancelSquad(uint256 squadId) external nonReentrant {
+        Squad storage s = squads[squadId];
+
+        if (s.status != Status.Open) revert SquadNotOpen();
+        if (msg.sender != s.creator && block.timestamp <= s.createdAt + JOIN_WINDOW) revert NotCreator();
+
+        s.status = Status.Cancelled;
+
+        emit SquadCancelled(squadId);
+
+        address[] storage members = _members[squadId];
+        for (uint256 i = 0; i < members.length; i++) {
+            pendingWithdrawals[members[i]] += s.stake;
+        }
+    }
+
+    /**
+     * @notice Settle a squad with its surviving members (called by backend service)
+     * @dev Survivors are credited their stake plus an equal share of the forfeited stakes
+     *      after the vault's share; rounding dust goes to the vault. With no survivors
+     *      every stake goes to the vault, and the squad can be settled early.
+     * @param squadId Squad ID to settle
+     * @param survivors Members who kept their streak, in ascending address order
+     */
+    function settleSquad(uint256 squadId, address[] calldata survivors) external onlyOwner nonReentrant {
+        Squad storage s = squads[squadId];
+
+        if (s.status != Status.Active) revert SquadNotActive();
+        if (survivors.length > 0 && block.timestamp < s.startDate + (s.duration * 1 days)) {
+            revert SquadNotComplete();
+        }
+
+        // Ascending order rules out duplicates without extra storage
+        for (uint256 i = 0; i < survivors.length; i++) {
+            if (!isMember[squadId][survivors[i]]) revert InvalidSurvivors();
+            if (i > 0 && survivors[i] <= survivors[i - 1]) revert InvalidSurvivors();
+        }
+
+        s.status = Status.Settled;
+
+        uint256 forfeited = s.stake * (s.memberCount - survivors.length);
+        uint256 payoutPerSurvivor;
+        uint256 vaultAmount = forfeited;
+
+        if (survivors.length > 0) {
+            uint256 shared = forfeited - (forfeited * VAULT_SHARE) / BASIS_POINTS;
+            uint256 share = shared / survivors.length;
+            payoutPerSurvivor = s.stake + share;
+            vaultAmount = forfeited - share * survivors.length;
+        }
+
+        emit SquadSettled(squadId, survivors.length, payoutPerSurvivor, vaultAmount);
+
+        if (vaultAmount > 0) {
+            vault.addRevenue{value: vaultAmount}();
+        }
+
+        for (uint256 i = 0; i < survivors.length; i++) {
+            pendingWithdrawals[survivors[i]] += payoutPerSurvivor;
+        }
+    }
+
+    /**
+     * @notice Withdraw every refund and payout credited to the caller
+     * @return amount Amount sent
+     */
+    function withdraw() external nonReentrant returns (uint256 amount) {
+        amount = pendingWithdrawals[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+
+        pendingWithdrawals[msg.sender] = 0;
+
+        emit Withdrawn(msg.sender, amount);
+
+        _send(msg.sender, amount);
+    }
+
+    /**
+     * @notice Get squad details
+     * @param squadId Squad ID
+     * @return Squad struct
+     */
+    function getSquad(uint256 squadId) external view returns (Squad memory) {
+        return squads[squadId];
+    }
+
+    /**
+     * @notice Get a squad's members in join order
+     * @param squadId Squad ID
+     * @return Array of member addresses
+     */
+    function getSquadMembers(uint256 squadId) external view returns (address[] memory) {
+        return _members[squadId];
+    }
+
+    function _start(uint256 squadId, Squad storage s) private {
+        s.status = Status.Active;
+        s.startDate = block.timestamp;
+
+        emit SquadStarted(squadId, block.timestamp, s.memberCount);
+    }
+
+    function _send(address to, uint256 amount) private {
+        (bool success, ) = payable(to).call{value: amount}("");
+        if (!success) revert TransferFailed();
+    }
+}
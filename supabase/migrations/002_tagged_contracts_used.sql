@@ -0,0 +1,32 @@
+-- =====================================================
+-- BetIt Database Schema - Tagged Contract Usage
+-- =====================================================
+-- Description: Store how each verified contract interaction qualified
+-- Version: 1.1.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- DAILY ACTIVITY TABLE
+-- =====================================================
+-- contracts_used becomes a JSONB array of {address, via} objects where
+-- via is one of: direct, internal, token_transfer
+ALTER TABLE daily_activity ADD COLUMN contracts_used_tagged JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Existing rows only ever counted top-level calls
+UPDATE daily_activity
+SET contracts_used_tagged = (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('address', LOWER(addr), 'via', 'direct')), '[]'::jsonb)
+    FROM unnest(contracts_used) AS addr
+)
+WHERE contracts_used IS NOT NULL;
+
+ALTER TABLE daily_activity DROP COLUMN contracts_used;
+ALTER TABLE daily_activity RENAME COLUMN contracts_used_tagged TO contracts_used;
+
+-- Constraints
+ALTER TABLE daily_activity ADD CONSTRAINT contracts_used_is_array
+    CHECK (jsonb_typeof(contracts_used) = 'array');
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,36 @@
+-- =====================================================
+-- BetIt Database Schema - Challenge Activity Rules
+-- =====================================================
+-- Description: Per-challenge requirements for a day to count toward the streak
+-- Version: 1.2.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- CHALLENGES TABLE
+-- =====================================================
+-- activity_rules keys (all optional):
+--   min_tx_count           INTEGER  qualifying transactions per day (default 1)
+--   min_spent_wei          TEXT     value + gas fees over qualifying txs (wei)
+--   required_categories    TEXT[]   verified_contracts.category values that must all appear
+--   min_distinct_contracts INTEGER  distinct verified contracts per day
+ALTER TABLE challenges ADD COLUMN activity_rules JSONB NOT NULL DEFAULT '{"min_tx_count": 1}'::jsonb;
+
+ALTER TABLE challenges ADD CONSTRAINT activity_rules_is_object
+    CHECK (jsonb_typeof(activity_rules) = 'object');
+
+-- =====================================================
+-- DAILY ACTIVITY TABLE
+-- =====================================================
+-- Records which rule a day failed (NULL when verified or no rule was evaluated)
+ALTER TABLE daily_activity ADD COLUMN failed_rule TEXT;
+
+ALTER TABLE daily_activity ADD CONSTRAINT valid_failed_rule CHECK (failed_rule IN (
+    'min_tx_count',
+    'min_spent_wei',
+    'required_categories',
+    'min_distinct_contracts'
+));
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,49 @@
+-- =====================================================
+-- BetIt Database Schema - Chain Event Indexer
+-- =====================================================
+-- Description: Checkpoints and event-log columns for syncing contract events
+-- Version: 1.3.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- INDEXER CHECKPOINTS TABLE
+-- =====================================================
+-- Last fully processed block per indexer, with its hash for reorg detection
+CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+    name TEXT PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_indexer_checkpoints_updated_at BEFORE UPDATE ON indexer_checkpoints
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- TRANSACTIONS LOG TABLE
+-- =====================================================
+-- One transaction can emit several events (e.g. claimReward emits RevenueAdded
+-- and ChallengeCompleted), so rows are keyed by (tx_hash, log_index)
+ALTER TABLE transactions_log ADD COLUMN log_index INTEGER;
+ALTER TABLE transactions_log ADD COLUMN block_hash TEXT;
+
+ALTER TABLE transactions_log DROP CONSTRAINT transactions_log_tx_hash_key;
+ALTER TABLE transactions_log ADD CONSTRAINT unique_tx_log UNIQUE (tx_hash, log_index);
+
+ALTER TABLE transactions_log DROP CONSTRAINT valid_tx_type;
+ALTER TABLE transactions_log ADD CONSTRAINT valid_tx_type CHECK (type IN (
+    'challenge_created',
+    'streak_verified',
+    'challenge_claimed',
+    'challenge_forfeited',
+    'challenge_failed',
+    'lp_deposit',
+    'lp_withdrawal',
+    'revenue_added'
+));
+
+CREATE INDEX idx_transactions_log_from_type ON transactions_log(from_address, type);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
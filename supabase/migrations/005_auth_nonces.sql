@@ -0,0 +1,26 @@
+-- =====================================================
+-- BetIt Database Schema - Wallet Sign-In Nonces
+-- =====================================================
+-- Description: Single-use nonces for Sign-In-With-Ethereum
+-- Version: 1.4.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- AUTH NONCES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS auth_nonces (
+    nonce TEXT PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+
+    -- Constraints
+    CONSTRAINT nonce_format CHECK (nonce ~ '^[a-zA-Z0-9]{8,}$')
+);
+
+-- Index for cleaning up expired nonces
+CREATE INDEX idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
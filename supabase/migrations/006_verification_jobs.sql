@@ -0,0 +1,77 @@
+-- =====================================================
+-- BetIt Database Schema - Verification Job Runs
+-- =====================================================
+-- Description: Lease locks, run records and per-challenge outcomes for batch jobs
+-- Version: 1.5.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- JOB LOCKS TABLE
+-- =====================================================
+-- One row per job name; a run holds the lock until its lease expires
+CREATE TABLE IF NOT EXISTS job_locks (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_job_locks_updated_at BEFORE UPDATE ON job_locks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- JOB RUNS TABLE
+-- =====================================================
+-- A run verifies one UTC day and may span several invocations; there is one run per job and day
+CREATE TABLE IF NOT EXISTS job_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_name TEXT NOT NULL,
+    run_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    invocations INTEGER NOT NULL DEFAULT 1,
+    total_challenges INTEGER NOT NULL DEFAULT 0,
+    verified INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    errored INTEGER NOT NULL DEFAULT 0,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_job_status CHECK (status IN ('running', 'completed', 'failed')),
+    CONSTRAINT unique_job_run_date UNIQUE (job_name, run_date)
+);
+
+CREATE INDEX idx_job_runs_job_status ON job_runs(job_name, status);
+
+CREATE TRIGGER update_job_runs_updated_at BEFORE UPDATE ON job_runs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- JOB RUN OUTCOMES TABLE
+-- =====================================================
+-- Checkpoint: a challenge with an outcome row is not processed again in the same run
+CREATE TABLE IF NOT EXISTS job_run_outcomes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES job_runs(id) ON DELETE CASCADE,
+    challenge_id INTEGER NOT NULL REFERENCES challenges(challenge_id) ON DELETE CASCADE,
+    outcome TEXT NOT NULL,
+    tx_count INTEGER NOT NULL DEFAULT 0,
+    failed_rule TEXT,
+    error TEXT,
+    settlement_status TEXT,
+    settlement_tx_hash TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_outcome CHECK (outcome IN ('verified', 'not_verified', 'error')),
+    CONSTRAINT unique_run_challenge UNIQUE (run_id, challenge_id)
+);
+
+CREATE INDEX idx_job_run_outcomes_challenge ON job_run_outcomes(challenge_id);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
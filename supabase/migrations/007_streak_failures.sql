@@ -0,0 +1,63 @@
+-- =====================================================
+-- BetIt Database Schema - Streak Failures
+-- =====================================================
+-- Description: Missed-day tracking for failed challenges and a queue for on-chain settlement
+-- Version: 1.6.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- CHALLENGES TABLE
+-- =====================================================
+-- First required day without qualifying activity, set when the failure pipeline fails a challenge
+ALTER TABLE challenges ADD COLUMN missed_date DATE;
+ALTER TABLE challenges ADD COLUMN failed_at TIMESTAMP WITH TIME ZONE;
+
+-- =====================================================
+-- TRANSACTIONS LOG TABLE
+-- =====================================================
+-- Off-chain decisions (a detected streak break) are logged before any transaction exists
+ALTER TABLE transactions_log ALTER COLUMN tx_hash DROP NOT NULL;
+
+-- At most one off-chain failure record per challenge
+CREATE UNIQUE INDEX idx_transactions_log_offchain_failure ON transactions_log(challenge_id)
+    WHERE type = 'challenge_failed' AND tx_hash IS NULL;
+
+-- =====================================================
+-- SETTLEMENT QUEUE TABLE
+-- =====================================================
+-- Owner-only contract calls waiting to be sent (retried until confirmed or out of attempts)
+CREATE TABLE IF NOT EXISTS settlement_queue (
+    id SERIAL PRIMARY KEY,
+    challenge_id INTEGER NOT NULL REFERENCES challenges(challenge_id) ON DELETE CASCADE,
+    action TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    tx_hash TEXT,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_settlement_action CHECK (action IN ('verifyStreak', 'markChallengeFailed')),
+    CONSTRAINT valid_settlement_status CHECK (status IN ('pending', 'confirmed', 'skipped', 'failed'))
+);
+
+-- A challenge can only be failed once
+CREATE UNIQUE INDEX idx_settlement_queue_failure ON settlement_queue(challenge_id)
+    WHERE action = 'markChallengeFailed';
+
+CREATE INDEX idx_settlement_queue_pending ON settlement_queue(created_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_settlement_queue_updated_at BEFORE UPDATE ON settlement_queue
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Every pending row becomes an owner call, so only the service role (the settlement job) may touch the queue
+ALTER TABLE settlement_queue ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON settlement_queue FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON SEQUENCE settlement_queue_id_seq FROM PUBLIC, anon, authenticated;
+GRANT ALL ON settlement_queue TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE settlement_queue_id_seq TO service_role;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
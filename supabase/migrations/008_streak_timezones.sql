@@ -0,0 +1,52 @@
+-- =====================================================
+-- BetIt Database Schema - Streak Timezones
+-- =====================================================
+-- Description: Per-user IANA timezone, frozen into each challenge at creation
+-- Version: 1.7.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- USERS TABLE
+-- =====================================================
+-- IANA timezone (e.g. 'Europe/Berlin') that defines a streak day for new challenges
+ALTER TABLE users ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- =====================================================
+-- CHALLENGES TABLE
+-- =====================================================
+-- Timezone the challenge's days are measured in; never changes after creation.
+-- daily_activity.date keys are calendar dates in this timezone.
+ALTER TABLE challenges ADD COLUMN timezone TEXT;
+UPDATE challenges SET timezone = 'UTC' WHERE timezone IS NULL;
+ALTER TABLE challenges ALTER COLUMN timezone SET NOT NULL;
+
+-- Copy the owner's timezone on insert, whichever path (API or indexer) creates the row
+CREATE OR REPLACE FUNCTION set_challenge_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.timezone IS NULL THEN
+        SELECT timezone INTO NEW.timezone FROM users WHERE address = NEW.user_address;
+        NEW.timezone := COALESCE(NEW.timezone, 'UTC');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_challenges_timezone BEFORE INSERT ON challenges
+    FOR EACH ROW EXECUTE FUNCTION set_challenge_timezone();
+
+-- Freeze it: updates (including indexer upserts) keep the original timezone
+CREATE OR REPLACE FUNCTION keep_challenge_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.timezone := OLD.timezone;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER keep_challenges_timezone BEFORE UPDATE ON challenges
+    FOR EACH ROW EXECUTE FUNCTION keep_challenge_timezone();
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
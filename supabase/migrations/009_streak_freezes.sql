@@ -0,0 +1,41 @@
+-- =====================================================
+-- BetIt Database Schema - Streak Freezes
+-- =====================================================
+-- Description: Frozen days that cover a missed day, and purchased freezes
+-- Version: 1.8.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- DAILY ACTIVITY TABLE
+-- =====================================================
+-- A frozen day had no qualifying activity but was covered by a streak freeze
+ALTER TABLE daily_activity ADD COLUMN frozen BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE daily_activity ADD COLUMN frozen_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE daily_activity ADD CONSTRAINT frozen_not_verified CHECK (NOT (frozen AND verified));
+
+CREATE INDEX idx_daily_activity_frozen ON daily_activity(challenge_id) WHERE frozen = TRUE;
+
+-- =====================================================
+-- STREAK FREEZE PURCHASES TABLE
+-- =====================================================
+-- Freezes bought by paying the vault (BetItVault.addRevenue) from the challenger's wallet
+CREATE TABLE IF NOT EXISTS streak_freeze_purchases (
+    id SERIAL PRIMARY KEY,
+    challenge_id INTEGER NOT NULL REFERENCES challenges(challenge_id) ON DELETE CASCADE,
+    user_address TEXT NOT NULL REFERENCES users(address) ON DELETE CASCADE,
+    tx_hash TEXT UNIQUE NOT NULL,
+    amount NUMERIC(78, 0) NOT NULL, -- Wei paid
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT positive_freeze_amount CHECK (amount > 0),
+    -- Stored lowercase so the same payment can't be redeemed twice under another casing
+    CONSTRAINT lowercase_freeze_tx_hash CHECK (tx_hash = LOWER(tx_hash))
+);
+
+CREATE INDEX idx_streak_freeze_purchases_challenge ON streak_freeze_purchases(challenge_id);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,90 @@
+-- =====================================================
+-- BetIt Database Schema - Head-to-Head Challenges
+-- =====================================================
+-- Description: Matches between two wallets (BetItHeadToHead) and per-participant daily activity
+-- Version: 1.9.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- H2H CHALLENGES TABLE
+-- =====================================================
+-- One row per on-chain match. Both participants share the stake, duration and
+-- timezone (the challenger's, copied when the invite is recorded).
+CREATE TABLE IF NOT EXISTS h2h_challenges (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER UNIQUE NOT NULL, -- On-chain match ID
+    challenger_address TEXT NOT NULL,
+    opponent_address TEXT NOT NULL,
+    stake_amount NUMERIC(78, 0) NOT NULL, -- Wei amount per participant
+    duration INTEGER NOT NULL, -- Duration in days (7, 14, 30, 60, 90)
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, active, settled, cancelled, expired
+    invited_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Invite must be accepted before this
+    start_date TIMESTAMP WITH TIME ZONE, -- Set on accept
+    end_date TIMESTAMP WITH TIME ZONE,
+    tx_hash TEXT UNIQUE NOT NULL, -- Invite transaction hash
+    accept_tx_hash TEXT,
+
+    -- Result, decided off-chain and then settled on-chain
+    challenger_missed_date DATE,
+    opponent_missed_date DATE,
+    challenger_survived BOOLEAN,
+    opponent_survived BOOLEAN,
+    winner_address TEXT, -- NULL when both kept or both broke their streaks
+    decided_at TIMESTAMP WITH TIME ZONE,
+    settle_tx_hash TEXT,
+    settle_attempts INTEGER NOT NULL DEFAULT 0,
+    settle_error TEXT,
+    settled_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_h2h_status CHECK (status IN ('pending', 'active', 'settled', 'cancelled', 'expired')),
+    CONSTRAINT valid_h2h_duration CHECK (duration IN (7, 14, 30, 60, 90)),
+    CONSTRAINT positive_h2h_stake CHECK (stake_amount > 0),
+    CONSTRAINT distinct_h2h_participants CHECK (challenger_address <> opponent_address),
+    CONSTRAINT h2h_challenger_format CHECK (challenger_address ~ '^0x[a-f0-9]{40}$'),
+    CONSTRAINT h2h_opponent_format CHECK (opponent_address ~ '^0x[a-f0-9]{40}$'),
+    CONSTRAINT h2h_result_complete CHECK (
+        (decided_at IS NULL) = (challenger_survived IS NULL AND opponent_survived IS NULL)
+    )
+);
+
+CREATE INDEX idx_h2h_challenges_challenger ON h2h_challenges(challenger_address, status);
+CREATE INDEX idx_h2h_challenges_opponent ON h2h_challenges(opponent_address, status);
+CREATE INDEX idx_h2h_challenges_status ON h2h_challenges(status);
+CREATE INDEX idx_h2h_challenges_unsettled ON h2h_challenges(match_id)
+    WHERE decided_at IS NOT NULL AND settled_at IS NULL;
+
+CREATE TRIGGER update_h2h_challenges_updated_at BEFORE UPDATE ON h2h_challenges
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- H2H DAILY ACTIVITY TABLE
+-- =====================================================
+-- Same shape as daily_activity, one row per participant per day
+CREATE TABLE IF NOT EXISTS h2h_daily_activity (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES h2h_challenges(match_id) ON DELETE CASCADE,
+    user_address TEXT NOT NULL,
+    date DATE NOT NULL, -- Calendar date in the match's timezone
+    tx_count INTEGER DEFAULT 0,
+    contracts_used JSONB NOT NULL DEFAULT '[]'::jsonb, -- {address, via} objects
+    verified BOOLEAN DEFAULT FALSE,
+    failed_rule TEXT,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_h2h_daily_activity UNIQUE(match_id, user_address, date),
+    CONSTRAINT positive_h2h_tx_count CHECK (tx_count >= 0)
+);
+
+CREATE INDEX idx_h2h_daily_activity_match ON h2h_daily_activity(match_id, user_address);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
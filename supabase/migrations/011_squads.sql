@@ -0,0 +1,104 @@
+-- =====================================================
+-- BetIt Database Schema - Squads
+-- =====================================================
+-- Description: Squad challenges with pooled stakes (BetItSquads), members and per-member daily activity
+-- Version: 1.10.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- SQUADS TABLE
+-- =====================================================
+-- One row per on-chain squad. Mirrors the challenges table; every member
+-- shares the stake, duration and timezone (the creator's).
+CREATE TABLE IF NOT EXISTS squads (
+    id SERIAL PRIMARY KEY,
+    squad_id INTEGER UNIQUE NOT NULL, -- On-chain squad ID
+    name TEXT,
+    creator_address TEXT NOT NULL,
+    stake_amount NUMERIC(78, 0) NOT NULL, -- Wei amount per member
+    duration INTEGER NOT NULL, -- Duration in days (7, 14, 30, 60, 90)
+    max_members INTEGER NOT NULL,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    status TEXT NOT NULL DEFAULT 'open', -- open, active, settled, cancelled
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    join_deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+    start_date TIMESTAMP WITH TIME ZONE, -- Set when the squad fills up or the creator starts it
+    end_date TIMESTAMP WITH TIME ZONE,
+    tx_hash TEXT UNIQUE NOT NULL, -- Creation transaction hash
+
+    -- Result, decided off-chain and then settled on-chain
+    decided_at TIMESTAMP WITH TIME ZONE,
+    payout_per_survivor NUMERIC(78, 0), -- Wei, stake included
+    vault_amount NUMERIC(78, 0), -- Wei
+    settle_tx_hash TEXT,
+    settle_attempts INTEGER NOT NULL DEFAULT 0,
+    settle_error TEXT,
+    settled_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_squad_status CHECK (status IN ('open', 'active', 'settled', 'cancelled')),
+    CONSTRAINT valid_squad_duration CHECK (duration IN (7, 14, 30, 60, 90)),
+    CONSTRAINT valid_squad_size CHECK (max_members BETWEEN 2 AND 20),
+    CONSTRAINT positive_squad_stake CHECK (stake_amount > 0),
+    CONSTRAINT squad_name_length CHECK (name IS NULL OR char_length(name) <= 40),
+    CONSTRAINT squad_creator_format CHECK (creator_address ~ '^0x[a-f0-9]{40}$')
+);
+
+CREATE INDEX idx_squads_status ON squads(status);
+CREATE INDEX idx_squads_creator ON squads(creator_address);
+CREATE INDEX idx_squads_unsettled ON squads(squad_id)
+    WHERE decided_at IS NOT NULL AND settled_at IS NULL;
+
+CREATE TRIGGER update_squads_updated_at BEFORE UPDATE ON squads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- SQUAD MEMBERS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS squad_members (
+    id SERIAL PRIMARY KEY,
+    squad_id INTEGER NOT NULL REFERENCES squads(squad_id) ON DELETE CASCADE,
+    user_address TEXT NOT NULL,
+    joined_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    join_tx_hash TEXT, -- NULL when the member was read from the contract, until the indexer sees the join
+    missed_date DATE, -- First day without qualifying activity
+    survived BOOLEAN, -- Set when the squad's result is decided
+    payout NUMERIC(78, 0), -- Wei paid out on settlement (0 for members who failed)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_squad_member UNIQUE(squad_id, user_address),
+    CONSTRAINT squad_member_format CHECK (user_address ~ '^0x[a-f0-9]{40}$')
+);
+
+CREATE INDEX idx_squad_members_user ON squad_members(user_address);
+
+-- =====================================================
+-- SQUAD DAILY ACTIVITY TABLE
+-- =====================================================
+-- Same shape as daily_activity, one row per member per day
+CREATE TABLE IF NOT EXISTS squad_daily_activity (
+    id SERIAL PRIMARY KEY,
+    squad_id INTEGER NOT NULL REFERENCES squads(squad_id) ON DELETE CASCADE,
+    user_address TEXT NOT NULL,
+    date DATE NOT NULL, -- Calendar date in the squad's timezone
+    tx_count INTEGER DEFAULT 0,
+    contracts_used JSONB NOT NULL DEFAULT '[]'::jsonb, -- {address, via} objects
+    verified BOOLEAN DEFAULT FALSE,
+    failed_rule TEXT,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_squad_daily_activity UNIQUE(squad_id, user_address, date),
+    CONSTRAINT positive_squad_tx_count CHECK (tx_count >= 0)
+);
+
+CREATE INDEX idx_squad_daily_activity_squad ON squad_daily_activity(squad_id, user_address);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,42 @@
+-- =====================================================
+-- BetIt Database Schema - Custom Durations
+-- =====================================================
+-- Description: Challenges of any duration from 7 to 90 days, and quoted bonus rates synced on-chain
+-- Version: 1.11.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- CHALLENGES TABLE
+-- =====================================================
+-- Any duration with an on-chain bonus rate can be created, not only 7/14/30/60/90
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS valid_duration;
+ALTER TABLE challenges ADD CONSTRAINT valid_duration CHECK (duration BETWEEN 7 AND 90);
+
+-- =====================================================
+-- BONUS RATES TABLE
+-- =====================================================
+-- Latest quote per duration and the state of its on-chain sync (lib/pricing/job.ts)
+CREATE TABLE IF NOT EXISTS bonus_rates (
+    duration INTEGER PRIMARY KEY, -- Duration in days
+    quoted_rate INTEGER NOT NULL, -- Basis points
+    on_chain_rate INTEGER NOT NULL DEFAULT 0, -- Basis points, 0 if not enabled on-chain
+    sample_size INTEGER NOT NULL DEFAULT 0, -- Finished challenges the quote was fitted on
+    utilization NUMERIC(5, 4) NOT NULL DEFAULT 0, -- Vault utilization when quoted
+    quoted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    sync_tx_hash TEXT, -- Last updateBonusRate transaction
+    sync_error TEXT,
+    synced_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_bonus_rate_duration CHECK (duration BETWEEN 7 AND 90),
+    CONSTRAINT valid_quoted_rate CHECK (quoted_rate > 0 AND quoted_rate <= 10000),
+    CONSTRAINT valid_utilization CHECK (utilization BETWEEN 0 AND 1)
+);
+
+CREATE TRIGGER update_bonus_rates_updated_at BEFORE UPDATE ON bonus_rates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,100 @@
+-- =====================================================
+-- BetIt Database Schema - Platform Stats Functions
+-- =====================================================
+-- Description: RPC functions that aggregate platform stats in Postgres instead of in the API
+-- Version: 1.12.0
+-- Date: 2026-10-19
+
+-- Wei sums are returned as TEXT: PostgREST would serialize large NUMERICs as JSON
+-- numbers, which lose precision once parsed past 2^53
+
+-- =====================================================
+-- CHALLENGE STATS
+-- =====================================================
+-- Status counts, stake totals and success rate (0-100) for challenges created since `since` (all when NULL)
+CREATE OR REPLACE FUNCTION platform_challenge_stats(since TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+    total BIGINT,
+    active BIGINT,
+    completed BIGINT,
+    failed BIGINT,
+    forfeited BIGINT,
+    total_stakes TEXT,
+    average_stake TEXT,
+    success_rate NUMERIC
+) AS $$
+    SELECT
+        COUNT(*),
+        COUNT(*) FILTER (WHERE status = 'active'),
+        COUNT(*) FILTER (WHERE status = 'completed'),
+        COUNT(*) FILTER (WHERE status = 'failed'),
+        COUNT(*) FILTER (WHERE status = 'forfeited'),
+        COALESCE(SUM(stake_amount), 0)::TEXT,
+        COALESCE(DIV(SUM(stake_amount), NULLIF(COUNT(*), 0)), 0)::TEXT,
+        COALESCE(ROUND(
+            100.0 * COUNT(*) FILTER (WHERE status = 'completed')
+            / NULLIF(COUNT(*) FILTER (WHERE status IN ('completed', 'failed', 'forfeited')), 0)
+        ), 0)
+    FROM challenges
+    WHERE since IS NULL OR created_at >= since;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- LP STATS
+-- =====================================================
+-- Open LP positions and their deposit / withdrawal totals
+CREATE OR REPLACE FUNCTION platform_lp_stats()
+RETURNS TABLE (
+    lp_count BIGINT,
+    total_deposited TEXT,
+    total_withdrawn TEXT
+) AS $$
+    SELECT
+        COUNT(*),
+        COALESCE(SUM(deposited_amount), 0)::TEXT,
+        COALESCE(SUM(withdrawn_amount), 0)::TEXT
+    FROM lp_positions
+    WHERE shares > 0;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- VAULT REVENUE
+-- =====================================================
+-- Forfeited stakes plus the platform fee on completed bonuses, for challenges created since `since`.
+-- Integer division matches BetItChallenges.claimReward.
+CREATE OR REPLACE FUNCTION platform_revenue(since TIMESTAMP WITH TIME ZONE, platform_fee_bps INTEGER DEFAULT 1000)
+RETURNS TEXT AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN status IN ('failed', 'forfeited') THEN stake_amount
+            ELSE DIV(DIV(stake_amount * bonus_rate, 10000) * platform_fee_bps, 10000)
+        END
+    ), 0)::TEXT
+    FROM challenges
+    WHERE created_at >= since
+      AND status IN ('completed', 'failed', 'forfeited');
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- VAULT LIABILITY
+-- =====================================================
+-- Worst-case payout (stake + bonus - fee) summed over active challenges (lib/risk/liability.ts)
+CREATE OR REPLACE FUNCTION vault_liability(platform_fee_bps INTEGER DEFAULT 1000)
+RETURNS TABLE (
+    active_challenges BIGINT,
+    liability TEXT
+) AS $$
+    SELECT
+        COUNT(*),
+        COALESCE(SUM(
+            stake_amount
+            + DIV(stake_amount * bonus_rate, 10000)
+            - DIV(DIV(stake_amount * bonus_rate, 10000) * platform_fee_bps, 10000)
+        ), 0)::TEXT
+    FROM challenges
+    WHERE status = 'active';
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
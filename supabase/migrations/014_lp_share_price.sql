@@ -0,0 +1,26 @@
+-- =====================================================
+-- BetIt Database Schema - LP Share Price
+-- =====================================================
+-- Description: Daily vault share price for realized LP yield
+-- Version: 1.13.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- PLATFORM METRICS TABLE
+-- =====================================================
+-- BetItVault.sharesToAssets(1e18) at the day's closing block; 0 while the vault has no shares.
+-- Rebuild existing rows with GET /api/platform-metrics?from=<first date>.
+ALTER TABLE platform_metrics ADD COLUMN lp_share_price NUMERIC(78, 0) DEFAULT 0;
+ALTER TABLE platform_metrics ADD COLUMN closing_block BIGINT; -- Block the vault was read at
+
+ALTER TABLE platform_metrics ADD CONSTRAINT non_negative_share_price CHECK (lp_share_price >= 0);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+-- Weekly yield now comes from the share price; revenue by challenge creation date is no longer used
+DROP FUNCTION IF EXISTS platform_revenue(TIMESTAMP WITH TIME ZONE, INTEGER);
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
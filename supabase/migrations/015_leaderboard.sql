@@ -0,0 +1,111 @@
+-- =====================================================
+-- BetIt Database Schema - Leaderboard
+-- =====================================================
+-- Description: Materialized leaderboard entries per user and time window
+-- Version: 1.14.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- LEADERBOARD ENTRIES
+-- =====================================================
+-- One row per (period, user) for the week, month and all-time windows, relative to the last refresh.
+-- Settled challenges count toward the window they settled in (claim / failure / forfeit event time);
+-- profit is the ChallengeCompleted profit. current_streak is the latest run of verified or frozen days
+-- on an active challenge that reaches yesterday or today, capped at the window length.
+-- Refreshed by refresh_leaderboard() (GET /api/leaderboard-refresh).
+CREATE MATERIALIZED VIEW IF NOT EXISTS leaderboard_entries AS
+WITH periods (period, since, days) AS (
+    VALUES
+        ('week', NOW() - INTERVAL '7 days', 7),
+        ('month', NOW() - INTERVAL '30 days', 30),
+        ('all', NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER)
+),
+settlements AS (
+    SELECT
+        c.user_address,
+        c.status,
+        COALESCE(t.timestamp, c.failed_at, c.updated_at) AS settled_at,
+        COALESCE((t.metadata->>'profit')::NUMERIC, 0) AS profit
+    FROM challenges c
+    LEFT JOIN LATERAL (
+        SELECT timestamp, metadata
+        FROM transactions_log
+        WHERE challenge_id = c.challenge_id
+          AND type IN ('challenge_claimed', 'challenge_failed', 'challenge_forfeited')
+          AND tx_hash IS NOT NULL
+        ORDER BY timestamp ASC
+        LIMIT 1
+    ) t ON TRUE
+    WHERE c.status IN ('completed', 'failed', 'forfeited')
+),
+streak_days AS (
+    -- Consecutive days share an island: date minus its position in the challenge
+    SELECT
+        a.user_address,
+        a.challenge_id,
+        a.date,
+        c.timezone,
+        a.date - (ROW_NUMBER() OVER (PARTITION BY a.challenge_id ORDER BY a.date))::INTEGER AS island
+    FROM daily_activity a
+    JOIN challenges c ON c.challenge_id = a.challenge_id
+    WHERE c.status = 'active'
+      AND (a.verified OR a.frozen)
+),
+streaks AS (
+    SELECT user_address, MAX(length) AS current_streak
+    FROM (
+        SELECT user_address, timezone, COUNT(*) AS length, MAX(date) AS last_day
+        FROM streak_days
+        GROUP BY user_address, challenge_id, island, timezone
+    ) runs
+    WHERE last_day >= (NOW() AT TIME ZONE timezone)::DATE - 1
+    GROUP BY user_address
+),
+challengers AS (
+    SELECT DISTINCT user_address FROM challenges
+)
+SELECT
+    p.period,
+    u.user_address,
+    CASE
+        WHEN p.days IS NULL THEN COALESCE(st.current_streak, 0)
+        ELSE LEAST(COALESCE(st.current_streak, 0), p.days)
+    END::INTEGER AS current_streak,
+    COUNT(s.status) FILTER (WHERE s.status = 'completed')::INTEGER AS completed,
+    COUNT(s.status)::INTEGER AS settled,
+    COALESCE(SUM(s.profit), 0) AS profit,
+    ROUND(100.0 * COUNT(s.status) FILTER (WHERE s.status = 'completed') / NULLIF(COUNT(s.status), 0), 2) AS success_rate,
+    NOW() AS refreshed_at
+FROM periods p
+CROSS JOIN challengers u
+LEFT JOIN settlements s
+    ON s.user_address = u.user_address
+    AND (p.since IS NULL OR s.settled_at >= p.since)
+LEFT JOIN streaks st ON st.user_address = u.user_address
+GROUP BY p.period, p.days, u.user_address, st.current_streak;
+
+-- Unique index required for REFRESH ... CONCURRENTLY
+CREATE UNIQUE INDEX idx_leaderboard_entries_period_user ON leaderboard_entries(period, user_address);
+CREATE INDEX idx_leaderboard_entries_streak ON leaderboard_entries(period, current_streak DESC);
+CREATE INDEX idx_leaderboard_entries_completed ON leaderboard_entries(period, completed DESC);
+CREATE INDEX idx_leaderboard_entries_profit ON leaderboard_entries(period, profit DESC);
+CREATE INDEX idx_leaderboard_entries_success_rate ON leaderboard_entries(period, success_rate DESC NULLS LAST);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+-- Rebuild leaderboard_entries without blocking readers
+CREATE OR REPLACE FUNCTION refresh_leaderboard()
+RETURNS VOID AS $$
+BEGIN
+    REFRESH MATERIALIZED VIEW CONCURRENTLY leaderboard_entries;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A refresh is expensive, so only the service role (the refresh job) may trigger one
+REVOKE EXECUTE ON FUNCTION refresh_leaderboard() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_leaderboard() TO service_role;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,43 @@
+-- =====================================================
+-- BetIt Database Schema - Head-to-Head and Squad Indexing
+-- =====================================================
+-- Description: Event-log columns for indexing BetItHeadToHead and BetItSquads events
+-- Version: 1.15.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- TRANSACTIONS LOG TABLE
+-- =====================================================
+-- Head-to-head and squad events are keyed by their own on-chain IDs; no foreign
+-- keys, since the event row lands before the match or squad row is rebuilt from it
+ALTER TABLE transactions_log ADD COLUMN match_id INTEGER;
+ALTER TABLE transactions_log ADD COLUMN squad_id INTEGER;
+
+ALTER TABLE transactions_log DROP CONSTRAINT valid_tx_type;
+ALTER TABLE transactions_log ADD CONSTRAINT valid_tx_type CHECK (type IN (
+    'challenge_created',
+    'streak_verified',
+    'challenge_claimed',
+    'challenge_forfeited',
+    'challenge_failed',
+    'lp_deposit',
+    'lp_withdrawal',
+    'revenue_added',
+    'h2h_created',
+    'h2h_accepted',
+    'h2h_cancelled',
+    'h2h_refunded',
+    'h2h_settled',
+    'squad_created',
+    'squad_joined',
+    'squad_started',
+    'squad_cancelled',
+    'squad_settled'
+));
+
+CREATE INDEX idx_transactions_log_match_id ON transactions_log(match_id) WHERE match_id IS NOT NULL;
+CREATE INDEX idx_transactions_log_squad_id ON transactions_log(squad_id) WHERE squad_id IS NOT NULL;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,18 @@
+-- =====================================================
+-- BetIt Database Schema - Case-Insensitive Usernames
+-- =====================================================
+-- Description: Usernames are unique regardless of case
+-- Version: 1.16.0
+-- Date: 2026-10-19
+
+-- =====================================================
+-- USERS TABLE
+-- =====================================================
+-- Profiles are looked up case-insensitively (/u/[username]), so 'Alice' and
+-- 'alice' can't both exist. Existing case-only duplicates have to be renamed
+-- before this runs.
+CREATE UNIQUE INDEX idx_users_username_lower ON users(LOWER(username));
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,342 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "forge-std/Test.sol";
+import "../src/BetItVault.sol";
+import "../src/BetItHeadToHead.sol";
+
+/// @notice Match participant that can't receive ETH
+contract RejectingPlayer {
+    function create(BetItHeadToHead h2h, address opponent, uint256 duration) external payable returns (uint256) {
+        return h2h.createH2H{value: msg.value}(opponent, duration);
+    }
+
+    function withdraw(BetItHeadToHead h2h) external {
+        h2h.withdraw();
+    }
+}
+
+contract BetItHeadToHeadTest is Test {
+    BetItVault public vault;
+    BetItHeadToHead public h2h;
+
+    address public owner = address(1);
+    address public user1 = address(2);
+    address public user2 = address(3);
+    address public user3 = address(4);
+
+    function setUp() public {
+        // Deploy vault
+        vm.prank(owner);
+        vault = new BetItVault();
+
+        // Deploy head-to-head contract
+        vm.prank(owner);
+        h2h = new BetItHeadToHead(address(vault));
+
+        // Fund test accounts
+        vm.deal(user1, 10 ether);
+        vm.deal(user2, 10 ether);
+        vm.deal(user3, 10 ether);
+    }
+
+    function _createAndAccept(uint256 stake, uint256 duration) internal returns (uint256 matchId) {
+        vm.prank(user1);
+        matchId = h2h.createH2H{value: stake}(user2, duration);
+
+        vm.prank(user2);
+        h2h.acceptH2H{value: stake}(matchId);
+    }
+
+    function testCreateH2H() public {
+        vm.prank(user1);
+        uint256 matchId = h2h.createH2H{value: 1 ether}(user2, 7);
+
+        assertEq(matchId, 1, "Should create match with ID 1");
+
+        BetItHeadToHead.HeadToHead memory h = h2h.getH2H(matchId);
+        assertEq(h.challenger, user1, "Challenger should be correct");
+        assertEq(h.opponent, user2, "Opponent should be correct");
+        assertEq(h.stake, 1 ether, "Stake should be correct");
+        assertEq(h.duration, 7, "Duration should be 7 days");
+        assertEq(uint256(h.status), uint256(BetItHeadToHead.Status.Pending), "Match should be pending");
+        assertEq(address(h2h).balance, 1 ether, "Contract should hold the stake");
+    }
+
+    function testFailCreateH2HInvalidDuration() public {
+        vm.prank(user1);
+        h2h.createH2H{value: 1 ether}(user2, 5);
+    }
+
+    function testFailCreateH2HBelowMinimum() public {
+        vm.prank(user1);
+        h2h.createH2H{value: 0.001 ether}(user2, 7);
+    }
+
+    function testFailCreateH2HAgainstSelf() public {
+        vm.prank(user1);
+        h2h.createH2H{value: 1 ether}(user1, 7);
+    }
+
+    function testAcceptH2H() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+
+        BetItHeadToHead.HeadToHead memory h = h2h.getH2H(matchId);
+        assertEq(uint256(h.status), uint256(BetItHeadToHead.Status.Active), "Match should be active");
+        assertEq(h.startDate, block.timestamp, "Match should start on accept");
+        assertEq(address(h2h).balance, 2 ether, "Contract should hold both stakes");
+    }
+
+    function testFailAcceptH2HNotOpponent() public {
+        vm.prank(user1);
+        uint256 matchId = h2h.createH2H{value: 1 ether}(user2, 7);
+
+        vm.prank(user3);
+        h2h.acceptH2H{value: 1 ether}(matchId);
+    }
+
+    function testFailAcceptH2HStakeMismatch() public {
+        vm.prank(user1);
+        uint256 matchId = h2h.createH2H{value: 1 ether}(user2, 7);
+
+        vm.prank(user2);
+        h2h.acceptH2H{value: 0.5 ether}(matchId);
+    }
+
+    function testFailAcceptH2HExpired() public {
+        vm.prank(user1);
+        uint256 matchId = h2h.createH2H{value: 1 ether}(user2, 7);
+
+        vm.warp(block.timestamp + 8 days);
+
+        vm.prank(user2);
+        h2h.acceptH2H{value: 1 ether}(matchId);
+    }
+
+    function testCancelH2H() public {
+        vm.prank(user1);
+        uint256 matchId = h2h.createH2H{value: 1 ether}(user2, 7);
+
+        uint256 balanceBefore = user1.balance;
+
+        vm.prank(user1);
+        h2h.cancelH2H(matchId);
+
+        BetItHeadToHead.HeadToHead memory h = h2h.getH2H(matchId);
+        assertEq(uint256(h.status), uint256(BetItHeadToHead.Status.Cancelled), "Match should be cancelled");
+        assertEq(user1.balance, balanceBefore + 1 ether, "Stake should be refunded");
+    }
+
+    function testFailCancelH2HAfterAccept() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+
+        vm.prank(user1);
+        h2h.cancelH2H(matchId);
+    }
+
+    function testSettleH2HOneSurvivor() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days);
+
+        uint256 winnerBefore = user2.balance;
+        uint256 vaultAssetsBefore = vault.totalAssets();
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, false, true);
+
+        // Pot = 2 ETH, fee = 5% = 0.1 ETH
+        assertEq(h2h.pendingWithdrawals(user2), 1.9 ether, "Winner should be credited pot minus fee");
+        assertEq(h2h.pendingWithdrawals(user1), 0, "Loser should get nothing");
+
+        vm.prank(user2);
+        h2h.withdraw();
+
+        assertEq(user2.balance, winnerBefore + 1.9 ether, "Winner should receive pot minus fee");
+        assertEq(vault.totalAssets(), vaultAssetsBefore + 0.1 ether, "Vault should receive the fee");
+
+        BetItHeadToHead.HeadToHead memory h = h2h.getH2H(matchId);
+        assertEq(h.winner, user2, "Opponent should be the winner");
+        assertEq(uint256(h.status), uint256(BetItHeadToHead.Status.Settled), "Match should be settled");
+    }
+
+    function testSettleH2HBothSurvive() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days);
+
+        uint256 user1Before = user1.balance;
+        uint256 user2Before = user2.balance;
+        uint256 vaultAssetsBefore = vault.totalAssets();
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, true, true);
+
+        vm.prank(user1);
+        h2h.withdraw();
+        vm.prank(user2);
+        h2h.withdraw();
+
+        assertEq(user1.balance, user1Before + 1 ether, "Challenger should get their stake back");
+        assertEq(user2.balance, user2Before + 1 ether, "Opponent should get their stake back");
+        assertEq(vault.totalAssets(), vaultAssetsBefore, "Vault should take no fee");
+    }
+
+    function testRejectingPlayerDoesNotBlockRefund() public {
+        RejectingPlayer rejecting = new RejectingPlayer();
+        uint256 matchId = rejecting.create{value: 1 ether}(h2h, user2, 7);
+
+        vm.prank(user2);
+        h2h.acceptH2H{value: 1 ether}(matchId);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, true, true);
+
+        uint256 user2Before = user2.balance;
+        vm.prank(user2);
+        h2h.withdraw();
+
+        assertEq(user2.balance, user2Before + 1 ether, "Opponent should get their stake back");
+        assertEq(h2h.pendingWithdrawals(address(rejecting)), 1 ether, "Rejecting challenger keeps its credit");
+    }
+
+    function testFailRejectingPlayerWithdraw() public {
+        RejectingPlayer rejecting = new RejectingPlayer();
+        uint256 matchId = rejecting.create{value: 1 ether}(h2h, user2, 7);
+
+        vm.prank(user2);
+        h2h.acceptH2H{value: 1 ether}(matchId);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, true, true);
+
+        rejecting.withdraw(h2h);
+    }
+
+    function testFailWithdrawNothing() public {
+        vm.prank(user1);
+        h2h.withdraw();
+    }
+
+    function testSettleH2HBothFailEarly() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 3 days);
+
+        uint256 vaultAssetsBefore = vault.totalAssets();
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, false, false);
+
+        assertEq(vault.totalAssets(), vaultAssetsBefore + 2 ether, "Vault should receive both stakes");
+        assertEq(address(h2h).balance, 0, "Contract should hold nothing");
+    }
+
+    function testFailSettleH2HTooEarly() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 3 days);
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, true, false);
+    }
+
+    function testFailSettleH2HNotOwner() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(user1);
+        h2h.settleH2H(matchId, true, false);
+    }
+
+    function testFailSettleH2HTwice() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.startPrank(owner);
+        h2h.settleH2H(matchId, true, false);
+        h2h.settleH2H(matchId, true, false);
+        vm.stopPrank();
+    }
+
+    function testParticipantRefundsUnsettledMatch() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+
+        // The owner never settles it
+        vm.warp(block.timestamp + 7 days + h2h.SETTLEMENT_TIMEOUT() + 1);
+
+        vm.prank(user2);
+        h2h.refundH2H(matchId);
+
+        BetItHeadToHead.HeadToHead memory h = h2h.getH2H(matchId);
+        assertEq(uint256(h.status), uint256(BetItHeadToHead.Status.Cancelled), "Match should be cancelled");
+
+        uint256 user1Before = user1.balance;
+        uint256 user2Before = user2.balance;
+
+        vm.prank(user1);
+        h2h.withdraw();
+        vm.prank(user2);
+        h2h.withdraw();
+
+        assertEq(user1.balance, user1Before + 1 ether, "Challenger should get their stake back");
+        assertEq(user2.balance, user2Before + 1 ether, "Opponent should get their stake back");
+        assertEq(address(h2h).balance, 0, "Contract should hold nothing");
+    }
+
+    function testFailRefundH2HBeforeTimeout() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days + h2h.SETTLEMENT_TIMEOUT());
+
+        vm.prank(user1);
+        h2h.refundH2H(matchId);
+    }
+
+    function testFailRefundH2HNotParticipant() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days + h2h.SETTLEMENT_TIMEOUT() + 1);
+
+        vm.prank(user3);
+        h2h.refundH2H(matchId);
+    }
+
+    function testFailRefundH2HAfterSettle() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, true, false);
+
+        vm.warp(block.timestamp + h2h.SETTLEMENT_TIMEOUT() + 1);
+
+        vm.prank(user2);
+        h2h.refundH2H(matchId);
+    }
+
+    function testFailSettleH2HAfterRefund() public {
+        uint256 matchId = _createAndAccept(1 ether, 7);
+        vm.warp(block.timestamp + 7 days + h2h.SETTLEMENT_TIMEOUT() + 1);
+
+        vm.prank(user1);
+        h2h.refundH2H(matchId);
+
+        vm.prank(owner);
+        h2h.settleH2H(matchId, true, false);
+    }
+
+    function testUpdateValidDuration() public {
+        vm.prank(owner);
+        h2h.updateValidDuration(21, true);
+
+        vm.prank(user1);
+        uint256 matchId = h2h.createH2H{value: 1 ether}(user2, 21);
+        assertEq(h2h.getH2H(matchId).duration, 21, "Duration should be 21 days");
+
+        vm.prank(owner);
+        h2h.updateValidDuration(21, false);
+        assertFalse(h2h.validDurations(21), "Duration should be disallowed");
+    }
+
+    function testFailUpdateValidDurationNotOwner() public {
+        vm.prank(user1);
+        h2h.updateValidDuration(21, true);
+    }
+}
@@ -0,0 +1,354 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "forge-std/Test.sol";
+import "../src/BetItVault.sol";
+import "../src/BetItSquads.sol";
+
+/// @notice Squad member that can't receive ETH
+contract RejectingMember {
+    function create(BetItSquads squads, uint256 duration, uint256 maxMembers) external payable returns (uint256) {
+        return squads.createSquad{value: msg.value}(duration, maxMembers);
+    }
+
+    function join(BetItSquads squads, uint256 squadId) external payable {
+        squads.joinSquad{value: msg.value}(squadId);
+    }
+
+    function withdraw(BetItSquads squads) external {
+        squads.withdraw();
+    }
+}
+
+contract BetItSquadsTest is Test {
+    BetItVault public vault;
+    BetItSquads public squads;
+
+    address public owner = address(1);
+    address public user1 = address(2);
+    address public user2 = address(3);
+    address public user3 = address(4);
+    address public user4 = address(5);
+
+    function setUp() public {
+        // Deploy vault
+        vm.prank(owner);
+        vault = new BetItVault();
+
+        // Deploy squads contract
+        vm.prank(owner);
+        squads = new BetItSquads(address(vault));
+
+        // Fund test accounts
+        vm.deal(user1, 10 ether);
+        vm.deal(user2, 10 ether);
+        vm.deal(user3, 10 ether);
+        vm.deal(user4, 10 ether);
+    }
+
+    function _createFullSquad(uint256 stake) internal returns (uint256 squadId) {
+        vm.prank(user1);
+        squadId = squads.createSquad{value: stake}(7, 4);
+
+        vm.prank(user2);
+        squads.joinSquad{value: stake}(squadId);
+        vm.prank(user3);
+        squads.joinSquad{value: stake}(squadId);
+        vm.prank(user4);
+        squads.joinSquad{value: stake}(squadId);
+    }
+
+    function testCreateSquad() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(14, 5);
+
+        assertEq(squadId, 1, "Should create squad with ID 1");
+
+        BetItSquads.Squad memory s = squads.getSquad(squadId);
+        assertEq(s.creator, user1, "Creator should be correct");
+        assertEq(s.stake, 1 ether, "Stake should be correct");
+        assertEq(s.duration, 14, "Duration should be 14 days");
+        assertEq(s.memberCount, 1, "Creator should be the first member");
+        assertEq(uint256(s.status), uint256(BetItSquads.Status.Open), "Squad should be open");
+        assertTrue(squads.isMember(squadId, user1), "Creator should be a member");
+    }
+
+    function testFailCreateSquadTooSmall() public {
+        vm.prank(user1);
+        squads.createSquad{value: 1 ether}(7, 1);
+    }
+
+    function testFailCreateSquadInvalidDuration() public {
+        vm.prank(user1);
+        squads.createSquad{value: 1 ether}(5, 4);
+    }
+
+    function testJoinSquadStartsWhenFull() public {
+        uint256 squadId = _createFullSquad(1 ether);
+
+        BetItSquads.Squad memory s = squads.getSquad(squadId);
+        assertEq(s.memberCount, 4, "Squad should have 4 members");
+        assertEq(uint256(s.status), uint256(BetItSquads.Status.Active), "Full squad should start");
+        assertEq(s.startDate, block.timestamp, "Start date should be set");
+        assertEq(address(squads).balance, 4 ether, "Contract should hold every stake");
+        assertEq(squads.getSquadMembers(squadId).length, 4, "Members should be listed");
+    }
+
+    function testFailJoinSquadTwice() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+
+        vm.prank(user1);
+        squads.joinSquad{value: 1 ether}(squadId);
+    }
+
+    function testFailJoinSquadStakeMismatch() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+
+        vm.prank(user2);
+        squads.joinSquad{value: 0.5 ether}(squadId);
+    }
+
+    function testFailJoinSquadAfterWindow() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+
+        vm.warp(block.timestamp + 8 days);
+
+        vm.prank(user2);
+        squads.joinSquad{value: 1 ether}(squadId);
+    }
+
+    function testStartSquadEarly() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+        vm.prank(user2);
+        squads.joinSquad{value: 1 ether}(squadId);
+
+        vm.prank(user1);
+        squads.startSquad(squadId);
+
+        BetItSquads.Squad memory s = squads.getSquad(squadId);
+        assertEq(uint256(s.status), uint256(BetItSquads.Status.Active), "Squad should be active");
+    }
+
+    function testFailStartSquadAlone() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+
+        vm.prank(user1);
+        squads.startSquad(squadId);
+    }
+
+    function testCancelSquadRefundsMembers() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+        vm.prank(user2);
+        squads.joinSquad{value: 1 ether}(squadId);
+
+        uint256 user2Before = user2.balance;
+
+        vm.prank(user1);
+        squads.cancelSquad(squadId);
+
+        assertEq(squads.pendingWithdrawals(user2), 1 ether, "Member should be credited");
+
+        vm.prank(user2);
+        squads.withdraw();
+
+        assertEq(user2.balance, user2Before + 1 ether, "Member should be refunded");
+        assertEq(squads.pendingWithdrawals(user2), 0, "Credit should be cleared");
+    }
+
+    function testFailCancelSquadNotCreatorDuringWindow() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+
+        vm.prank(user2);
+        squads.cancelSquad(squadId);
+    }
+
+    function testAnyoneCancelsAbandonedSquad() public {
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+        vm.prank(user2);
+        squads.joinSquad{value: 1 ether}(squadId);
+
+        // The creator never starts or cancels it
+        vm.warp(block.timestamp + 7 days + 1);
+
+        vm.prank(user2);
+        squads.cancelSquad(squadId);
+
+        BetItSquads.Squad memory s = squads.getSquad(squadId);
+        assertEq(uint256(s.status), uint256(BetItSquads.Status.Cancelled), "Squad should be cancelled");
+
+        uint256 user1Before = user1.balance;
+        uint256 user2Before = user2.balance;
+
+        vm.prank(user1);
+        squads.withdraw();
+        vm.prank(user2);
+        squads.withdraw();
+
+        assertEq(user1.balance, user1Before + 1 ether, "Creator should be refunded");
+        assertEq(user2.balance, user2Before + 1 ether, "Member should be refunded");
+        assertEq(address(squads).balance, 0, "Contract should hold nothing");
+    }
+
+    function testRejectingMemberDoesNotBlockRefunds() public {
+        RejectingMember rejecting = new RejectingMember();
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+        rejecting.join{value: 1 ether}(squads, squadId);
+
+        vm.prank(user1);
+        squads.cancelSquad(squadId);
+
+        uint256 user1Before = user1.balance;
+        vm.prank(user1);
+        squads.withdraw();
+
+        assertEq(user1.balance, user1Before + 1 ether, "Creator should be refunded");
+        assertEq(squads.pendingWithdrawals(address(rejecting)), 1 ether, "Rejecting member keeps its credit");
+    }
+
+    function testRejectingMemberDoesNotBlockSettlement() public {
+        RejectingMember rejecting = new RejectingMember();
+        uint256 squadId = rejecting.create{value: 1 ether}(squads, 7, 3);
+        vm.prank(user1);
+        squads.joinSquad{value: 1 ether}(squadId);
+        vm.prank(user2);
+        squads.joinSquad{value: 1 ether}(squadId);
+
+        vm.warp(block.timestamp + 7 days);
+
+        address[] memory survivors = new address[](2);
+        (survivors[0], survivors[1]) = address(rejecting) < user1
+            ? (address(rejecting), user1)
+            : (user1, address(rejecting));
+
+        vm.prank(owner);
+        squads.settleSquad(squadId, survivors);
+
+        uint256 user1Before = user1.balance;
+        vm.prank(user1);
+        squads.withdraw();
+
+        // 1 ETH forfeited, 10% to the vault, 0.9 ETH split between 2 survivors
+        assertEq(user1.balance, user1Before + 1.45 ether, "Survivor should be paid");
+        assertEq(squads.pendingWithdrawals(address(rejecting)), 1.45 ether, "Rejecting survivor keeps its credit");
+    }
+
+    function testFailWithdrawNothing() public {
+        vm.prank(user1);
+        squads.withdraw();
+    }
+
+    function testFailRejectingMemberWithdraw() public {
+        RejectingMember rejecting = new RejectingMember();
+        vm.prank(user1);
+        uint256 squadId = squads.createSquad{value: 1 ether}(7, 4);
+        rejecting.join{value: 1 ether}(squads, squadId);
+
+        vm.prank(user1);
+        squads.cancelSquad(squadId);
+
+        rejecting.withdraw(squads);
+    }
+
+    function testSettleSquadSplitsForfeitedStakes() public {
+        uint256 squadId = _createFullSquad(1 ether);
+        vm.warp(block.timestamp + 7 days);
+
+        address[] memory survivors = new address[](2);
+        survivors[0] = user1;
+        survivors[1] = user2;
+
+        uint256 user1Before = user1.balance;
+        uint256 vaultAssetsBefore = vault.totalAssets();
+
+        vm.prank(owner);
+        squads.settleSquad(squadId, survivors);
+
+        // 2 ETH forfeited, 10% to the vault, 1.8 ETH split between 2 survivors
+        assertEq(squads.pendingWithdrawals(user2), 1.9 ether, "Survivor should be credited stake plus share");
+        assertEq(squads.pendingWithdrawals(user3), 0, "Failed member should get nothing");
+        assertEq(vault.totalAssets(), vaultAssetsBefore + 0.2 ether, "Vault should get its share");
+
+        vm.prank(user1);
+        squads.withdraw();
+        vm.prank(user2);
+        squads.withdraw();
+
+        assertEq(user1.balance, user1Before + 1.9 ether, "Survivor should get stake plus share");
+        assertEq(address(squads).balance, 0, "Contract should hold nothing");
+    }
+
+    function testSettleSquadAllSurvive() public {
+        uint256 squadId = _createFullSquad(1 ether);
+        vm.warp(block.timestamp + 7 days);
+
+        address[] memory survivors = new address[](4);
+        survivors[0] = user1;
+        survivors[1] = user2;
+        survivors[2] = user3;
+        survivors[3] = user4;
+
+        uint256 user4Before = user4.balance;
+
+        vm.prank(owner);
+        squads.settleSquad(squadId, survivors);
+
+        vm.prank(user4);
+        squads.withdraw();
+
+        assertEq(user4.balance, user4Before + 1 ether, "Everyone should get their stake back");
+    }
+
+    function testSettleSquadNoSurvivorsEarly() public {
+        uint256 squadId = _createFullSquad(1 ether);
+        vm.warp(block.timestamp + 2 days);
+
+        uint256 vaultAssetsBefore = vault.totalAssets();
+
+        vm.prank(owner);
+        squads.settleSquad(squadId, new address[](0));
+
+        assertEq(vault.totalAssets(), vaultAssetsBefore + 4 ether, "Vault should get every stake");
+    }
+
+    function testFailSettleSquadTooEarly() public {
+        uint256 squadId = _createFullSquad(1 ether);
+
+        address[] memory survivors = new address[](1);
+        survivors[0] = user1;
+
+        vm.prank(owner);
+        squads.settleSquad(squadId, survivors);
+    }
+
+    function testFailSettleSquadDuplicateSurvivor() public {
+        uint256 squadId = _createFullSquad(1 ether);
+        vm.warp(block.timestamp + 7 days);
+
+        address[] memory survivors = new address[](2);
+        survivors[0] = user1;
+        survivors[1] = user1;
+
+        vm.prank(owner);
+        squads.settleSquad(squadId, survivors);
+    }
+
+    function testFailSettleSquadNotMember() public {
+        uint256 squadId = _createFullSquad(1 ether);
+        vm.warp(block.timestamp + 7 days);
+
+        address[] memory survivors = new address[](1);
+        survivors[0] = address(99);
+
+        vm.prank(owner);
+        squads.settleSquad(squadId, survivors);
+    }
+}